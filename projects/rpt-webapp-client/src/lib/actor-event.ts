@@ -0,0 +1,25 @@
+import { Actor } from './actor';
+
+
+/**
+ * Values for `ActorEvent` kind:
+ * - `INITIAL_SNAPSHOT`: Actor was already connected when client registered, emitted for each actor inside `REGISTRATION` command
+ * - `JOINED`: Actor has just logged in
+ * - `LEFT`: Actor has just logged out
+ */
+export enum ActorEventType {
+  INITIAL_SNAPSHOT, JOINED, LEFT
+}
+
+
+/**
+ * Something which happened to an actor inside registered RPTL session.
+ */
+export class ActorEvent {
+  /**
+   * @param type What happened to actor
+   * @param actor Involved actor data
+   * @param timestamp Time event was received at, provided by `RPT_SCHEDULER`
+   */
+  constructor(readonly type: ActorEventType, readonly actor: Actor, readonly timestamp: number) {}
+}
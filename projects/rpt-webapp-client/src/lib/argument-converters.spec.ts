@@ -0,0 +1,131 @@
+import { fromClass, toBoolean, toBytes, toFloat, toInteger, toJson, toOneOf, toTimestamp, toUid } from './argument-converters';
+import { BadArgumentValue, CommandParser, ConversionError } from './command-parser';
+
+
+describe('Argument converters', () => {
+  describe('fromClass()', () => {
+    class Position {
+      readonly value: number;
+
+      constructor(argument: string) {
+        this.value = parseInt(argument, 10);
+      }
+    }
+
+    it('should construct class with raw argument', () => {
+      const position: Position = fromClass(Position)('42');
+
+      expect(position).toBeInstanceOf(Position);
+      expect(position.value).toEqual(42);
+    });
+  });
+
+  describe('toInteger()', () => {
+    it('should convert signed decimal integers', () => {
+      expect(toInteger()('42')).toEqual(42);
+      expect(toInteger()('-7')).toEqual(-7);
+      expect(toInteger()('+0')).toEqual(0);
+    });
+
+    it('should throw for anything else than decimal integer', () => {
+      for (const argument of ['', 'abc', '4.2', '0x10', '1e3', ' 1']) {
+        expect(() => toInteger()(argument)).toThrowError(ConversionError);
+      }
+    });
+
+    it('should throw if integer is out of range', () => {
+      const converter = toInteger(0, 10);
+
+      expect(converter('0')).toEqual(0);
+      expect(converter('10')).toEqual(10);
+      expect(() => converter('-1')).toThrowError(ConversionError, 'Expected an integer between 0 and 10');
+      expect(() => converter('11')).toThrowError(ConversionError);
+    });
+  });
+
+  describe('toUid()', () => {
+    it('should convert unsigned integers', () => {
+      expect(toUid()('0')).toEqual(0);
+      expect(toUid()('42')).toEqual(42);
+    });
+
+    it('should throw for signed, decimal or unsafe integers', () => {
+      for (const argument of ['+1', '-1', '1.0', 'NaN', '9007199254740993']) {
+        expect(() => toUid()(argument)).toThrowError(ConversionError);
+      }
+    });
+  });
+
+  describe('toFloat()', () => {
+    it('should convert decimal numbers', () => {
+      expect(toFloat()('4.2')).toEqual(4.2);
+      expect(toFloat()('-.5')).toEqual(-0.5);
+      expect(toFloat()('1e3')).toEqual(1000);
+    });
+
+    it('should throw for non-finite or non-decimal numbers', () => {
+      for (const argument of ['', 'Infinity', 'NaN', '0x10', '1e999', '1.2.3']) {
+        expect(() => toFloat()(argument)).toThrowError(ConversionError);
+      }
+    });
+  });
+
+  describe('toBoolean()', () => {
+    it('should convert only true and false', () => {
+      expect(toBoolean()('true')).toBeTrue();
+      expect(toBoolean()('false')).toBeFalse();
+      expect(() => toBoolean()('1')).toThrowError(ConversionError);
+      expect(() => toBoolean()('True')).toThrowError(ConversionError);
+    });
+  });
+
+  describe('toOneOf()', () => {
+    it('should accept only allowed words', () => {
+      const converter = toOneOf('OK', 'KO');
+
+      expect(converter('KO')).toEqual('KO');
+      expect(() => converter('ok')).toThrowError(ConversionError, 'Expected one of: OK, KO');
+    });
+  });
+
+  describe('toTimestamp()', () => {
+    it('should convert ISO 8601 timestamps with timezone', () => {
+      expect(toTimestamp()('2021-03-14T15:09:26.535Z')).toEqual(new Date(Date.UTC(2021, 2, 14, 15, 9, 26, 535)));
+      expect(toTimestamp()('2021-03-14T16:09+01:00')).toEqual(new Date(Date.UTC(2021, 2, 14, 15, 9)));
+    });
+
+    it('should throw for other formats or invalid dates', () => {
+      for (const argument of ['1615734566535', '2021-03-14', '2021-03-14T15:09:26', '2021-13-14T15:09:26Z']) {
+        expect(() => toTimestamp()(argument)).toThrowError(ConversionError);
+      }
+    });
+  });
+
+  describe('toBytes()', () => {
+    it('should decode base64 data', () => {
+      expect(toBytes()('AAH/')).toEqual(new Uint8Array([0, 1, 255]));
+      expect(toBytes()('YQ==')).toEqual(new Uint8Array([97]));
+      expect(toBytes()('')).toEqual(new Uint8Array([]));
+    });
+
+    it('should throw for unpadded data or chars outside base64 alphabet', () => {
+      for (const argument of ['YQ', 'YQ=', 'a-b_', 'YQ==YQ==']) {
+        expect(() => toBytes()(argument)).toThrowError(ConversionError);
+      }
+    });
+  });
+
+  describe('toJson()', () => {
+    it('should parse any JSON value', () => {
+      expect(toJson()('{"a":[1,true,null]}')).toEqual({ a: [1, true, null] });
+      expect(toJson()('"text"')).toEqual('text');
+      expect(() => toJson()('{a:1}')).toThrowError(ConversionError);
+    });
+  });
+
+  it('should be reported by CommandParser with argument name and raw value', () => {
+    expect(() => new CommandParser('LOGGED_IN abc Bob').parseTo([
+      { name: 'command', type: String }, { name: 'uid', type: toUid() }, { name: 'name', type: String }
+    ])).toThrowError(BadArgumentValue, 'Bad value "abc" for argument uid: Expected an unsigned integer UID');
+  });
+});
@@ -0,0 +1,181 @@
+import { ArgumentConverter, ConversionError } from './command-parser';
+
+
+/**
+ * Converter carrying a short name for arguments it accepts, used by `CommandGrammar:describe()`.
+ */
+export type NamedConverter<T = unknown> = ArgumentConverter<T> & { readonly typeName: string };
+
+
+/**
+ * @param typeName Short name for arguments accepted by converter
+ * @param converter Converter to name
+ *
+ * @returns Given converter with its type name
+ */
+export function namedConverter<T>(typeName: string, converter: ArgumentConverter<T>): NamedConverter<T> {
+  return Object.assign(converter, { typeName });
+}
+
+
+/**
+ * Adapts a class constructed with raw argument, as converters were before being plain functions.
+ *
+ * @example `{ name: 'position', type: fromClass(Position) }`
+ *
+ * @param type Class taking raw argument as its only constructor parameter
+ *
+ * @returns Converter constructing given class with raw argument
+ */
+export function fromClass<T>(type: new(argument: string) => T): ArgumentConverter<T> {
+  return (argument: string) => new type(argument);
+}
+
+
+// Optional sign followed by decimal digits only, rejecting empty, hexadecimal or exponent notations which Number() would accept
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+// Decimal digits only, no sign allowed
+const UNSIGNED_PATTERN = /^\d+$/;
+// Decimal number with optional sign, fractional part and exponent
+const FLOAT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+// Date and time with mandatory timezone designator, seconds and fraction of second are optional
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+// Standard base64 alphabet with padding, length must be a multiple of 4
+const BASE64_PATTERN = /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+
+/**
+ * @param min Minimum accepted value, inclusive
+ * @param max Maximum accepted value, inclusive
+ *
+ * @returns Converter accepting decimal integers with an optional sign inside given range
+ */
+export function toInteger(min: number = Number.MIN_SAFE_INTEGER, max: number = Number.MAX_SAFE_INTEGER): NamedConverter<number> {
+  // Range is part of type name only if there is one
+  const typeName: string = min === Number.MIN_SAFE_INTEGER && max === Number.MAX_SAFE_INTEGER ? 'integer' : `integer[${min}..${max}]`;
+
+  return namedConverter(typeName, (argument: string) => {
+    if (!INTEGER_PATTERN.test(argument)) {
+      throw new ConversionError('Expected an integer');
+    }
+
+    const value = Number(argument);
+    if (value < min || value > max) {
+      throw new ConversionError(`Expected an integer between ${min} and ${max}`);
+    }
+
+    return value;
+  });
+}
+
+
+/**
+ * @returns Converter accepting actor or request UIDs, which are unsigned safe integers without any sign
+ */
+export function toUid(): NamedConverter<number> {
+  return namedConverter('uid', (argument: string) => {
+    const value = Number(argument);
+    if (!UNSIGNED_PATTERN.test(argument) || !Number.isSafeInteger(value)) {
+      throw new ConversionError('Expected an unsigned integer UID');
+    }
+
+    return value;
+  });
+}
+
+
+/**
+ * @returns Converter accepting finite decimal numbers, with optional sign, fractional part and exponent
+ */
+export function toFloat(): NamedConverter<number> {
+  return namedConverter('float', (argument: string) => {
+    const value = Number(argument);
+    if (!FLOAT_PATTERN.test(argument) || !Number.isFinite(value)) {
+      throw new ConversionError('Expected a finite decimal number');
+    }
+
+    return value;
+  });
+}
+
+
+/**
+ * @returns Converter accepting only `true` and `false` words
+ */
+export function toBoolean(): NamedConverter<boolean> {
+  return namedConverter('boolean', (argument: string) => {
+    switch (argument) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      default:
+        throw new ConversionError('Expected true or false');
+    }
+  });
+}
+
+
+/**
+ * @param words Allowed words, case sensitive
+ *
+ * @returns Converter accepting only one of given words, typed as an union of these words
+ */
+export function toOneOf<W extends string>(...words: W[]): NamedConverter<W> {
+  return namedConverter(words.join('|'), (argument: string) => {
+    if (!(words as string[]).includes(argument)) {
+      throw new ConversionError(`Expected one of: ${words.join(', ')}`);
+    }
+
+    return argument as W;
+  });
+}
+
+
+/**
+ * @returns Converter accepting ISO 8601 date and time with timezone designator, e.g. `2021-03-14T15:09:26.535Z`
+ */
+export function toTimestamp(): NamedConverter<Date> {
+  return namedConverter('timestamp', (argument: string) => {
+    const value = new Date(argument);
+    if (!ISO_TIMESTAMP_PATTERN.test(argument) || isNaN(value.getTime())) {
+      throw new ConversionError('Expected an ISO 8601 timestamp');
+    }
+
+    return value;
+  });
+}
+
+
+/**
+ * @returns Converter accepting padded base64 encoded data, decoded into bytes
+ */
+export function toBytes(): NamedConverter<Uint8Array> {
+  return namedConverter('base64', (argument: string) => {
+    if (!BASE64_PATTERN.test(argument)) {
+      throw new ConversionError('Expected base64 encoded data');
+    }
+
+    const decoded: string = atob(argument); // Each char of decoded string is a byte
+    const bytes = new Uint8Array(decoded.length);
+    for (let i = 0; i < decoded.length; i++) {
+      bytes[i] = decoded.charCodeAt(i);
+    }
+
+    return bytes;
+  });
+}
+
+
+/**
+ * @returns Converter accepting any JSON value, parsed without any further validation
+ */
+export function toJson(): NamedConverter<unknown> {
+  return namedConverter('json', (argument: string) => {
+    try {
+      return JSON.parse(argument);
+    } catch (err) {
+      throw new ConversionError(`Expected a JSON value: ${err.message}`);
+    }
+  });
+}
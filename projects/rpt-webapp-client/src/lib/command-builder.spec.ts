@@ -0,0 +1,60 @@
+import { BadCommandArgument, CommandBuilder, quoteArgument } from './command-builder';
+import { CommandParser } from './command-parser';
+
+
+describe('CommandBuilder', () => {
+  describe('quoteArgument()', () => {
+    it('should keep simple words as-is', () => {
+      expect(quoteArgument('ThisALV')).toEqual('ThisALV');
+      expect(quoteArgument('a"b\\c')).toEqual('a"b\\c'); // Only a leading quote begins a quoted argument
+    });
+
+    it('should quote empty argument, argument containing spaces or beginning with a quote', () => {
+      expect(quoteArgument('')).toEqual('""');
+      expect(quoteArgument('Jean Luc')).toEqual('"Jean Luc"');
+      expect(quoteArgument('"quoted"')).toEqual('"\\"quoted\\""');
+    });
+
+    it('should escape backslashes inside quoted argument', () => {
+      expect(quoteArgument('a \\ b')).toEqual('"a \\\\ b"');
+    });
+  });
+
+  it('should format command with typed arguments', () => {
+    expect(new CommandBuilder('LOGIN').add(42).add('Jean Luc').build()).toEqual('LOGIN 42 "Jean Luc"');
+    expect(new CommandBuilder('FLAG').add(true).build()).toEqual('FLAG true');
+    expect(new CommandBuilder('CHECKOUT').build()).toEqual('CHECKOUT');
+  });
+
+  it('should append raw remaining part as-is', () => {
+    expect(new CommandBuilder('REQUEST').add(0).add('Chat').addRaw('MESSAGE "Hello world"').build())
+      .toEqual('REQUEST 0 Chat MESSAGE "Hello world"');
+  });
+
+  it('should throw if an argument follows raw remaining part', () => {
+    const builder: CommandBuilder = new CommandBuilder('REQUEST').addRaw('rest');
+
+    expect(() => builder.add('argument')).toThrowError(BadCommandArgument);
+    expect(() => builder.addRaw('other rest')).toThrowError(BadCommandArgument);
+  });
+
+  it('should throw if a number is not finite', () => {
+    expect(() => new CommandBuilder('A').add(NaN)).toThrowError(BadCommandArgument);
+    expect(() => new CommandBuilder('A').add(Infinity)).toThrowError(BadCommandArgument);
+  });
+
+  it('should be parsed back unchanged by CommandParser', () => {
+    const values: string[] = ['simple', '', 'Jean Luc', '"', '\\', 'a "b" \\" c', '  spaces  ', 'a"b', '\\"'];
+    const builder: CommandBuilder = new CommandBuilder('COMMAND');
+    for (const value of values) {
+      builder.add(value);
+    }
+
+    const parsed: CommandParser<{ [name: string]: string }> = new CommandParser(builder.build()).parseTo([
+      { name: 'command', type: String }, ...values.map((value: string, i: number) => ({ name: `arg${i}`, type: String }))
+    ]);
+
+    expect(parsed.unparsed).toEqual('');
+    values.forEach((value: string, i: number) => expect(parsed.parsedData[`arg${i}`]).toEqual(value));
+  });
+});
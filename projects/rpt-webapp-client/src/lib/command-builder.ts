@@ -0,0 +1,99 @@
+/**
+ * Value which can be formatted as a command argument.
+ */
+export type CommandArgument = string | number | boolean;
+
+
+/**
+ * Thrown by `CommandBuilder` if an argument cannot be formatted.
+ */
+export class BadCommandArgument extends Error {
+  /**
+   * @param reason Why argument cannot be formatted
+   */
+  constructor(reason: string) {
+    super(`Bad command argument: ${reason}`);
+  }
+}
+
+
+/**
+ * @param argument Raw argument value
+ *
+ * @returns Argument as-is if `CommandParser` would parse it unchanged, quoted and escaped argument otherwise
+ */
+export function quoteArgument(argument: string): string {
+  // Empty argument, argument containing separator or beginning with a quote would not be parsed as a single unchanged word
+  if (argument.length !== 0 && !argument.includes(' ') && !argument.startsWith('"')) {
+    return argument;
+  }
+
+  return `"${argument.replace(/[\\"]/g, (escaped: string) => `\\${escaped}`)}"`;
+}
+
+
+/**
+ * Formats RPTL or SER commands from typed arguments, quoting and escaping them so `CommandParser` will parse them back unchanged.
+ *
+ * @example new CommandBuilder('LOGIN').add(42).add('Jean Luc').build() === 'LOGIN 42 "Jean Luc"'
+ */
+export class CommandBuilder {
+  // Formatted words, command name included
+  private readonly words: string[];
+  // Set when raw remaining part has been added, nothing can follow it
+  private terminated: boolean;
+
+  /**
+   * @param command Name of command to format, taken as-is
+   */
+  constructor(command: string) {
+    this.words = [command];
+    this.terminated = false;
+  }
+
+  /**
+   * @param argument Argument to append, quoted if necessary
+   *
+   * @returns This builder
+   *
+   * @throws BadCommandArgument if a raw remaining part has already been appended, or if a number isn't finite
+   */
+  add(argument: CommandArgument): CommandBuilder {
+    if (this.terminated) {
+      throw new BadCommandArgument('Nothing can follow raw remaining part');
+    }
+
+    if (typeof argument === 'number' && !Number.isFinite(argument)) {
+      throw new BadCommandArgument(`${argument} cannot be parsed back`);
+    }
+
+    this.words.push(quoteArgument(String(argument)));
+
+    return this;
+  }
+
+  /**
+   * @param rest Remaining part of command, taken as-is like `CommandParser:unparsed`
+   *
+   * @returns This builder
+   *
+   * @throws BadCommandArgument if a raw remaining part has already been appended
+   */
+  addRaw(rest: string): CommandBuilder {
+    if (this.terminated) {
+      throw new BadCommandArgument('Nothing can follow raw remaining part');
+    }
+
+    this.terminated = true;
+    this.words.push(rest);
+
+    return this;
+  }
+
+  /**
+   * @returns Formatted command, words being separated with a single space
+   */
+  build(): string {
+    return this.words.join(' ');
+  }
+}
@@ -1,4 +1,5 @@
-import { BadArgumentScheme, CommandParser } from './command-parser';
+import { BadArgumentScheme, BadArgumentValue, BadQuotedArgument, CommandParser, ConversionError, ParsingError } from './command-parser';
+import { toUid } from './argument-converters';
 
 
 describe('CommandParser', () => {
@@ -34,6 +35,59 @@ describe('CommandParser', () => {
     expect(result).toEqual(new CommandParser('', { 1: 'a', 2: 42 }));
   });
 
+  it('should provide primitive values for String and Number converters', () => {
+    const result: CommandParser<{ name: string, uid: number }> =
+      new CommandParser('ThisALV 42').parseTo([{ name: 'name', type: String }, { name: 'uid', type: Number }]);
+
+    expect(typeof result.parsedData.name).toEqual('string');
+    expect(typeof result.parsedData.uid).toEqual('number');
+  });
+
+  it('should convert arguments using any converter function', () => {
+    const result: CommandParser<{ flag: boolean }> =
+      new CommandParser('true').parseTo([{ name: 'flag', type: (flag: string) => flag === 'true' }]);
+
+    expect(result.parsedData.flag).toBeTrue();
+  });
+
+  it('should report rejected argument with its name and raw value', () => {
+    const reject = (argument: string) => {
+      throw new ConversionError('Rejected');
+    };
+
+    try {
+      new CommandParser('a b').parseTo([{ name: '1', type: String }, { name: '2', type: reject }]);
+      fail('BadArgumentValue expected');
+    } catch (err) {
+      expect(err).toBeInstanceOf(BadArgumentValue);
+      expect(err).toBeInstanceOf(ParsingError);
+      expect(err).toEqual(jasmine.objectContaining({ argumentName: '2', rawValue: 'b', reason: 'Rejected' }));
+    }
+  });
+
+  it('should rethrow other converter errors as-is', () => {
+    const crash = (argument: string) => {
+      throw new RangeError('Converter failure');
+    };
+
+    expect(() => new CommandParser('a').parseTo([{ name: '1', type: crash }])).toThrowError(RangeError);
+  });
+
+  it('should accumulate parsed data from chained parsing steps', () => {
+    const result: CommandParser<{ command: string, uid: number }> = new CommandParser('LOGGED_OUT 42')
+      .parseTo([{ name: 'command', type: String }])
+      .parseTo([{ name: 'uid', type: Number }]);
+
+    expect(result.parsedData).toEqual({ command: 'LOGGED_OUT', uid: 42 });
+  });
+
+  it('should let previous parsing step unchanged', () => {
+    const parser: CommandParser<{ command: string }> = new CommandParser('LOGGED_OUT 42').parseTo([{ name: 'command', type: String }]);
+    parser.parseTo([{ name: 'uid', type: Number }]);
+
+    expect(parser).toEqual(new CommandParser('42', { command: 'LOGGED_OUT' }));
+  });
+
   it('should ignore extra arguments', () => {
     const parser: CommandParser = new CommandParser('a b c d');
 
@@ -51,4 +105,127 @@ describe('CommandParser', () => {
     // Two first words should have been parsed without their extra spaces, the lost last should keep their extra spaces
     expect(result).toEqual(new CommandParser('c   d ', { 1: 'a', 2: 'b' }));
   });
+
+  describe('Quoted arguments', () => {
+    it('should parse quoted argument containing spaces', () => {
+      const parser: CommandParser = new CommandParser('42 "Jean Luc"  rest of "command"');
+
+      const result: CommandParser = parser.parseTo([{ name: 'uid', type: Number }, { name: 'name', type: String }]);
+
+      // Quotes aren't part of argument, remaining part is kept as-is
+      expect(result).toEqual(new CommandParser('rest of "command"', { uid: 42, name: 'Jean Luc' }));
+    });
+
+    it('should unescape quotes and backslashes inside quoted argument', () => {
+      const result: CommandParser = new CommandParser('"a \\"b\\" \\\\ c" ""').parseTo([
+        { name: '1', type: String }, { name: '2', type: String }
+      ]);
+
+      expect(result).toEqual(new CommandParser('', { 1: 'a "b" \\ c', 2: '' }));
+    });
+
+    it('should take quotes and backslashes inside unquoted words as-is', () => {
+      const result: CommandParser = new CommandParser('a"b c\\d').parseTo([{ name: '1', type: String }, { name: '2', type: String }]);
+
+      expect(result).toEqual(new CommandParser('', { 1: 'a"b', 2: 'c\\d' }));
+    });
+
+    it('should throw if quoted argument is ill-formed', () => {
+      const schemes = [{ name: '1', type: String }];
+
+      expect(() => new CommandParser('"unterminated').parseTo(schemes)).toThrowError(BadQuotedArgument);
+      expect(() => new CommandParser('"bad \\escape"').parseTo(schemes)).toThrowError(BadQuotedArgument);
+      expect(() => new CommandParser('"glued"word').parseTo(schemes)).toThrowError(BadQuotedArgument);
+    });
+  });
+
+  describe('Optional arguments', () => {
+    it('should be undefined or default value if missing', () => {
+      const result: CommandParser<{ uid: number, name: string | undefined, flag: string }> = new CommandParser('42').parseTo([
+        { name: 'uid', type: Number },
+        { name: 'name', type: String, optional: true },
+        { name: 'flag', type: String, optional: true, default: 'off' }
+      ]);
+
+      expect(result).toEqual(new CommandParser('', { uid: 42, name: undefined, flag: 'off' }));
+    });
+
+    it('should be converted if present', () => {
+      const result: CommandParser<{ name?: string }> = new CommandParser('ThisALV rest').parseTo([
+        { name: 'name', type: String, optional: true, default: 'Anonymous' }
+      ]);
+
+      expect(result).toEqual(new CommandParser('rest', { name: 'ThisALV' }));
+    });
+
+    it('should still require previous arguments', () => {
+      expect(() => new CommandParser('').parseTo([{ name: 'uid', type: Number }, { name: 'name', type: String, optional: true }]))
+        .toThrowError(BadArgumentScheme, 'Not enough arguments to parse: expected 1, got 0, missing uid');
+    });
+
+    it('should throw if followed by a required argument', () => {
+      expect(() => new CommandParser('a b').parseTo([{ name: '1', type: String, optional: true }, { name: '2', type: String }]))
+        .toThrowError(BadArgumentScheme);
+    });
+  });
+
+  describe('Rest argument', () => {
+    it('should take remaining part as-is', () => {
+      const result: CommandParser<{ uid: number, message: string }> = new CommandParser('0 KO   "not" parsed  ').parseTo([
+        { name: 'uid', type: Number }, { name: 'message', rest: true }
+      ]);
+
+      expect(result).toEqual(new CommandParser('', { uid: 0, message: 'KO   "not" parsed  ' }));
+    });
+
+    it('should be empty if nothing remains', () => {
+      expect(new CommandParser('0').parseTo([{ name: 'uid', type: Number }, { name: 'message', rest: true }]).parsedData.message)
+        .toEqual('');
+    });
+
+    it('should throw if not the last argument', () => {
+      expect(() => new CommandParser('a b').parseTo([{ name: '1', rest: true }, { name: '2', type: String }]))
+        .toThrowError(BadArgumentScheme);
+    });
+  });
+
+  describe('Repeated arguments', () => {
+    /**
+     * @param unparsed String to parse as an actors list
+     *
+     * @returns Parsed actors list into `actors` argument
+     */
+    function parseActors(unparsed: string): CommandParser<{ actors: { uid: number, name: string }[] }> {
+      return new CommandParser(unparsed).parseTo([
+        { name: 'actors', repeat: [{ name: 'uid', type: toUid() }, { name: 'name', type: String }] }
+      ]);
+    }
+
+    it('should parse a record for each group until string end', () => {
+      expect(parseActors('42 ThisALV   0 "Jean Luc" ')).toEqual(new CommandParser('', {
+        actors: [{ uid: 42, name: 'ThisALV' }, { uid: 0, name: 'Jean Luc' }]
+      }));
+    });
+
+    it('should parse an empty array if nothing remains', () => {
+      expect(parseActors('').parsedData.actors).toEqual([]);
+    });
+
+    it('should throw with group index if last group is incomplete', () => {
+      expect(() => parseActors('42 ThisALV 0'))
+        .toThrowError(BadArgumentScheme, 'Not enough arguments to parse: expected 2, got 1, missing actors[1].name');
+    });
+
+    it('should throw with group index if a value is rejected', () => {
+      expect(() => parseActors('42 ThisALV Redox 0'))
+        .toThrowError(BadArgumentValue, 'Bad value "Redox" for argument actors[1].uid: Expected an unsigned integer UID');
+    });
+
+    it('should throw if not the last argument or without any scheme', () => {
+      expect(() => new CommandParser('a b').parseTo([
+        { name: 'list', repeat: [{ name: 'item', type: String }] }, { name: 'other', type: String }
+      ])).toThrowError(BadArgumentScheme);
+      expect(() => new CommandParser('a b').parseTo([{ name: 'empty', repeat: [] }])).toThrowError(BadArgumentScheme);
+    });
+  });
 });
@@ -1,60 +1,342 @@
 /**
- * `new` Constructable type which returns converted argument as converter-defined type
+ * Function which returns converted argument as converter-defined type. Converters are called without `new`, so `String` and `Number`
+ * provide primitive values. A converter rejecting its argument should throw a `ConversionError`, see `argument-converters` for strict
+ * built-in converters.
+ *
+ * @note Breaking change: converters used to be classes constructed with raw argument. Such a class must now be wrapped with
+ * `fromClass()`, and schemes using `String` or `Number` now parse primitive values instead of wrapper objects.
  */
-export type ArgumentConverter = new(argument: string) => any;
+export type ArgumentConverter<T = unknown> = (argument: string) => T;
 
 
 /**
- * Instructions to convert a parsed command word. Parsed word has an argument name, and a converter which might be a `new` constructable
- * type taking raw argument as string and converting it to converter-defined type or format.
+ * Instructions to convert a parsed command word. Parsed word has an argument name, and a converter taking raw argument as string and
+ * converting it to converter-defined type or format.
  */
-export type ArgumentScheme = { name: string, type: ArgumentConverter };
+export type RequiredArgument<N extends string = string, T = unknown> = { name: N, type: ArgumentConverter<T>, optional?: false };
+
+
+/**
+ * Converted word which might be missing at end of parsed string. Value is `default` in that case, or `undefined` if there is no default.
+ * Optional arguments cannot be followed by required arguments.
+ */
+export type OptionalArgument<N extends string = string, T = unknown> = {
+  name: N, type: ArgumentConverter<T>, optional: true, default?: T
+};
+
+
+/**
+ * Remaining part of parsed string, taken as-is without any words parsing. Must be the last scheme.
+ */
+export type RestArgument<N extends string = string> = { name: N, rest: true };
+
+
+/**
+ * Group of arguments parsed again and again until parsed string end, into an array with a record for each group. Must be the last
+ * scheme.
+ *
+ * @example `{ name: 'actors', repeat: [{ name: 'uid', type: toUid() }, { name: 'name', type: String }] }` parses `42 ThisALV 0 Redox`
+ * into `[{ uid: 42, name: 'ThisALV' }, { uid: 0, name: 'Redox' }]`
+ */
+export type RepeatedArguments<N extends string = string> = { name: N, repeat: ArgumentScheme<N>[] };
+
+
+/**
+ * Instructions to parse command arguments, see each scheme kind for details.
+ */
+export type ArgumentScheme<N extends string = string, T = unknown> =
+  RequiredArgument<N, T> | OptionalArgument<N, T> | RestArgument<N> | RepeatedArguments<N>;
+
+
+/**
+ * Parsed value type for given argument scheme.
+ */
+export type ArgumentValue<A> =
+  A extends { repeat: (infer G)[] } ? ParsedArguments<G extends ArgumentScheme ? G[] : never>[] :
+  A extends { rest: true } ? string :
+  A extends { type: ArgumentConverter<infer T>, optional: true } ? (A extends { default: unknown } ? T : T | undefined) :
+  A extends { type: ArgumentConverter<infer V> } ? V :
+  never;
+
+
+/**
+ * Parsed data for given schemes: each scheme name is a property typed with value returned by scheme converter.
+ *
+ * @example `ParsedArguments<[{ name: 'uid', type: typeof Number }]>` is `{ uid: number }`
+ */
+export type ParsedArguments<S extends readonly ArgumentScheme[]> = {
+  [N in S[number]['name']]: ArgumentValue<Extract<S[number], { name: N }>>
+};
+
+
+/**
+ * Base class for every error thrown by `CommandParser:parseTo()` because parsed string doesn't match given schemes, so callers can
+ * report any parse failure as a single protocol error.
+ */
+export class ParsingError extends Error {
+  /**
+   * @param message Why parsing failed
+   * @param offset Index of parsed string char where parsing failed, if failure is caused by parsed string
+   */
+  constructor(message: string, readonly offset?: number) {
+    super(message);
+  }
+}
+
+
+/**
+ * Thrown by an argument converter if raw argument cannot be converted. `CommandParser:parseTo()` reports it as `BadArgumentValue`.
+ */
+export class ConversionError extends Error {
+  /**
+   * @param reason Why raw argument cannot be converted
+   */
+  constructor(readonly reason: string) {
+    super(reason);
+  }
+}
 
 
 /**
  * Thrown if an argument scheme is ill-formed during `CommandParser:parseTo()` call.
  */
-export class BadArgumentScheme extends Error {
+export class BadArgumentScheme extends ParsingError {
   /**
    * @param reason Why argument scheme is ill-formed
+   * @param offset Index of parsed string char where parsing failed, if failure is caused by parsed string
    */
-  constructor(reason: string) {
-    super(reason);
+  constructor(reason: string, offset?: number) {
+    super(reason, offset);
+  }
+}
+
+
+/**
+ * Thrown by `CommandParser:parseTo()` if parsed string ended before every required argument was parsed.
+ */
+export class MissingArgument extends BadArgumentScheme {
+  /**
+   * @param argumentName Name of first scheme argument without any word to parse
+   * @param expected Number of required arguments
+   * @param got Number of words parsed before string end
+   * @param offset Index of parsed string end
+   */
+  constructor(readonly argumentName: string, readonly expected: number, readonly got: number, offset: number) {
+    super(`Not enough arguments to parse: expected ${expected}, got ${got}, missing ${argumentName}`, offset);
+  }
+}
+
+
+/**
+ * Thrown by `CommandParser:parseTo()` if a quoted argument is ill-formed.
+ */
+export class BadQuotedArgument extends ParsingError {
+  /**
+   * @param reason Why quoted argument is ill-formed
+   * @param offset Index of parsed string char making quoted argument ill-formed
+   */
+  constructor(readonly reason: string, offset: number) {
+    super(`Bad quoted argument: ${reason}`, offset);
+  }
+}
+
+
+/**
+ * Thrown by `CommandParser:parseTo()` if an argument converter rejected a parsed argument.
+ */
+export class BadArgumentValue extends ParsingError {
+  /**
+   * @param argumentName Name of scheme argument which couldn't be converted
+   * @param rawValue Parsed argument as string, before conversion
+   * @param reason Why converter rejected parsed argument
+   * @param offset Index of parsed string char where rejected argument begins
+   */
+  constructor(readonly argumentName: string, readonly rawValue: string, readonly reason: string, offset: number) {
+    super(`Bad value "${rawValue}" for argument ${argumentName}: ${reason}`, offset);
+  }
+}
+
+
+// Parsed argument and index of the first char following it
+type ParsedWord = { word: string, end: number };
+
+
+/**
+ * @param schemes Schemes to check, in parsing order
+ *
+ * @throws BadArgumentScheme if a name is used twice, if a required argument follows an optional one, if a rest or repeated argument
+ * isn't the last scheme, or if a repeated argument has no scheme
+ */
+function checkSchemes(schemes: ArgumentScheme[]): void {
+  const names = new Set<string>();
+  let optionalFound = false;
+
+  schemes.forEach((argument: ArgumentScheme, i: number) => {
+    if (names.has(argument.name)) {
+      throw new BadArgumentScheme(`Argument name ${argument.name} used at least twice`);
+    }
+
+    names.add(argument.name);
+
+    if (('rest' in argument || 'repeat' in argument) && i !== schemes.length - 1) { // Would consume words for following schemes
+      throw new BadArgumentScheme(`Argument ${argument.name} takes every remaining word, it must be the last one`);
+    }
+
+    if ('repeat' in argument && argument.repeat.length === 0) { // Groups would never consume any word
+      throw new BadArgumentScheme(`Repeated argument ${argument.name} needs at least one scheme`);
+    }
+
+    if ('type' in argument) {
+      if (argument.optional) {
+        optionalFound = true;
+      } else if (optionalFound) { // Words couldn't be assigned unambiguously
+        throw new BadArgumentScheme(`Required argument ${argument.name} cannot follow an optional argument`);
+      }
+    }
+  });
+}
+
+
+/**
+ * Parses every group of repeated argument until string end.
+ *
+ * @param parsed String containing groups
+ * @param begin Index of first group
+ * @param argument Repeated argument scheme
+ *
+ * @returns Parsed data for each group
+ *
+ * @throws ParsingError with group index inside argument name or message if a group is ill-formed, located inside `parsed`
+ */
+function parseGroups(parsed: string, begin: number, argument: RepeatedArguments): unknown[] {
+  const groups: unknown[] = [];
+
+  let remaining: string = parsed.substr(begin);
+  while (remaining.length !== 0) { // Each parsing step flushes separators, so remaining string is empty only at string end
+    const groupOffset: number = parsed.length - remaining.length; // Group errors are located inside remaining string
+
+    try {
+      const parsedGroup: CommandParser<{ [name: string]: unknown }> = new CommandParser(remaining).parseTo(argument.repeat);
+
+      groups.push(parsedGroup.parsedData);
+      remaining = parsedGroup.unparsed;
+    } catch (err) { // Error is located with group index so caller knows which part of list is malformed
+      const location = `${argument.name}[${groups.length}]`;
+
+      if (err instanceof BadArgumentValue) {
+        throw new BadArgumentValue(`${location}.${err.argumentName}`, err.rawValue, err.reason, groupOffset + (err.offset as number));
+      } else if (err instanceof MissingArgument) {
+        throw new MissingArgument(`${location}.${err.argumentName}`, err.expected, err.got, groupOffset + (err.offset as number));
+      } else if (err instanceof BadQuotedArgument) {
+        throw new BadQuotedArgument(err.reason, groupOffset + (err.offset as number));
+      } else if (err instanceof BadArgumentScheme) {
+        throw new BadArgumentScheme(`${location}: ${err.message}`);
+      }
+
+      throw err;
+    }
   }
+
+  return groups;
 }
 
 
 /**
  * Parses given string using user-provided arguments scheme to parse and convert correct number of arguments. Each separated word is an
  * argument.
+ *
+ * Parsed data type `D` is inferred from schemes given to each chained `parseTo()` call, so parsed arguments are accessed without casts.
+ *
+ * A word beginning with `"` is a quoted argument, which might contain spaces and ends with the next unescaped `"`. Inside quotes, `\"`
+ * is a quote and `\\` is a backslash. Other words are taken as-is. `CommandBuilder` formats arguments so they're parsed back unchanged.
  */
-export class CommandParser {
-  parsedData: any;
+export class CommandParser<D = {}> {
+  parsedData: D;
   unparsed: string;
 
   /**
    * @param unparsed Words to be parsed
    * @param parsedData Already parsed and converted arguments from previous `parseTo()` calls
    */
-  constructor(unparsed: string, parsedData: any = {}) {
+  constructor(unparsed: string, parsedData: D = {} as D) {
     this.parsedData = parsedData;
     this.unparsed = unparsed;
   }
 
+  /**
+   * Parses quoted argument beginning at given index.
+   *
+   * @param begin Index of opening quote
+   *
+   * @returns Unescaped argument and index following closing quote
+   * @private
+   *
+   * @throws BadQuotedArgument if closing quote is missing, if an escape sequence is unknown or if closing quote isn't followed by a
+   * separator
+   */
+  private parseQuotedWord(begin: number): ParsedWord {
+    let word = '';
+    let currentCharIndex: number = begin + 1; // Opening quote isn't part of argument
+
+    while (currentCharIndex < this.unparsed.length && this.unparsed[currentCharIndex] !== '"') {
+      let currentChar: string = this.unparsed[currentCharIndex];
+
+      if (currentChar === '\\') { // Escape sequence, next char is taken as-is if it can be escaped
+        currentChar = this.unparsed[++currentCharIndex];
+
+        if (currentChar !== '"' && currentChar !== '\\') {
+          throw new BadQuotedArgument('Unknown escape sequence', currentCharIndex - 1);
+        }
+      }
+
+      word += currentChar;
+      currentCharIndex++;
+    }
+
+    if (currentCharIndex >= this.unparsed.length) { // String ended before closing quote
+      throw new BadQuotedArgument('Missing closing quote', begin);
+    }
+
+    currentCharIndex++; // Closing quote isn't part of argument
+
+    if (currentCharIndex < this.unparsed.length && this.unparsed[currentCharIndex] !== ' ') { // Otherwise argument boundary is unclear
+      throw new BadQuotedArgument('Closing quote must be followed by a separator', currentCharIndex - 1);
+    }
+
+    return { word, end: currentCharIndex };
+  }
+
   /**
    * Parses unparsed words for this instance.
    *
-   * @param schemes Schemes (name and converter) to parse each required argument
+   * @param schemes Schemes to parse each argument, optional arguments, then rest or repeated argument, must come last
    *
-   * @returns A new `CommandParser` containing newly plus previously parsed data and string which hasn't been parsed yet
+   * @returns A new `CommandParser` containing newly plus previously parsed data and string which hasn't been parsed yet, parsed data
+   * type is extended with a property for each scheme
    *
-   * @throws BadArgumentScheme if at least schemes use the same argument name, or if there isn't enough words to complete all schemes
+   * @throws BadArgumentScheme if schemes are ill-formed
+   * @throws MissingArgument if there isn't enough words to complete all required schemes or if last repeated group is incomplete
+   * @throws BadQuotedArgument if a parsed argument is an ill-formed quoted argument
+   * @throws BadArgumentValue if a converter throws a `ConversionError` for its parsed argument
    *
    * @note Conversion errors are not handled by method and should be taken in consideration by the caller
    */
-  parseTo(schemes: ArgumentScheme[]): CommandParser {
-    const argumentsToParse: number = schemes.length;
+  parseTo<S extends ArgumentScheme<N>[], N extends string>(schemes: [...S]): CommandParser<D & ParsedArguments<S>> {
+    const argumentSchemes: ArgumentScheme[] = schemes; // Inferred names aren't required to parse
+    checkSchemes(argumentSchemes);
+
+    // Only required and optional arguments are parsed as words, rest and repeated arguments use remaining unparsed string
+    const wordSchemes: (RequiredArgument | OptionalArgument)[] = [];
+    for (const argument of argumentSchemes) {
+      if ('type' in argument) {
+        wordSchemes.push(argument);
+      }
+    }
+
+    const argumentsToParse: number = wordSchemes.length;
+    const requiredArguments: number = wordSchemes.filter((argument: RequiredArgument | OptionalArgument) => !argument.optional).length;
     const parsedWords: string[] = [];
+    const wordOffsets: number[] = []; // Index of each parsed word first char, including opening quote
 
     let currentCharIndex = 0; // String to parse beginning
     let wordBegin = currentCharIndex; // Begin words parsing from string beginning
@@ -67,8 +349,17 @@ export class CommandParser {
       if (currentChar === ' ') { // If words separator is met
         if (wordLength !== 0) { // if word is currently into parsing stage, push that words into queue
           parsedWords.push(this.unparsed.substr(wordBegin, wordLength));
+          wordOffsets.push(wordBegin);
           wordLength = 0; // Ready to parse a new word
         }
+      } else if (currentChar === '"' && wordLength === 0) { // If a quoted argument begins, it is parsed at once
+        const quotedWord: ParsedWord = this.parseQuotedWord(currentCharIndex);
+
+        parsedWords.push(quotedWord.word);
+        wordOffsets.push(currentCharIndex);
+        currentCharIndex = quotedWord.end;
+
+        continue; // Separator or string end is reached, nothing more to do for that word
       } else { // If words is currently being parsed
         if (wordLength === 0) { // If it is a new word...
           wordBegin = currentCharIndex; // ...then its position must be saved
@@ -82,12 +373,16 @@ export class CommandParser {
 
     if (wordLength !== 0) { // If a word was in parsing stage when parsing stopped, pushes it into queue
       parsedWords.push(this.unparsed.substr(wordBegin, wordLength));
+      wordOffsets.push(wordBegin);
     }
 
     const parsedWordsQueue: string[] = parsedWords.reverse(); // Enables FIFO order because neither push_back() nor pop_back() is available
 
-    if (parsedWordsQueue.length < argumentsToParse) { // Checks to have enough arguments before beginning iteration
-      throw new BadArgumentScheme(`Not enough arguments to parse: expected ${argumentsToParse}, got ${parsedWordsQueue.length}`);
+    if (parsedWordsQueue.length < requiredArguments) { // Checks to have enough arguments before beginning iteration
+      // Missing argument is located at string end, where next word was expected
+      const missingArgument: string = wordSchemes[parsedWordsQueue.length].name;
+
+      throw new MissingArgument(missingArgument, requiredArguments, parsedWordsQueue.length, this.unparsed.length);
     }
 
     // Flushes string until next non-separator char is met
@@ -95,20 +390,46 @@ export class CommandParser {
       currentCharIndex++;
     }
 
-    // Copies current parser to modify it during arguments parsing iteration
-    const newParser: CommandParser = new CommandParser(this.unparsed.substr(currentCharIndex), this.parsedData);
+    // Copies previously parsed data so this parser is left unchanged, then adds newly parsed arguments
+    const parsedData: { [name: string]: unknown } = { ...this.parsedData as unknown as object };
 
-    for (const argument of schemes) {
-      if (newParser.parsedData[argument.name] !== undefined) { // Checks for argument name to be available
+    for (const argument of argumentSchemes) {
+      if (parsedData.hasOwnProperty(argument.name)) { // Checks for argument name to be available
         throw new BadArgumentScheme(`Argument name ${argument.name} used at least twice`);
       }
+    }
+
+    wordSchemes.forEach((argument: RequiredArgument | OptionalArgument, i: number) => {
+      if (parsedWordsQueue.length === 0) { // Only optional arguments remain as there are enough words for required ones
+        parsedData[argument.name] = argument.optional ? argument.default : undefined;
+        return;
+      }
+
+      const rawArgument: string = parsedWordsQueue.pop() as string;
+
+      try { // We convert raw string argument calling given converter with a string parameter
+        parsedData[argument.name] = argument.type(rawArgument);
+      } catch (err) { // Rejected argument is reported with its scheme name, other errors are converter specific and rethrown as-is
+        if (err instanceof ConversionError) {
+          throw new BadArgumentValue(argument.name, rawArgument, err.reason, wordOffsets[i]);
+        }
+
+        throw err;
+      }
+    });
+
+    let unparsed: string = this.unparsed.substr(currentCharIndex);
+    const lastArgument: ArgumentScheme | undefined = argumentSchemes[argumentSchemes.length - 1];
 
-      // pop() will return a value as we're sure that there are enough arguments to parse
-      // We convert raw string argument using given type constructable with a string parameter
-      newParser.parsedData[argument.name] = new argument.type(parsedWordsQueue.pop() as string);
+    if (lastArgument !== undefined && 'rest' in lastArgument) { // Remaining part is taken as-is
+      parsedData[lastArgument.name] = unparsed;
+      unparsed = '';
+    } else if (lastArgument !== undefined && 'repeat' in lastArgument) { // Remaining part is parsed group by group
+      parsedData[lastArgument.name] = parseGroups(this.unparsed, currentCharIndex, lastArgument);
+      unparsed = '';
     }
 
-    // Retrieves new parsing step after current parsing
-    return newParser;
+    // Retrieves new parsing step after current parsing, parsed data now contains every scheme
+    return new CommandParser<D & ParsedArguments<S>>(unparsed, parsedData as D & ParsedArguments<S>);
   }
 }
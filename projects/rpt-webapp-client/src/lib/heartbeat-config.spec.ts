@@ -0,0 +1,21 @@
+import { BadHeartbeatConfig, DEFAULT_HEARTBEAT_CONFIG, makeHeartbeatConfig } from './heartbeat-config';
+
+
+describe('HeartbeatConfig', () => {
+  describe('makeHeartbeatConfig()', () => {
+    it('should use default values for missing fields', () => {
+      expect(makeHeartbeatConfig()).toEqual(DEFAULT_HEARTBEAT_CONFIG);
+      expect(makeHeartbeatConfig({ pingCommand: 'PING' })).toEqual({ ...DEFAULT_HEARTBEAT_CONFIG, pingCommand: 'PING' });
+    });
+
+    it('should throw if a duration is not strictly positive', () => {
+      expect(() => makeHeartbeatConfig({ probeInterval: 0 })).toThrowError(BadHeartbeatConfig);
+      expect(() => makeHeartbeatConfig({ idleThreshold: -1 })).toThrowError(BadHeartbeatConfig);
+      expect(() => makeHeartbeatConfig({ timeout: 0 })).toThrowError(BadHeartbeatConfig);
+    });
+
+    it('should throw if timeout is not greater than idle threshold', () => {
+      expect(() => makeHeartbeatConfig({ idleThreshold: 1000, timeout: 1000 })).toThrowError(BadHeartbeatConfig);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Configures how `RptlProtocolService` checks for its connection to still be alive, all durations are in ms:
+ * - `probeInterval`: Time between each connection check
+ * - `idleThreshold`: If nothing was received since that time at check, server is probed so it will send something
+ * - `timeout`: If nothing was received since that time at check, connection is considered as dead and session is closed
+ * - `pingCommand`: RPTL message sent to probe server into registered mode, if undefined connection isn't checked at all into registered
+ * mode, as an idle server couldn't be told apart from a dead one
+ *
+ * Into unregistered mode, server is probed with `CHECKOUT` command.
+ */
+export type HeartbeatConfig = {
+  probeInterval: number,
+  idleThreshold: number,
+  timeout: number,
+  pingCommand?: string
+};
+
+
+/**
+ * Config used for every `HeartbeatConfig` field which isn't provided to `RptlProtocolService:enableHeartbeat()`.
+ */
+export const DEFAULT_HEARTBEAT_CONFIG: HeartbeatConfig = {
+  probeInterval: 5000,
+  idleThreshold: 15000,
+  timeout: 30000
+};
+
+
+/**
+ * WebSocket close code used by client when it closes a session because server stopped sending anything.
+ */
+export const HEARTBEAT_TIMEOUT_CODE = 4000;
+
+
+/**
+ * Thrown if a heartbeat config has unusable values.
+ */
+export class BadHeartbeatConfig extends Error {
+  /**
+   * @param reason Message explaining which config field is invalid
+   */
+  constructor(reason: string) {
+    super(`Bad heartbeat config: ${reason}`);
+  }
+}
+
+
+/**
+ * Merges given config fields with default config, checking for each value to be valid.
+ *
+ * @param config Fields overriding default config
+ *
+ * @returns Complete heartbeat config
+ *
+ * @throws BadHeartbeatConfig if any duration isn't strictly positive, or if timeout isn't greater than idle threshold
+ */
+export function makeHeartbeatConfig(config: Partial<HeartbeatConfig> = {}): HeartbeatConfig {
+  const completeConfig: HeartbeatConfig = { ...DEFAULT_HEARTBEAT_CONFIG, ...config };
+
+  if (completeConfig.probeInterval <= 0 || completeConfig.idleThreshold <= 0 || completeConfig.timeout <= 0) {
+    throw new BadHeartbeatConfig('Durations must be strictly positive');
+  }
+
+  if (completeConfig.timeout <= completeConfig.idleThreshold) { // Otherwise, server would never be probed before timeout
+    throw new BadHeartbeatConfig('Timeout must be greater than idle threshold');
+  }
+
+  return completeConfig;
+}
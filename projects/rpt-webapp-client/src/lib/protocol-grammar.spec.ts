@@ -0,0 +1,131 @@
+import { BadCommand, BadCommandDeclaration, CommandDiagnostic, CommandGrammar, ProtocolGrammar } from './protocol-grammar';
+import { CommandParser } from './command-parser';
+import { CommandMode } from './rptl-command-registry';
+import { toInteger, toUid } from './argument-converters';
+import { RPTL_GRAMMAR } from './rptl-grammar';
+
+
+describe('ProtocolGrammar', () => {
+  const loggedIn = new CommandGrammar('LOGGED_IN', CommandMode.REGISTERED, [
+    { name: 'uid', type: toUid() }, { name: 'name', type: String }
+  ]);
+  const registration = new CommandGrammar('REGISTRATION', CommandMode.UNREGISTERED, [
+    { name: 'actors', repeat: [{ name: 'uid', type: toUid() }, { name: 'name', type: String }] }
+  ]);
+  const grammar = new ProtocolGrammar('RPTL', [loggedIn, registration]);
+
+  /**
+   * @param message Message expected to be ill-formed
+   *
+   * @returns Diagnostic for given message
+   */
+  function diagnose(message: string): CommandDiagnostic {
+    try {
+      grammar.parse(message);
+    } catch (err) {
+      expect(err).toBeInstanceOf(BadCommand);
+      return (err as BadCommand).diagnostic;
+    }
+
+    throw new Error(`${message} expected to be ill-formed`);
+  }
+
+  describe('CommandGrammar', () => {
+    it('should parse arguments following already parsed command name', () => {
+      const parsedCommand: CommandParser<{ command: string }> =
+        new CommandParser('LOGGED_IN 42 ThisALV').parseTo([{ name: 'command', type: String }]);
+
+      expect(loggedIn.parseArguments(parsedCommand, 'LOGGED_IN 42 ThisALV').parsedData)
+        .toEqual({ command: 'LOGGED_IN', uid: 42, name: 'ThisALV' });
+    });
+
+    it('should throw diagnostic located inside whole message', () => {
+      const message = '  LOGGED_IN   abc ThisALV';
+      const parsedCommand: CommandParser = new CommandParser(message).parseTo([{ name: 'command', type: String }]);
+
+      try {
+        loggedIn.parseArguments(parsedCommand, message);
+        fail('BadCommand expected');
+      } catch (err) {
+        expect(err).toEqual(new BadCommand(new CommandDiagnostic(
+          message, 14, 'LOGGED_IN', 'Bad value "abc" for argument uid: Expected an unsigned integer UID', 'uid'
+        )));
+        expect((err as BadCommand).message).toEqual('LOGGED_IN at 14: Bad value "abc" for argument uid: Expected an unsigned integer UID');
+      }
+    });
+  });
+
+  it('should parse command name and declared arguments', () => {
+    const { grammar: parsedGrammar, parsedCommand } = grammar.parse('REGISTRATION 42 ThisALV 0 Redox');
+
+    expect(parsedGrammar).toBe(registration);
+    expect(parsedCommand.parsedData).toEqual({
+      command: 'REGISTRATION', actors: [{ uid: 42, name: 'ThisALV' }, { uid: 0, name: 'Redox' }]
+    });
+  });
+
+  it('should locate missing argument at message end', () => {
+    const diagnostic: CommandDiagnostic = diagnose('LOGGED_IN 42');
+
+    expect(diagnostic.offset).toEqual(12);
+    expect(diagnostic.command).toEqual('LOGGED_IN');
+    expect(diagnostic.expectedArgument).toEqual('name');
+    expect(diagnostic.pointer()).toEqual('LOGGED_IN 42\n            ^');
+  });
+
+  it('should locate ill-formed argument inside repeated group', () => {
+    const diagnostic: CommandDiagnostic = diagnose('REGISTRATION 42 ThisALV Redox 0');
+
+    expect(diagnostic.offset).toEqual(24);
+    expect(diagnostic.expectedArgument).toEqual('actors[1].uid');
+  });
+
+  it('should locate ill-formed quoted argument', () => {
+    const diagnostic: CommandDiagnostic = diagnose('REGISTRATION 42 "This ALV" 0 "Red\\ox"');
+
+    expect(diagnostic.offset).toEqual(33); // Unknown escape sequence
+    expect(diagnostic.expectedArgument).toBeUndefined();
+  });
+
+  it('should throw diagnostic for empty message or unknown command', () => {
+    expect(diagnose('')).toEqual(
+      new CommandDiagnostic('', 0, undefined, 'Not enough arguments to parse: expected 1, got 0, missing command', 'command')
+    );
+    expect(diagnose('  PING')).toEqual(new CommandDiagnostic('  PING', 2, undefined, 'Unknown RPTL command PING', 'command'));
+  });
+
+  it('should throw if a command is declared twice', () => {
+    expect(() => new ProtocolGrammar('RPTL', [loggedIn, loggedIn])).toThrowError(BadCommandDeclaration);
+  });
+
+  it('should describe every command and argument', () => {
+    const optionals = new CommandGrammar('STATUS', CommandMode.BOTH, [
+      { name: 'count', type: toInteger(0, 10), optional: true, default: 0 }, { name: 'message', rest: true }
+    ], 'Status with optional count');
+
+    expect(new ProtocolGrammar('TEST', [optionals, registration]).describe()).toEqual({
+      protocol: 'TEST',
+      commands: [
+        {
+          name: 'STATUS', mode: 'BOTH', summary: 'Status with optional count', arguments: [
+            { name: 'count', kind: 'optional', type: 'integer[0..10]', default: 0 }, { name: 'message', kind: 'rest' }
+          ]
+        },
+        {
+          name: 'REGISTRATION', mode: 'UNREGISTERED', arguments: [
+            {
+              name: 'actors', kind: 'repeat', repeat: [
+                { name: 'uid', kind: 'required', type: 'uid' }, { name: 'name', kind: 'required', type: 'String' }
+              ]
+            }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('should describe every RPTL command handled by client', () => {
+    expect(RPTL_GRAMMAR.describe().commands.map((command: { name: string }) => command.name))
+      .toEqual(['INTERRUPT', 'SERVICE', 'LOGGED_IN', 'LOGGED_OUT', 'AVAILABILITY', 'REGISTRATION']);
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  ArgumentConverter,
+  ArgumentScheme,
+  BadArgumentValue,
+  CommandParser,
+  MissingArgument,
+  ParsedArguments,
+  ParsingError
+} from './command-parser';
+import { CommandMode } from './rptl-command-registry';
+
+
+/**
+ * Where and why a message couldn't be parsed using a protocol grammar.
+ */
+export class CommandDiagnostic {
+  /**
+   * @param message Whole parsed message
+   * @param offset Index of message char where parsing failed
+   * @param command Name of parsed command, if it could be parsed
+   * @param reason Why parsing failed
+   * @param expectedArgument Name of argument which was expected at `offset`, if parsing failed for a specific argument
+   */
+  constructor(readonly message: string,
+              readonly offset: number,
+              readonly command: string | undefined,
+              readonly reason: string,
+              readonly expectedArgument?: string) {}
+
+  /**
+   * @returns Message on a first line, and a caret under failing char on a second line
+   */
+  pointer(): string {
+    return `${this.message}\n${' '.repeat(this.offset)}^`;
+  }
+}
+
+
+/**
+ * Thrown by `CommandGrammar` or `ProtocolGrammar` when parsing a message which doesn't match grammar.
+ */
+export class BadCommand extends ParsingError {
+  /**
+   * @param diagnostic Where and why message couldn't be parsed
+   */
+  constructor(readonly diagnostic: CommandDiagnostic) {
+    super(`${diagnostic.command ?? 'Command'} at ${diagnostic.offset}: ${diagnostic.reason}`, diagnostic.offset);
+  }
+}
+
+
+/**
+ * Thrown by `ProtocolGrammar` constructor if commands declarations are inconsistent.
+ */
+export class BadCommandDeclaration extends Error {
+  /**
+   * @param reason Why declarations are inconsistent
+   */
+  constructor(reason: string) {
+    super(reason);
+  }
+}
+
+
+/**
+ * Machine-readable description for a command argument:
+ * - `kind` is `required`, `optional`, `rest` or `repeat`
+ * - `type` is converter type name for required and optional arguments
+ * - `default` is default value for optional arguments, if any
+ * - `repeat` describes each argument of a repeated group
+ */
+export type ArgumentDescription = {
+  name: string, kind: 'required' | 'optional' | 'rest' | 'repeat', type?: string, default?: unknown, repeat?: ArgumentDescription[]
+};
+
+
+/**
+ * Machine-readable description for a command, mode being `CommandMode` value name.
+ */
+export type CommandDescription = { name: string, mode: string, summary?: string, arguments: ArgumentDescription[] };
+
+
+/**
+ * Machine-readable description for a whole protocol.
+ */
+export type GrammarDescription = { protocol: string, commands: CommandDescription[] };
+
+
+/**
+ * @param converter Converter to describe
+ *
+ * @returns Converter type name if it is a `NamedConverter`, function name otherwise, e.g. `String` or `Number`
+ */
+function typeNameOf(converter: ArgumentConverter): string {
+  return (converter as { typeName?: string }).typeName ?? (converter.name || 'unknown');
+}
+
+
+/**
+ * @param argument Argument scheme to describe
+ *
+ * @returns Machine-readable description for given scheme
+ */
+function describeArgument(argument: ArgumentScheme): ArgumentDescription {
+  if ('rest' in argument) {
+    return { name: argument.name, kind: 'rest' };
+  } else if ('repeat' in argument) {
+    return { name: argument.name, kind: 'repeat', repeat: argument.repeat.map(describeArgument) };
+  } else if (argument.optional) {
+    const description: ArgumentDescription = { name: argument.name, kind: 'optional', type: typeNameOf(argument.type) };
+    if (argument.default !== undefined) { // Default is described only if there is one
+      description.default = argument.default;
+    }
+
+    return description;
+  } else {
+    return { name: argument.name, kind: 'required', type: typeNameOf(argument.type) };
+  }
+}
+
+
+/**
+ * Declares a protocol command once: its name, RPTL mode it is available into and its arguments schemes. Declaration is used to parse
+ * command arguments with located diagnostics, and to describe command for documentation or tests generation.
+ *
+ * @example `new CommandGrammar('LOGGED_OUT', CommandMode.REGISTERED, [{ name: 'uid', type: toUid() }])`
+ */
+export class CommandGrammar<N extends string = string, S extends ArgumentScheme<N>[] = ArgumentScheme<N>[]> {
+  /**
+   * @param name Command name, first word of message
+   * @param mode RPTL mode command is available into
+   * @param schemes Arguments schemes, following command name
+   * @param summary Short documentation for command, if any
+   */
+  constructor(readonly name: string, readonly mode: CommandMode, readonly schemes: [...S], readonly summary?: string) {}
+
+  /**
+   * Parses arguments for this command, its name having already been parsed.
+   *
+   * @param parsedCommand Parser with command name already parsed, `unparsed` is the command arguments
+   * @param message Whole parsed message, used to locate diagnostics
+   *
+   * @returns A new `CommandParser` with parsed arguments
+   *
+   * @throws BadCommand if arguments don't match this command schemes
+   */
+  parseArguments<D>(parsedCommand: CommandParser<D>, message: string): CommandParser<D & ParsedArguments<S>> {
+    // Arguments begin where unparsed part of message begins
+    const argumentsOffset: number = message.length - parsedCommand.unparsed.length;
+
+    try {
+      return parsedCommand.parseTo(this.schemes);
+    } catch (err) {
+      if (!(err instanceof ParsingError) || err.offset === undefined) { // Not caused by parsed message, but by schemes or converters
+        throw err;
+      }
+
+      // Only value and missing argument errors are caused by a specific argument
+      const expectedArgument: string | undefined =
+        err instanceof BadArgumentValue || err instanceof MissingArgument ? err.argumentName : undefined;
+
+      throw new BadCommand(new CommandDiagnostic(message, argumentsOffset + err.offset, this.name, err.message, expectedArgument));
+    }
+  }
+
+  /**
+   * @returns Machine-readable description for this command
+   */
+  describe(): CommandDescription {
+    const description: CommandDescription = {
+      name: this.name, mode: CommandMode[this.mode], arguments: (this.schemes as ArgumentScheme[]).map(describeArgument)
+    };
+
+    if (this.summary !== undefined) { // Summary is described only if there is one
+      description.summary = this.summary;
+    }
+
+    return description;
+  }
+}
+
+
+/**
+ * Set of commands received from server for a protocol, commands being looked up using message first word.
+ */
+export class ProtocolGrammar {
+  private readonly commands: Map<string, CommandGrammar>;
+
+  /**
+   * @param protocol Protocol name, e.g. `RPTL` or `SER`
+   * @param commands Commands declarations
+   *
+   * @throws BadCommandDeclaration if at least two commands are declared with the same name
+   */
+  constructor(readonly protocol: string, commands: CommandGrammar[]) {
+    this.commands = new Map<string, CommandGrammar>();
+
+    for (const command of commands) {
+      if (this.commands.has(command.name)) {
+        throw new BadCommandDeclaration(`Command ${command.name} declared twice for ${protocol}`);
+      }
+
+      this.commands.set(command.name, command);
+    }
+  }
+
+  /**
+   * @param command Command name
+   *
+   * @returns Declaration for given command, or `undefined` if protocol has no such command
+   */
+  get(command: string): CommandGrammar | undefined {
+    return this.commands.get(command);
+  }
+
+  /**
+   * Parses both command name and arguments of given message.
+   *
+   * @param message Message to parse
+   *
+   * @returns Declaration for parsed command, and parser with `command` name and declared arguments
+   *
+   * @throws BadCommand if message is empty, if command isn't part of this protocol or if its arguments don't match declaration
+   */
+  parse(message: string): { grammar: CommandGrammar, parsedCommand: CommandParser<{ command: string, [argument: string]: unknown }> } {
+    let parsedName: CommandParser<{ command: string }>;
+    try {
+      parsedName = new CommandParser(message).parseTo([{ name: 'command', type: String }]);
+    } catch (err) { // Command name is a single word, message might be empty or have an ill-formed quoted name
+      throw new BadCommand(new CommandDiagnostic(message, (err as ParsingError).offset ?? 0, undefined, err.message, 'command'));
+    }
+
+    const grammar: CommandGrammar | undefined = this.commands.get(parsedName.parsedData.command);
+    if (grammar === undefined) {
+      const commandOffset: number = message.search(/[^ ]/); // Command name is the first non-separator word
+
+      throw new BadCommand(new CommandDiagnostic(
+        message, commandOffset, undefined, `Unknown ${this.protocol} command ${parsedName.parsedData.command}`, 'command'
+      ));
+    }
+
+    return { grammar, parsedCommand: grammar.parseArguments(parsedName, message) };
+  }
+
+  /**
+   * @returns Machine-readable description for every command of this protocol, in declaration order
+   */
+  describe(): GrammarDescription {
+    return { protocol: this.protocol, commands: [...this.commands.values()].map((command: CommandGrammar) => command.describe()) };
+  }
+}
+
@@ -0,0 +1,55 @@
+import {
+  BadReconnectionPolicy,
+  computeReconnectionDelay,
+  DEFAULT_RECONNECTION_POLICY,
+  makeReconnectionPolicy,
+  ReconnectionPolicy
+} from './reconnection-policy';
+
+
+describe('ReconnectionPolicy', () => {
+  describe('makeReconnectionPolicy()', () => {
+    it('should use default values for missing fields', () => {
+      expect(makeReconnectionPolicy()).toEqual(DEFAULT_RECONNECTION_POLICY);
+      expect(makeReconnectionPolicy({ maxAttempts: 5 })).toEqual({ ...DEFAULT_RECONNECTION_POLICY, maxAttempts: 5 });
+    });
+
+    it('should throw if any value is unusable', () => {
+      expect(() => makeReconnectionPolicy({ initialDelay: -1 })).toThrowError(BadReconnectionPolicy);
+      expect(() => makeReconnectionPolicy({ maxDelay: -1 })).toThrowError(BadReconnectionPolicy);
+      expect(() => makeReconnectionPolicy({ multiplier: 0.5 })).toThrowError(BadReconnectionPolicy);
+      expect(() => makeReconnectionPolicy({ jitter: 1.5 })).toThrowError(BadReconnectionPolicy);
+      expect(() => makeReconnectionPolicy({ maxAttempts: 0 })).toThrowError(BadReconnectionPolicy);
+    });
+  });
+
+  describe('computeReconnectionDelay()', () => {
+    // Random values are controlled so jitter shift can be checked for
+    let randomValue: number;
+    let policy: ReconnectionPolicy;
+
+    beforeEach(() => {
+      randomValue = 0.5; // No shift at all
+      policy = makeReconnectionPolicy({ initialDelay: 100, multiplier: 3, maxDelay: 1000, jitter: 0.5, random: () => randomValue });
+    });
+
+    it('should grow exponentially with attempts', () => {
+      expect(computeReconnectionDelay(policy, 1)).toEqual(100);
+      expect(computeReconnectionDelay(policy, 2)).toEqual(300);
+      expect(computeReconnectionDelay(policy, 3)).toEqual(900);
+    });
+
+    it('should be bounded by max delay', () => {
+      expect(computeReconnectionDelay(policy, 4)).toEqual(1000);
+      expect(computeReconnectionDelay(policy, 50)).toEqual(1000);
+    });
+
+    it('should be shifted by jitter in both directions', () => {
+      randomValue = 0; // Max negative shift
+      expect(computeReconnectionDelay(policy, 2)).toEqual(150);
+
+      randomValue = 0.75; // Half of max positive shift
+      expect(computeReconnectionDelay(policy, 2)).toEqual(375);
+    });
+  });
+});
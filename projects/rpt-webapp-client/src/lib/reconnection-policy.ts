@@ -0,0 +1,110 @@
+import { Subject } from 'rxjs';
+
+
+/**
+ * Opens a new connection each time it is called, used by `RptlProtocolService` to reopen a transport after it has dropped.
+ */
+export type ConnectionFactory = () => Subject<string>;
+
+
+/**
+ * Configures how and how many times `RptlProtocolService` will try to reconnect after its transport dropped.
+ *
+ * Delay (in ms) before nth attempt is `initialDelay * multiplier ^ (n - 1)`, bounded by `maxDelay`, then randomly shifted by up to
+ * `jitter` (ratio between 0 and 1) of that delay in both directions.
+ */
+export type ReconnectionPolicy = {
+  initialDelay: number,
+  multiplier: number,
+  maxDelay: number,
+  jitter: number,
+  maxAttempts: number,
+  random: () => number
+};
+
+
+/**
+ * Policy used for every `ReconnectionPolicy` field which isn't provided to `RptlProtocolService:enableReconnection()`.
+ */
+export const DEFAULT_RECONNECTION_POLICY: ReconnectionPolicy = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 30000,
+  jitter: 0.2,
+  maxAttempts: Infinity,
+  random: Math.random
+};
+
+
+/**
+ * Data about a reconnection attempt which has just been scheduled.
+ */
+export class ReconnectionAttempt {
+  /**
+   * @param attempt Number of this attempt since last transport drop, beginning at 1
+   * @param delay Time in ms to wait before trying to open a new connection
+   */
+  constructor(readonly attempt: number, readonly delay: number) {}
+}
+
+
+/**
+ * Thrown if a reconnection policy has unusable values.
+ */
+export class BadReconnectionPolicy extends Error {
+  /**
+   * @param reason Message explaining which policy field is invalid
+   */
+  constructor(reason: string) {
+    super(`Bad reconnection policy: ${reason}`);
+  }
+}
+
+
+/**
+ * Merges given policy fields with default policy, checking for each value to be valid.
+ *
+ * @param policy Fields overriding default policy
+ *
+ * @returns Complete reconnection policy
+ *
+ * @throws BadReconnectionPolicy if a delay is negative, if multiplier is lower than 1, if jitter isn't inside [0;1] or if max attempts
+ * isn't at least 1
+ */
+export function makeReconnectionPolicy(policy: Partial<ReconnectionPolicy> = {}): ReconnectionPolicy {
+  const completePolicy: ReconnectionPolicy = { ...DEFAULT_RECONNECTION_POLICY, ...policy };
+
+  if (completePolicy.initialDelay < 0 || completePolicy.maxDelay < 0) {
+    throw new BadReconnectionPolicy('Delays must be positive');
+  }
+
+  if (completePolicy.multiplier < 1) {
+    throw new BadReconnectionPolicy('Multiplier must be at least 1');
+  }
+
+  if (completePolicy.jitter < 0 || completePolicy.jitter > 1) {
+    throw new BadReconnectionPolicy('Jitter must be between 0 and 1');
+  }
+
+  if (completePolicy.maxAttempts < 1) {
+    throw new BadReconnectionPolicy('At least 1 attempt must be allowed');
+  }
+
+  return completePolicy;
+}
+
+
+/**
+ * @param policy Policy to compute delay with
+ * @param attempt Attempt number, beginning at 1
+ *
+ * @returns Time in ms to wait before given reconnection attempt
+ */
+export function computeReconnectionDelay(policy: ReconnectionPolicy, attempt: number): number {
+  // Exponential backoff, bounded so it will not grow forever
+  const baseDelay: number = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.multiplier, attempt - 1));
+  // random() is inside [0;1[, so shift is inside [-jitter;+jitter[ of base delay
+  const shift: number = baseDelay * policy.jitter * (2 * policy.random() - 1);
+
+  return Math.max(0, Math.round(baseDelay + shift));
+}
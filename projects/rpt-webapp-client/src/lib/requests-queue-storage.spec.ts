@@ -0,0 +1,294 @@
+import {
+  DatabaseBlocked,
+  IndexedDbRequestsQueueStorage,
+  InMemoryWebStorage,
+  MemoryRequestsQueueStorage,
+  StoredRequest,
+  WebStorageRequestsQueueStorage
+} from './requests-queue-storage';
+import { fakeAsync, flushMicrotasks } from '@angular/core/testing';
+
+
+/**
+ * Mocking for an IndexedDB request, with every callback a request might call, result and error being set before callback is called.
+ */
+class FakeRequest {
+  result: any;
+  error: DOMException | null = null;
+  onsuccess: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onupgradeneeded: (() => void) | null = null;
+  onblocked: (() => void) | null = null;
+}
+
+
+/**
+ * Mocking for an IndexedDB transaction, performing its requests asynchronously in order like a real transaction does. If a failure is
+ * provided, every request fails with it and transaction `onerror` callback is called.
+ */
+class FakeTransaction {
+  error: DOMException | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(private readonly store: Map<string, unknown>, private readonly failure?: DOMException) {}
+
+  objectStore(): object {
+    return {
+      getAllKeys: () => this.perform(() => [...this.store.keys()]),
+      getAll: () => this.perform(() => [...this.store.values()]),
+      put: (value: unknown, key: string) => this.perform(() => this.store.set(key, value)),
+      delete: (key: string) => this.perform(() => this.store.delete(key))
+    };
+  }
+
+  /// Applies given operation once current task is done, or fails request if transaction is failing.
+  private perform(operation: () => unknown): FakeRequest {
+    const request = new FakeRequest();
+
+    Promise.resolve().then(() => {
+      if (this.failure === undefined) {
+        request.result = operation();
+        request.onsuccess?.();
+      } else {
+        request.error = this.error = this.failure;
+        request.onerror?.();
+        this.onerror?.();
+      }
+    });
+
+    return request;
+  }
+}
+
+
+/**
+ * Mocking for an opened IndexedDB database, keeping object stores contents in memory.
+ */
+class FakeDatabase {
+  /**
+   * Contents of each object store, by name.
+   */
+  readonly stores: Map<string, Map<string, unknown>> = new Map<string, Map<string, unknown>>();
+
+  /**
+   * Checks if close() has been called.
+   */
+  closed = false;
+
+  /**
+   * If defined, every transaction created from now fails with this error.
+   */
+  failure?: DOMException;
+
+  createObjectStore(name: string): void {
+    this.stores.set(name, new Map<string, unknown>());
+  }
+
+  transaction(storeName: string): FakeTransaction {
+    return new FakeTransaction(this.stores.get(storeName) as Map<string, unknown>, this.failure);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+
+/**
+ * Mocking for `IDBFactory` opening in-memory databases asynchronously. Opening can be blocked, as if an older version of the database
+ * was still opened elsewhere, until `unblock()` is called.
+ */
+class FakeIndexedDb {
+  /**
+   * Databases created so far, by name.
+   */
+  readonly databases: Map<string, FakeDatabase> = new Map<string, FakeDatabase>();
+
+  /**
+   * If `true`, opening requests are blocked.
+   */
+  blocked = false;
+
+  // Opening requests waiting for unblock() to be called
+  private readonly blockedOpenings: (() => void)[] = [];
+
+  open(name: string): FakeRequest {
+    const request = new FakeRequest();
+
+    Promise.resolve().then(() => {
+      if (this.blocked) {
+        this.blockedOpenings.push(() => this.openNow(name, request));
+        request.onblocked?.();
+      } else {
+        this.openNow(name, request);
+      }
+    });
+
+    return request;
+  }
+
+  /**
+   * Lets every blocked opening request go on.
+   */
+  unblock(): void {
+    this.blocked = false;
+    this.blockedOpenings.splice(0).forEach((opening: () => void) => opening());
+    flushMicrotasks();
+  }
+
+  /// Creates database if it doesn't exist yet, then succeeds given opening request.
+  private openNow(name: string, request: FakeRequest): void {
+    let database: FakeDatabase | undefined = this.databases.get(name);
+
+    if (database === undefined) {
+      database = new FakeDatabase();
+      this.databases.set(name, database);
+
+      request.result = database;
+      request.onupgradeneeded?.();
+    }
+
+    request.result = database;
+    request.onsuccess?.();
+  }
+}
+
+
+describe('MemoryRequestsQueueStorage', () => {
+  it('should load saved requests by service, or an empty queue', () => {
+    const storage = new MemoryRequestsQueueStorage();
+    const requests: StoredRequest[] = [
+      { serviceName: 'A', request: 'REQUEST', timeout: Infinity, queuedAt: 0, expiresAt: Infinity }
+    ];
+
+    storage.save('A', requests);
+
+    expect(storage.load('A')).toEqual(requests);
+    expect(storage.load('B')).toEqual([]);
+  });
+});
+
+
+describe('WebStorageRequestsQueueStorage', () => {
+  let webStorage: InMemoryWebStorage; // Stand-in for localStorage
+  let storage: WebStorageRequestsQueueStorage;
+
+  beforeEach(() => {
+    webStorage = new InMemoryWebStorage();
+    storage = new WebStorageRequestsQueueStorage(webStorage, 'queue:');
+  });
+
+  it('should save requests as a JSON item for each service, keeping infinite values', () => {
+    const requests: StoredRequest[] = [
+      { serviceName: 'A', request: 'SET x 1', timeout: Infinity, queuedAt: 0, expiresAt: Infinity, coalescingKey: 'x' },
+      { serviceName: 'A', request: 'Infinity', timeout: 1000, queuedAt: 10, expiresAt: 5010 }
+    ];
+
+    storage.save('A', requests);
+
+    expect(webStorage.getItem('queue:A')).not.toBeNull();
+    // A new storage instance simulates a page reload
+    expect(new WebStorageRequestsQueueStorage(webStorage, 'queue:').load('A')).toEqual(requests);
+  });
+
+  it('should remove item when queue is empty', () => {
+    storage.save('A', [{ serviceName: 'A', request: 'REQUEST', timeout: 1000, queuedAt: 0, expiresAt: Infinity }]);
+    storage.save('A', []);
+
+    expect(webStorage.getItem('queue:A')).toBeNull();
+    expect(storage.load('A')).toEqual([]);
+  });
+
+  it('should load an empty queue if item is not valid JSON', () => {
+    webStorage.setItem('queue:A', '[{');
+
+    expect(storage.load('A')).toEqual([]);
+  });
+});
+
+
+describe('IndexedDbRequestsQueueStorage', () => {
+  const requests: StoredRequest[] = [
+    { serviceName: 'A', request: 'SET x 1', timeout: Infinity, queuedAt: 0, expiresAt: Infinity, coalescingKey: 'x' },
+    { serviceName: 'A', request: 'a random command', timeout: 1000, queuedAt: 10, expiresAt: 5010 }
+  ];
+
+  let fakeIndexedDb: FakeIndexedDb; // Stand-in for indexedDB
+
+  /**
+   * Opens storage from tests IndexedDB, waiting for promise to be settled. Must be called inside fake async zone.
+   *
+   * @returns Opened storage, or error promise was rejected with
+   */
+  function openStorage(): IndexedDbRequestsQueueStorage | Error {
+    let result: IndexedDbRequestsQueueStorage | Error | undefined;
+    IndexedDbRequestsQueueStorage.open('test', fakeIndexedDb as unknown as IDBFactory).then(
+      (storage: IndexedDbRequestsQueueStorage) => result = storage,
+      (err: Error) => result = err
+    );
+
+    flushMicrotasks();
+    expect(result).toBeDefined();
+
+    return result as IndexedDbRequestsQueueStorage | Error;
+  }
+
+  beforeEach(() => fakeIndexedDb = new FakeIndexedDb());
+
+  it('should create object store then restore saved requests when opened again', fakeAsync(() => {
+    const storage = openStorage() as IndexedDbRequestsQueueStorage;
+    expect(fakeIndexedDb.databases.get('test')?.stores.has(IndexedDbRequestsQueueStorage.OBJECT_STORE)).toBeTrue();
+
+    storage.save('A', requests);
+    expect(storage.load('A')).toEqual(requests); // Available before being written
+
+    flushMicrotasks(); // Background write
+    const reopenedStorage = openStorage() as IndexedDbRequestsQueueStorage; // Simulates a page reload
+
+    expect(reopenedStorage.load('A')).toEqual(requests);
+    expect(reopenedStorage.load('B')).toEqual([]);
+  }));
+
+  it('should delete saved requests when queue is empty', fakeAsync(() => {
+    const storage = openStorage() as IndexedDbRequestsQueueStorage;
+    storage.save('A', requests);
+    storage.save('A', []);
+    flushMicrotasks();
+
+    expect(storage.load('A')).toEqual([]);
+    expect(fakeIndexedDb.databases.get('test')?.stores.get(IndexedDbRequestsQueueStorage.OBJECT_STORE)?.size).toEqual(0);
+  }));
+
+  it('should reject if opening is blocked, closing database once it is opened', fakeAsync(() => {
+    fakeIndexedDb.blocked = true;
+
+    expect(openStorage()).toEqual(new DatabaseBlocked('test'));
+
+    fakeIndexedDb.unblock();
+    expect(fakeIndexedDb.databases.get('test')?.closed).toBeTrue(); // Nobody would ever use it
+  }));
+
+  it('should reject and close database if saved requests cannot be read', fakeAsync(() => {
+    openStorage();
+    const database = fakeIndexedDb.databases.get('test') as FakeDatabase;
+    const failure = new DOMException('Read failed', 'UnknownError');
+    database.failure = failure;
+
+    expect(openStorage()).toBe(failure);
+    expect(database.closed).toBeTrue();
+  }));
+
+  it('should report failed writes, keeping requests in memory', fakeAsync(() => {
+    const storage = openStorage() as IndexedDbRequestsQueueStorage;
+    const writeErrors: (DOMException | null)[] = [];
+    storage.getWriteErrors().subscribe((err: DOMException | null) => writeErrors.push(err));
+
+    const failure = new DOMException('Write failed', 'QuotaExceededError');
+    (fakeIndexedDb.databases.get('test') as FakeDatabase).failure = failure;
+    storage.save('A', requests);
+    flushMicrotasks();
+
+    expect(writeErrors).toEqual([failure]);
+    expect(storage.load('A')).toEqual(requests);
+  }));
+});
@@ -0,0 +1,259 @@
+import { Observable, Subject } from 'rxjs';
+
+
+/**
+ * Service Request queued while SER protocol was unbound, as it is saved into a `RequestsQueueStorage`:
+ * - `serviceName`: Service the request will be sent to
+ * - `request`: SR command, without UID and service name
+ * - `timeout`: Time in ms to wait for SRR once SR is sent, `Infinity` to wait indefinitely
+ * - `queuedAt`: Scheduler time at which request was queued
+ * - `expiresAt`: Scheduler time after which request is dropped if it is still queued, `Infinity` if it never expires
+ * - `coalescingKey`: If defined, a newer queued request with the same key replaces this one
+ */
+export type StoredRequest = {
+  serviceName: string,
+  request: string,
+  timeout: number,
+  queuedAt: number,
+  expiresAt: number,
+  coalescingKey?: string
+};
+
+
+/**
+ * Saves Service Requests queued by each service, so they might survive a page reload depending on implementation. Requests of a service
+ * which is unregistered are dropped, so they're removed from storage too.
+ *
+ * Reads and writes are synchronous so queue is always consistent with its storage, asynchronous implementations must keep a copy of
+ * saved requests in memory.
+ */
+export interface RequestsQueueStorage {
+  /**
+   * @param serviceName Service to retrieve queued requests for
+   *
+   * @returns Saved requests for that service, in queuing order, empty if there are none
+   */
+  load(serviceName: string): StoredRequest[];
+
+  /**
+   * @param serviceName Service to save queued requests for
+   * @param requests Current queued requests for that service, in queuing order, replacing previously saved ones
+   */
+  save(serviceName: string, requests: StoredRequest[]): void;
+}
+
+
+/**
+ * Keeps queued requests in memory only, so they're lost with page. Default storage.
+ */
+export class MemoryRequestsQueueStorage implements RequestsQueueStorage {
+  // Saved requests for each service
+  private readonly requests: Map<string, StoredRequest[]>;
+
+  constructor() {
+    this.requests = new Map<string, StoredRequest[]>();
+  }
+
+  load(serviceName: string): StoredRequest[] {
+    return [...(this.requests.get(serviceName) ?? [])];
+  }
+
+  save(serviceName: string, requests: StoredRequest[]): void {
+    if (requests.length === 0) { // Forgets about services without any queued request
+      this.requests.delete(serviceName);
+    } else {
+      this.requests.set(serviceName, [...requests]);
+    }
+  }
+}
+
+
+/**
+ * Part of Web Storage API used by `WebStorageRequestsQueueStorage`, implemented by `localStorage` and `sessionStorage`.
+ */
+export type WebStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+
+/**
+ * Stand-in for `localStorage` keeping items in memory, for environments without Web Storage API like unit tests.
+ */
+export class InMemoryWebStorage implements WebStorageLike {
+  // Stored string items, by key
+  private readonly items: Map<string, string>;
+
+  constructor() {
+    this.items = new Map<string, string>();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+
+// StoredRequest numeric fields which might be infinite, as JSON has no representation for infinity
+const INFINITE_FIELDS: string[] = ['timeout', 'expiresAt'];
+
+
+/**
+ * Saves queued requests as a JSON item for each service inside given Web Storage, so they survive a page reload with `localStorage`.
+ */
+export class WebStorageRequestsQueueStorage implements RequestsQueueStorage {
+  /**
+   * @param storage Web Storage to save items into
+   * @param keyPrefix Prefix for each service item key, followed by service name
+   */
+  constructor(private readonly storage: WebStorageLike = localStorage, private readonly keyPrefix: string = 'rpt-queued-requests:') {}
+
+  /**
+   * @param serviceName Service to retrieve queued requests for
+   *
+   * @returns Saved requests for that service, in queuing order, empty if there are none or if saved item isn't valid JSON
+   */
+  load(serviceName: string): StoredRequest[] {
+    const item: string | null = this.storage.getItem(this.keyPrefix + serviceName);
+    if (item === null) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(item, (field: string, value: unknown) =>
+        INFINITE_FIELDS.includes(field) && value === null ? Infinity : value);
+    } catch (err) { // Item was modified outside this storage, there is nothing to recover
+      return [];
+    }
+  }
+
+  save(serviceName: string, requests: StoredRequest[]): void {
+    if (requests.length === 0) { // Doesn't leave empty items inside storage
+      this.storage.removeItem(this.keyPrefix + serviceName);
+    } else { // Infinity is serialized as null
+      this.storage.setItem(this.keyPrefix + serviceName, JSON.stringify(requests));
+    }
+  }
+}
+
+
+/**
+ * Rejects `IndexedDbRequestsQueueStorage.open()` promise when database can't be opened because an older version of it is still opened
+ * elsewhere, e.g. by another tab.
+ */
+export class DatabaseBlocked extends Error {
+  /**
+   * @param databaseName Name of database which couldn't be opened
+   */
+  constructor(readonly databaseName: string) {
+    super(`IndexedDB database ${databaseName} is blocked by another connection`);
+  }
+}
+
+
+/**
+ * Saves queued requests into an IndexedDB object store, keyed by service name, so they survive a page reload.
+ *
+ * As IndexedDB is asynchronous, saved requests are loaded once when storage is opened then kept in memory, and writes are performed in
+ * background with errors reported by `getWriteErrors()`.
+ */
+export class IndexedDbRequestsQueueStorage implements RequestsQueueStorage {
+  /**
+   * Name of object store saved requests are kept in.
+   */
+  static readonly OBJECT_STORE: string = 'queued-requests';
+
+  // Reports every failed background write
+  private readonly writeErrors: Subject<DOMException | null>;
+
+  /// Use `open()` which loads saved requests first.
+  private constructor(private readonly database: IDBDatabase, private readonly requests: Map<string, StoredRequest[]>) {
+    this.writeErrors = new Subject<DOMException | null>();
+  }
+
+  /**
+   * Opens given database, creating object store if necessary, and loads every saved request.
+   *
+   * @param databaseName Name of IndexedDB database to open
+   * @param factory IndexedDB implementation to open database with
+   *
+   * @returns Promise resolved with storage once saved requests are loaded, rejected with `DatabaseBlocked` if another connection prevents
+   * database from being opened, or with IndexedDB error if database couldn't be opened or read
+   */
+  static open(databaseName: string = 'rpt-webapp-client',
+              factory: IDBFactory = indexedDB): Promise<IndexedDbRequestsQueueStorage> {
+    return new Promise<IDBDatabase>((resolve: (database: IDBDatabase) => void, reject: (err: Error | null) => void) => {
+      const openRequest: IDBOpenDBRequest = factory.open(databaseName, 1);
+      let blocked = false;
+
+      openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(IndexedDbRequestsQueueStorage.OBJECT_STORE);
+      openRequest.onsuccess = () => {
+        if (blocked) { // Promise was already rejected, connection is no longer expected by anyone
+          openRequest.result.close();
+        } else {
+          resolve(openRequest.result);
+        }
+      };
+      openRequest.onerror = () => reject(openRequest.error);
+      openRequest.onblocked = () => { // Would otherwise wait for other connections to be closed, which might never happen
+        blocked = true;
+        reject(new DatabaseBlocked(databaseName));
+      };
+    }).then((database: IDBDatabase) => new Promise<IndexedDbRequestsQueueStorage>(
+      (resolve: (storage: IndexedDbRequestsQueueStorage) => void, reject: (err: DOMException | null) => void) => {
+        const transaction: IDBTransaction = database.transaction(IndexedDbRequestsQueueStorage.OBJECT_STORE);
+        const objectStore: IDBObjectStore = transaction.objectStore(IndexedDbRequestsQueueStorage.OBJECT_STORE);
+        const keysRequest: IDBRequest<IDBValidKey[]> = objectStore.getAllKeys();
+        const valuesRequest: IDBRequest<StoredRequest[][]> = objectStore.getAll();
+
+        valuesRequest.onsuccess = () => { // Requests inside a transaction succeed in order, keys are already retrieved
+          const requests = new Map<string, StoredRequest[]>();
+          keysRequest.result.forEach((serviceName: IDBValidKey, i: number) => requests.set(serviceName as string, valuesRequest.result[i]));
+
+          resolve(new IndexedDbRequestsQueueStorage(database, requests));
+        };
+        transaction.onerror = () => { // Any failed read request aborts transaction, database will not be used
+          database.close();
+          reject(transaction.error);
+        };
+      }
+    ));
+  }
+
+  load(serviceName: string): StoredRequest[] {
+    return [...(this.requests.get(serviceName) ?? [])];
+  }
+
+  /**
+   * Updates requests kept in memory, then writes them in background.
+   *
+   * @param serviceName Service to save queued requests for
+   * @param requests Current queued requests for that service, in queuing order, replacing previously saved ones
+   */
+  save(serviceName: string, requests: StoredRequest[]): void {
+    const transaction: IDBTransaction = this.database.transaction(IndexedDbRequestsQueueStorage.OBJECT_STORE, 'readwrite');
+    const objectStore: IDBObjectStore = transaction.objectStore(IndexedDbRequestsQueueStorage.OBJECT_STORE);
+
+    if (requests.length === 0) { // Forgets about services without any queued request
+      this.requests.delete(serviceName);
+      objectStore.delete(serviceName);
+    } else {
+      this.requests.set(serviceName, [...requests]);
+      objectStore.put(requests, serviceName);
+    }
+
+    transaction.onerror = () => this.writeErrors.next(transaction.error);
+  }
+
+  /**
+   * @returns Observable emitting error for each background write which failed
+   */
+  getWriteErrors(): Observable<DOMException | null> {
+    return this.writeErrors.asObservable();
+  }
+}
@@ -0,0 +1,113 @@
+import { CapturingLogger, LogEntry, LogLevel, MessageDirection, NoopLogger, redactActorNames, REDACTED, rptlCommandOf } from './rpt-logger';
+
+
+describe('RptLogger', () => {
+  let logger: CapturingLogger;
+
+  beforeEach(() => logger = new CapturingLogger(LogLevel.DEBUG));
+
+  it('should write entries with appropriate level', () => {
+    logger.debug('debug');
+    logger.info('info', { sessionId: 1 });
+    logger.warn('warn');
+    logger.error('error', { error: 'Failure' });
+
+    expect(logger.entries).toEqual([
+      new LogEntry(LogLevel.DEBUG, 'debug'),
+      new LogEntry(LogLevel.INFO, 'info', { sessionId: 1 }),
+      new LogEntry(LogLevel.WARN, 'warn'),
+      new LogEntry(LogLevel.ERROR, 'error', { error: 'Failure' })
+    ]);
+  });
+
+  it('should discard entries below minimum level', () => {
+    logger.trace('trace');
+    expect(logger.entries).toEqual([]);
+
+    logger.level = LogLevel.TRACE;
+    logger.trace('trace');
+    expect(logger.entriesAt(LogLevel.TRACE)).toEqual([new LogEntry(LogLevel.TRACE, 'trace')]);
+  });
+
+  it('should call redactors in order before writing', () => {
+    logger.addRedactor((entry: LogEntry) => new LogEntry(entry.level, `${entry.message} 1`, entry.fields));
+    logger.addRedactor((entry: LogEntry) => new LogEntry(entry.level, `${entry.message} 2`, entry.fields));
+
+    logger.info('Redacted');
+
+    expect(logger.entries).toEqual([new LogEntry(LogLevel.INFO, 'Redacted 1 2')]);
+  });
+
+  it('should forget about captured entries when cleared', () => {
+    logger.info('info');
+    logger.clear();
+
+    expect(logger.entries).toEqual([]);
+  });
+
+  it('should never be enabled for no-op logger', () => {
+    expect(new NoopLogger().isEnabled(LogLevel.ERROR)).toBeFalse();
+  });
+
+  describe('rptlCommandOf()', () => {
+    it('should parse first word of message', () => {
+      expect(rptlCommandOf('  LOGIN 42 ThisALV')).toEqual('LOGIN');
+      expect(rptlCommandOf('CHECKOUT')).toEqual('CHECKOUT');
+    });
+  });
+
+  describe('redactActorNames()', () => {
+    beforeEach(() => logger.addRedactor(redactActorNames()));
+
+    it('should hide actor names for actors commands', () => {
+      logger.debug('Sent', { direction: MessageDirection.SENT, rptlMessage: 'LOGIN 42 ThisALV' });
+      logger.debug('Received', { rptlMessage: 'LOGGED_IN 0 Redox' });
+      logger.debug('Received', { rptlMessage: 'REGISTRATION 42 ThisALV 0 Redox' });
+
+      expect(logger.entries.map((entry: LogEntry) => entry.fields)).toEqual([
+        { direction: MessageDirection.SENT, rptlMessage: `LOGIN 42 ${REDACTED}` },
+        { rptlMessage: `LOGGED_IN 0 ${REDACTED}` },
+        { rptlMessage: `REGISTRATION 42 ${REDACTED} 0 ${REDACTED}` }
+      ]);
+    });
+
+    it('should hide quoted actor names', () => {
+      logger.debug('Received', { rptlMessage: 'REGISTRATION 42 "Jean Luc" 0 Redox' });
+
+      expect(logger.entries[0].fields.rptlMessage).toEqual(`REGISTRATION 42 ${REDACTED} 0 ${REDACTED}`);
+    });
+
+    it('should hide every argument of ill-formed actors commands', () => {
+      logger.debug('Received', { rptlMessage: 'LOGGED_IN 0 "Red ox' });
+
+      expect(logger.entries[0].fields.rptlMessage).toEqual(`LOGGED_IN ${REDACTED}`);
+    });
+
+    it('should hide actor names from entry message and other string fields', () => {
+      logger.error('Message handling failed for ThisALV', {
+        rptlMessage: 'REGISTRATION 42 ThisALV 0 "Jean Luc"', rptlCommand: 'REGISTRATION', sessionId: 1, error: 'Bad value "Jean Luc"'
+      });
+
+      expect(logger.entries).toEqual([new LogEntry(LogLevel.ERROR, `Message handling failed for ${REDACTED}`, {
+        rptlMessage: `REGISTRATION 42 ${REDACTED} 0 ${REDACTED}`, rptlCommand: 'REGISTRATION', sessionId: 1, error: `Bad value "${REDACTED}"`
+      })]);
+    });
+
+    it('should hide error of ill-formed actors commands', () => {
+      logger.error('Message handling failed', { rptlMessage: 'LOGGED_IN 0 "Red ox', rptlCommand: 'LOGGED_IN', error: 'Red ox' });
+
+      expect(logger.entries[0]).toEqual(new LogEntry(LogLevel.ERROR, 'Message handling failed', {
+        rptlMessage: `LOGGED_IN ${REDACTED}`, rptlCommand: 'LOGGED_IN', error: REDACTED
+      }));
+    });
+
+    it('should keep other entries unchanged', () => {
+      logger.debug('Received', { rptlMessage: 'LOGGED_OUT 0' });
+      logger.debug('No message');
+
+      expect(logger.entries).toEqual([
+        new LogEntry(LogLevel.DEBUG, 'Received', { rptlMessage: 'LOGGED_OUT 0' }), new LogEntry(LogLevel.DEBUG, 'No message')
+      ]);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { InjectionToken, isDevMode } from '@angular/core';
+import { CommandParser } from './command-parser';
+import { CommandBuilder } from './command-builder';
+
+
+/**
+ * Severity of a log entry, an `RptLogger` only writes entries at or above its minimum level.
+ */
+export enum LogLevel {
+  TRACE, DEBUG, INFO, WARN, ERROR
+}
+
+
+/**
+ * Values for `LogFields` direction:
+ * - `SENT`: Message sent by client to server
+ * - `RECEIVED`: Message received by client from server
+ */
+export enum MessageDirection {
+  SENT, RECEIVED
+}
+
+
+/**
+ * Structured data about what a log entry is related to, every field being optional:
+ * - `direction`: If entry is about a sent or received message
+ * - `rptlMessage`: Whole RPTL message
+ * - `rptlCommand`: Name of RPTL command invoked by message
+ * - `serService`: Name of SER service message is sent to or received from
+ * - `requestUid`: UID of Service Request message is related to
+ * - `sessionId`: Number of RPTL session, incremented each time a session begins
+ * - `error`: Error message, if entry is about a failure
+ */
+export type LogFields = {
+  direction?: MessageDirection,
+  rptlMessage?: string,
+  rptlCommand?: string,
+  serService?: string,
+  requestUid?: number,
+  sessionId?: number,
+  error?: string
+};
+
+
+/**
+ * Entry provided to an `RptLogger` implementation once redacted.
+ */
+export class LogEntry {
+  /**
+   * @param level Entry severity
+   * @param message Human-readable description of what happened
+   * @param fields Structured data about what happened
+   */
+  constructor(readonly level: LogLevel, readonly message: string, readonly fields: LogFields = {}) {}
+}
+
+
+/**
+ * Returns a copy of given entry with sensitive data hidden, called for each entry before it is written.
+ */
+export type LogRedactor = (entry: LogEntry) => LogEntry;
+
+
+/**
+ * Text replacing redacted data.
+ */
+export const REDACTED = '<redacted>';
+
+
+/**
+ * @param rptlMessage RPTL message to parse command name from
+ *
+ * @returns Name of invoked command, which is the first word of message
+ */
+export function rptlCommandOf(rptlMessage: string): string {
+  return rptlMessage.trim().split(/\s+/)[0];
+}
+
+
+// LogFields which are strings, and might contain an actor name
+const STRING_FIELDS: ('rptlCommand' | 'serService' | 'error')[] = ['rptlCommand', 'serService', 'error'];
+
+
+/**
+ * @returns Redactor hiding actor names inside `rptlMessage` field for `LOGIN`, `LOGGED_IN` and `REGISTRATION` commands, and wherever
+ * these names appear inside entry message or other string fields. If such a command is ill-formed, names can't be known so `error`
+ * field, which might quote them, is entirely hidden.
+ */
+export function redactActorNames(): LogRedactor {
+  return (entry: LogEntry) => {
+    if (entry.fields.rptlMessage === undefined) { // Nothing to hide
+      return entry;
+    }
+
+    const redacted: CommandBuilder = new CommandBuilder(rptlCommandOf(entry.fields.rptlMessage));
+    // Hides names from a string field, undefined if names are unknown
+    let hideNames: ((text: string) => string) | undefined;
+
+    try {
+      const parsedCommand: CommandParser<{ command: string }> =
+        new CommandParser(entry.fields.rptlMessage).parseTo([{ name: 'command', type: String }]);
+
+      switch (parsedCommand.parsedData.command) {
+        case 'LOGIN':
+        case 'LOGGED_IN':
+        case 'REGISTRATION': // Arguments are UID and name pairs, each name is hidden
+          const parsedActors: CommandParser<{ actors: { uid: string, name: string }[] }> =
+            parsedCommand.parseTo([{ name: 'actors', repeat: [{ name: 'uid', type: String }, { name: 'name', type: String }] }]);
+
+          for (const actor of parsedActors.parsedData.actors) {
+            redacted.add(actor.uid).add(REDACTED);
+          }
+
+          const names: string[] = parsedActors.parsedData.actors.map((actor: { name: string }) => actor.name)
+            .filter((name: string) => name.length !== 0);
+          hideNames = (text: string) => names.reduce((hidden: string, name: string) => hidden.split(name).join(REDACTED), text);
+
+          break;
+        default:
+          return entry;
+      }
+    } catch (err) { // Ill-formed message might still contain a name, so it is entirely hidden
+      redacted.add(REDACTED);
+    }
+
+    const fields: LogFields = { ...entry.fields, rptlMessage: redacted.build() };
+    for (const field of STRING_FIELDS) {
+      const value: string | undefined = fields[field];
+
+      if (value !== undefined) { // Only an error might quote ill-formed message arguments
+        fields[field] = hideNames?.(value) ?? (field === 'error' ? REDACTED : value);
+      }
+    }
+
+    return new LogEntry(entry.level, hideNames?.(entry.message) ?? entry.message, fields);
+  };
+}
+
+
+/**
+ * Receives structured log entries from RpT services, injected using `RPT_LOGGER` token.
+ *
+ * Entries below minimum level are discarded, then remaining ones are passed through every redactor in registration order before being
+ * written by implementation.
+ */
+export abstract class RptLogger {
+  // Redactors called for each entry before it is written
+  private readonly redactors: LogRedactor[];
+
+  /**
+   * @param level Minimum level for an entry to be written
+   */
+  protected constructor(public level: LogLevel) {
+    this.redactors = [];
+  }
+
+  /**
+   * Writes given entry, which has already been filtered and redacted.
+   *
+   * @param entry Entry to write
+   */
+  protected abstract write(entry: LogEntry): void;
+
+  /**
+   * @param redactor Called for each written entry after previously added redactors
+   */
+  addRedactor(redactor: LogRedactor): void {
+    this.redactors.push(redactor);
+  }
+
+  /**
+   * @param level Level to check for
+   *
+   * @returns `true` if an entry at given level would be written
+   */
+  isEnabled(level: LogLevel): boolean {
+    return level >= this.level;
+  }
+
+  /**
+   * @param level Entry severity
+   * @param message Human-readable description of what happened
+   * @param fields Structured data about what happened
+   */
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) { // Redaction is skipped too, as entry will not be written
+      return;
+    }
+
+    let entry: LogEntry = new LogEntry(level, message, fields);
+    for (const redact of this.redactors) {
+      entry = redact(entry);
+    }
+
+    this.write(entry);
+  }
+
+  trace(message: string, fields?: LogFields): void {
+    this.log(LogLevel.TRACE, message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log(LogLevel.DEBUG, message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log(LogLevel.INFO, message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log(LogLevel.WARN, message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log(LogLevel.ERROR, message, fields);
+  }
+}
+
+
+/**
+ * Discards every entry, default logger for production builds.
+ */
+export class NoopLogger extends RptLogger {
+  constructor() {
+    super(Infinity); // No level is high enough, so entries are never redacted
+  }
+
+  protected write(entry: LogEntry): void {}
+}
+
+
+/**
+ * Writes entries into browser console with appropriate console method, default logger for development builds.
+ */
+export class ConsoleLogger extends RptLogger {
+  /**
+   * @param level Minimum level for an entry to be written, `DEBUG` by default
+   */
+  constructor(level: LogLevel = LogLevel.DEBUG) {
+    super(level);
+  }
+
+  protected write(entry: LogEntry): void {
+    const text: string = entry.fields.rptlMessage === undefined ? entry.message : `${entry.message}: ${entry.fields.rptlMessage}`;
+
+    switch (entry.level) {
+      case LogLevel.TRACE:
+      case LogLevel.DEBUG:
+      case LogLevel.INFO:
+        console.log(text, entry.fields);
+        break;
+      case LogLevel.WARN:
+        console.warn(text, entry.fields);
+        break;
+      case LogLevel.ERROR:
+        console.error(text, entry.fields);
+        break;
+    }
+  }
+}
+
+
+/**
+ * Keeps every written entry in memory, so unit tests can assert on them.
+ */
+export class CapturingLogger extends RptLogger {
+  /**
+   * Written entries, in writing order.
+   */
+  readonly entries: LogEntry[];
+
+  /**
+   * @param level Minimum level for an entry to be captured, `TRACE` by default
+   */
+  constructor(level: LogLevel = LogLevel.TRACE) {
+    super(level);
+    this.entries = [];
+  }
+
+  protected write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * @param level Level of entries to retrieve
+   *
+   * @returns Captured entries with given level, in writing order
+   */
+  entriesAt(level: LogLevel): LogEntry[] {
+    return this.entries.filter((entry: LogEntry) => entry.level === level);
+  }
+
+  /**
+   * Forgets about every captured entry.
+   */
+  clear(): void {
+    this.entries.splice(0);
+  }
+}
+
+
+/**
+ * Logger used by RpT services, writing into console for development builds and discarding everything for production builds.
+ */
+export const RPT_LOGGER = new InjectionToken<RptLogger>('RpT structured logger', {
+  providedIn: 'root',
+  factory: () => isDevMode() ? new ConsoleLogger() : new NoopLogger()
+});
@@ -0,0 +1,13 @@
+import { InjectionToken } from '@angular/core';
+import { asyncScheduler, SchedulerLike } from 'rxjs';
+
+
+/**
+ * Scheduler used by RpT services for every time-based operation (delays, timeouts, periodic tasks...).
+ *
+ * Default is rxjs `asyncScheduler`, it might be replaced by a virtual time scheduler when unit testing.
+ */
+export const RPT_SCHEDULER = new InjectionToken<SchedulerLike>('RpT time-based operations scheduler', {
+  providedIn: 'root',
+  factory: () => asyncScheduler
+});
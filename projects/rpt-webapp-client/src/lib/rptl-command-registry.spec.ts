@@ -0,0 +1,76 @@
+import { CommandHandler, CommandMode, RptlCommandRegistry, UnavailableCommandName } from './rptl-command-registry';
+
+
+describe('RptlCommandRegistry', () => {
+  let registry: RptlCommandRegistry;
+  const handler: CommandHandler = () => {};
+  const otherHandler: CommandHandler = () => {};
+
+  beforeEach(() => registry = new RptlCommandRegistry());
+
+  describe('register()', () => {
+    it('should make command available only into given mode', () => {
+      registry.register('PING', CommandMode.REGISTERED, handler);
+
+      expect(registry.get('PING', true)).toBe(handler);
+      expect(registry.get('PING', false)).toBeUndefined();
+    });
+
+    it('should make command available into both modes', () => {
+      registry.register('PING', CommandMode.BOTH, handler);
+
+      expect(registry.get('PING', true)).toBe(handler);
+      expect(registry.get('PING', false)).toBe(handler);
+    });
+
+    it('should allow different handlers for each mode', () => {
+      registry.register('PING', CommandMode.REGISTERED, handler);
+      registry.register('PING', CommandMode.UNREGISTERED, otherHandler);
+
+      expect(registry.get('PING', true)).toBe(handler);
+      expect(registry.get('PING', false)).toBe(otherHandler);
+    });
+
+    it('should throw and leave registry unchanged if command is already handled into one of given modes', () => {
+      registry.register('PING', CommandMode.REGISTERED, handler);
+
+      expect(() => registry.register('PING', CommandMode.BOTH, otherHandler)).toThrowError(UnavailableCommandName);
+      expect(registry.get('PING', true)).toBe(handler);
+      expect(registry.get('PING', false)).toBeUndefined();
+    });
+  });
+
+  describe('isBuiltIn()', () => {
+    it('should check for built-in handler into given modes only', () => {
+      registry.registerBuiltIn('PING', CommandMode.REGISTERED, handler);
+      registry.register('PING', CommandMode.UNREGISTERED, otherHandler);
+
+      expect(registry.isBuiltIn('PING', CommandMode.REGISTERED)).toBeTrue();
+      expect(registry.isBuiltIn('PING', CommandMode.BOTH)).toBeTrue();
+      expect(registry.isBuiltIn('PING', CommandMode.UNREGISTERED)).toBeFalse();
+      expect(registry.isBuiltIn('PONG', CommandMode.BOTH)).toBeFalse();
+    });
+  });
+
+  describe('unregister()', () => {
+    it('should remove handler only from given mode', () => {
+      registry.register('PING', CommandMode.BOTH, handler);
+
+      expect(registry.unregister('PING', CommandMode.UNREGISTERED)).toBeTrue();
+      expect(registry.get('PING', true)).toBe(handler);
+      expect(registry.get('PING', false)).toBeUndefined();
+    });
+
+    it('should remove handler from both modes by default', () => {
+      registry.register('PING', CommandMode.BOTH, handler);
+
+      expect(registry.unregister('PING')).toBeTrue();
+      expect(registry.get('PING', true)).toBeUndefined();
+      expect(registry.get('PING', false)).toBeUndefined();
+    });
+
+    it('should return false if command was not handled', () => {
+      expect(registry.unregister('PING')).toBeFalse();
+    });
+  });
+});
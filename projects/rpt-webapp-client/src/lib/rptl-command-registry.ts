@@ -0,0 +1,172 @@
+import { CommandParser } from './command-parser';
+
+
+/**
+ * RPTL protocol modes a command handler is available into:
+ * - `REGISTERED`: Only when client is registered as an actor
+ * - `UNREGISTERED`: Only when client isn't registered yet
+ * - `BOTH`: During the whole session
+ */
+export enum CommandMode {
+  REGISTERED, UNREGISTERED, BOTH
+}
+
+
+/**
+ * What `RptlProtocolService` does when server invokes a command without any handler for current mode:
+ * - `FATAL`: Session is closed with an internal error close frame, as an ill-formed message would do
+ * - `IGNORE`: Command is logged then ignored
+ * - `EMIT`: Command is ignored but pushed into `RptlProtocolService:getUnhandledCommands()` observable
+ */
+export enum UnknownCommandPolicy {
+  FATAL, IGNORE, EMIT
+}
+
+
+/**
+ * Handles an RPTL command invoked by server.
+ *
+ * @param parsedCommand Parser with command name already parsed, `unparsed` is the command arguments
+ * @param reply Sends given RPTL message to server using current session
+ */
+export type CommandHandler = (parsedCommand: CommandParser, reply: (rptlMessage: string) => void) => void;
+
+
+/**
+ * RPTL command received from server without any handler for current mode, ignored using `UnknownCommandPolicy.EMIT`.
+ */
+export class UnhandledCommand {
+  /**
+   * @param rptlMessage Whole received message
+   * @param command Invoked command name
+   * @param registered `true` if client was registered when command was received
+   */
+  constructor(readonly rptlMessage: string, readonly command: string, readonly registered: boolean) {}
+}
+
+
+/**
+ * Thrown by `RptlCommandRegistry:register()` if given command already has a handler for one of given modes.
+ */
+export class UnavailableCommandName extends Error {
+  /**
+   * @param alreadyHandledCommand Command name which is unavailable
+   */
+  constructor(alreadyHandledCommand: string) {
+    super(`Command ${alreadyHandledCommand} is already handled`);
+  }
+}
+
+
+/**
+ * Provides handler to call for each RPTL command depending on current protocol mode.
+ *
+ * A command name might be handled differently depending on mode, but only one handler is allowed for each command into a given mode.
+ */
+export class RptlCommandRegistry {
+  // Available commands and their handler for registered mode
+  private readonly registeredHandlers: Map<string, CommandHandler>;
+  // Same for unregistered mode
+  private readonly unregisteredHandlers: Map<string, CommandHandler>;
+  // Handlers registered with `registerBuiltIn()`, whatever command and mode they are registered for
+  private readonly builtInHandlers: Set<CommandHandler>;
+
+  /**
+   * Constructs registry without any command handler.
+   */
+  constructor() {
+    this.registeredHandlers = new Map<string, CommandHandler>();
+    this.unregisteredHandlers = new Map<string, CommandHandler>();
+    this.builtInHandlers = new Set<CommandHandler>();
+  }
+
+  /**
+   * @param mode Mode to retrieve handlers for
+   *
+   * @returns Handlers dictionary for each protocol mode covered by given mode
+   * @private
+   */
+  private handlersFor(mode: CommandMode): Map<string, CommandHandler>[] {
+    switch (mode) {
+      case CommandMode.REGISTERED:
+        return [this.registeredHandlers];
+      case CommandMode.UNREGISTERED:
+        return [this.unregisteredHandlers];
+      case CommandMode.BOTH:
+        return [this.registeredHandlers, this.unregisteredHandlers];
+    }
+  }
+
+  /**
+   * @param command Name of command to handle
+   * @param mode Protocol modes command is available into
+   * @param handler Called each time server invokes that command into one of given modes
+   *
+   * @throws UnavailableCommandName if command is already handled into one of given modes
+   */
+  register(command: string, mode: CommandMode, handler: CommandHandler): void {
+    const modeHandlers: Map<string, CommandHandler>[] = this.handlersFor(mode);
+
+    // Checks for every mode before modifying any of them, so registry is left unchanged on error
+    if (modeHandlers.some((handlers: Map<string, CommandHandler>) => handlers.has(command))) {
+      throw new UnavailableCommandName(command);
+    }
+
+    for (const handlers of modeHandlers) {
+      handlers.set(command, handler);
+    }
+  }
+
+  /**
+   * Registers handler like `register()` does, marking it as built-in for given command and modes.
+   *
+   * @param command Name of command to handle
+   * @param mode Protocol modes command is available into
+   * @param handler Called each time server invokes that command into one of given modes
+   *
+   * @throws UnavailableCommandName if command is already handled into one of given modes
+   */
+  registerBuiltIn(command: string, mode: CommandMode, handler: CommandHandler): void {
+    this.register(command, mode, handler);
+    this.builtInHandlers.add(handler);
+  }
+
+  /**
+   * @param command Name of command to check for
+   * @param mode Protocol modes to check for
+   *
+   * @returns `true` if command is handled by a built-in handler into at least one of given modes
+   */
+  isBuiltIn(command: string, mode: CommandMode): boolean {
+    return this.handlersFor(mode).some((handlers: Map<string, CommandHandler>) => {
+      const handler: CommandHandler | undefined = handlers.get(command);
+
+      return handler !== undefined && this.builtInHandlers.has(handler);
+    });
+  }
+
+  /**
+   * @param command Name of command to no longer handle
+   * @param mode Protocol modes command will no longer be available into
+   *
+   * @returns `true` if command was handled into at least one of given modes
+   */
+  unregister(command: string, mode: CommandMode = CommandMode.BOTH): boolean {
+    let removed = false;
+    for (const handlers of this.handlersFor(mode)) {
+      removed = handlers.delete(command) || removed;
+    }
+
+    return removed;
+  }
+
+  /**
+   * @param command Invoked command name
+   * @param registered `true` if client is currently registered
+   *
+   * @returns Handler for given command into current mode, `undefined` if command is unavailable
+   */
+  get(command: string, registered: boolean): CommandHandler | undefined {
+    return (registered ? this.registeredHandlers : this.unregisteredHandlers).get(command);
+  }
+}
@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ConnectionEvent,
+  ConnectionEventType,
+  RPTL_CONNECTION_FACTORY,
+  RptlConnection,
+  WebSocketConnectionFactory
+} from './rptl-connection-factory';
+import { unexpected } from './testing-helpers';
+
+
+/**
+ * Mocking for browser `WebSocket`, saving every sent frame and allowing to emulate server-side frames and events. Every constructed
+ * instance is available inside `FakeWebSocket.instances`.
+ */
+class FakeWebSocket {
+  static readonly instances: FakeWebSocket[] = [];
+
+  readonly sentFrames: string[];
+
+  binaryType = 'blob';
+  readyState = 0;
+  onopen?: (event: any) => void;
+  onclose?: (event: any) => void;
+  onerror?: (event: any) => void;
+  onmessage?: (event: any) => void;
+
+  constructor(readonly url: string, readonly protocols?: string | string[]) {
+    this.sentFrames = [];
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sentFrames.push(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.readyState = 3;
+    this.onclose?.({ code, reason, wasClean: true });
+  }
+
+  /**
+   * Emulates connection opening handshake.
+   */
+  mockOpening(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+}
+
+
+/**
+ * @returns Last constructed `FakeWebSocket`
+ */
+function lastSocket(): FakeWebSocket {
+  return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+
+describe('RptlConnectionFactory', () => {
+  it('should be a WebSocket connections factory by default', () => {
+    TestBed.configureTestingModule({});
+
+    expect(TestBed.inject(RPTL_CONNECTION_FACTORY)).toBeInstanceOf(WebSocketConnectionFactory);
+  });
+
+  describe('WebSocketConnectionFactory', () => {
+    let connection: RptlConnection;
+    let events: ConnectionEvent[];
+    let eventsCompleted: boolean;
+
+    beforeEach(() => {
+      connection = new WebSocketConnectionFactory().open('ws://localhost', { WebSocketCtor: FakeWebSocket as unknown as typeof WebSocket });
+
+      events = [];
+      eventsCompleted = false;
+      connection.events.subscribe({
+        next: (event: ConnectionEvent) => events.push(event),
+        error: unexpected,
+        complete: () => eventsCompleted = true
+      });
+    });
+
+    it('should open connection when subscribed and notify about it', () => {
+      const previousSocketsCount: number = FakeWebSocket.instances.length;
+      connection.messages.subscribe();
+
+      expect(FakeWebSocket.instances).toHaveSize(previousSocketsCount + 1); // Connection opened by subscription
+      expect(lastSocket().url).toEqual('ws://localhost');
+
+      lastSocket().mockOpening();
+      expect(events).toEqual([new ConnectionEvent(ConnectionEventType.OPENED, 'ws://localhost')]);
+      expect(eventsCompleted).toBeFalse();
+    });
+
+    it('should send and receive raw RPTL messages', () => {
+      let receivedMessage: string | undefined;
+      connection.messages.subscribe({ next: (message: string) => receivedMessage = message });
+
+      const socket: FakeWebSocket = lastSocket();
+      socket.mockOpening();
+      connection.messages.next('LOGIN 42 ThisALV');
+      socket.onmessage?.({ data: 'REGISTRATION 42 ThisALV' });
+
+      expect(socket.sentFrames).toEqual(['LOGIN 42 ThisALV']); // Should not have been JSON-formatted
+      expect(receivedMessage).toEqual('REGISTRATION 42 ThisALV');
+    });
+
+    it('should notify close code then complete events when connection is closed by client', () => {
+      connection.messages.subscribe({ error: () => {} });
+      lastSocket().mockOpening();
+
+      connection.messages.error({ code: 1011, reason: 'Unavailable command: FOO' }); // As RptlProtocolService does on protocol error
+
+      expect(events).toEqual([
+        new ConnectionEvent(ConnectionEventType.OPENED, 'ws://localhost'),
+        new ConnectionEvent(ConnectionEventType.CLOSED, 'ws://localhost', 1011, 'Unavailable command: FOO', true)
+      ]);
+      expect(eventsCompleted).toBeTrue();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { InjectionToken } from '@angular/core';
+import { NextObserver, Observable, Subject } from 'rxjs';
+import { webSocket } from 'rxjs/webSocket';
+
+
+/**
+ * Options to open a new RPTL connection with:
+ * - `protocols`: WebSocket sub-protocols to negotiate with server
+ * - `openObserver`: Called with WebSocket open event
+ * - `closeObserver`: Called with WebSocket close event
+ * - `serializer`: Converts RPTL messages sent to server into WebSocket frames data, messages are sent as-is by default
+ * - `deserializer`: Converts WebSocket frames data received from server into RPTL messages, data is taken as-is by default
+ * - `WebSocketCtor`: WebSocket implementation to use, global `WebSocket` by default
+ */
+export type RptlConnectionOptions = {
+  protocols?: string | string[],
+  openObserver?: NextObserver<Event>,
+  closeObserver?: NextObserver<CloseEvent>,
+  serializer?: (rptlMessage: string) => string | ArrayBuffer | Blob | ArrayBufferView,
+  deserializer?: (event: MessageEvent) => string,
+  WebSocketCtor?: new(url: string, protocols?: string | string[]) => WebSocket
+};
+
+
+/**
+ * Values for `ConnectionEvent` kind:
+ * - `OPENED`: Connection is established with server
+ * - `CLOSED`: Connection is closed, by server or by client
+ */
+export enum ConnectionEventType {
+  OPENED, CLOSED
+}
+
+
+/**
+ * Event happening on a connection opened by a `RptlConnectionFactory`.
+ */
+export class ConnectionEvent {
+  /**
+   * @param type What happened to connection
+   * @param url URL connection was opened to
+   * @param code WebSocket close code if connection was closed
+   * @param reason WebSocket close reason if connection was closed, might be empty
+   * @param wasClean `true` if connection was closed with a close frame, `false` if transport was dropped
+   */
+  constructor(readonly type: ConnectionEventType,
+              readonly url: string,
+              readonly code?: number,
+              readonly reason?: string,
+              readonly wasClean?: boolean) {}
+}
+
+
+/**
+ * Connection opened by a `RptlConnectionFactory`, with a subject to send and receive RPTL messages and an observable for events
+ * happening on that connection.
+ */
+export class RptlConnection {
+  /**
+   * @param messages Messaging interface to begin RPTL session with
+   * @param events Open and close events for that connection, completed once connection is closed
+   */
+  constructor(readonly messages: Subject<string>, readonly events: Observable<ConnectionEvent>) {}
+}
+
+
+/**
+ * Opens connections to RPTL servers, injected into `RptlProtocolService` using `RPTL_CONNECTION_FACTORY` token.
+ */
+export abstract class RptlConnectionFactory {
+  /**
+   * @param url URL of server to connect with
+   * @param options Options to open connection with
+   *
+   * @returns Connection which will be opened as soon as its messaging interface is subscribed
+   */
+  abstract open(url: string, options?: RptlConnectionOptions): RptlConnection;
+}
+
+
+/**
+ * Opens connections to RPTL servers using rxjs `WebSocketSubject`, sending and receiving raw RPTL messages by default.
+ */
+export class WebSocketConnectionFactory extends RptlConnectionFactory {
+  open(url: string, options: RptlConnectionOptions = {}): RptlConnection {
+    const events: Subject<ConnectionEvent> = new Subject<ConnectionEvent>();
+
+    const messages: Subject<string> = webSocket<string>({
+      url,
+      protocol: options.protocols,
+      WebSocketCtor: options.WebSocketCtor,
+      // RPTL messages are plain strings, they must not be JSON-formatted as default WebSocketSubject does
+      serializer: options.serializer ?? ((rptlMessage: string) => rptlMessage),
+      deserializer: options.deserializer ?? ((event: MessageEvent) => event.data),
+      openObserver: {
+        next: (event: Event) => {
+          events.next(new ConnectionEvent(ConnectionEventType.OPENED, url));
+          options.openObserver?.next(event);
+        }
+      },
+      closeObserver: {
+        next: (event: CloseEvent) => { // Close code would be lost if not provided here, as WebSocketSubject only errors with event
+          events.next(new ConnectionEvent(ConnectionEventType.CLOSED, url, event.code, event.reason, event.wasClean));
+          events.complete(); // Nothing more can happen on that connection
+          options.closeObserver?.next(event);
+        }
+      }
+    });
+
+    return new RptlConnection(messages, events);
+  }
+}
+
+
+/**
+ * Factory used by `RptlProtocolService:connect()`, opening WebSocket connections by default.
+ */
+export const RPTL_CONNECTION_FACTORY = new InjectionToken<RptlConnectionFactory>('RPTL connection factory', {
+  providedIn: 'root',
+  factory: () => new WebSocketConnectionFactory()
+});
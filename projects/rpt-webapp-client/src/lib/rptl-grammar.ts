@@ -0,0 +1,59 @@
+import { CommandGrammar, ProtocolGrammar } from './protocol-grammar';
+import { CommandMode } from './rptl-command-registry';
+import { toInteger, toUid } from './argument-converters';
+
+
+/**
+ * `INTERRUPT [reason]`: Server closes session, rejecting registration if any.
+ */
+export const INTERRUPT_COMMAND = new CommandGrammar('INTERRUPT', CommandMode.BOTH, [
+  { name: 'reason', rest: true }
+], 'Server closes session, with an optional reason');
+
+
+/**
+ * `SERVICE <SER command>`: Server sends a SER command to client.
+ */
+export const SERVICE_COMMAND = new CommandGrammar('SERVICE', CommandMode.REGISTERED, [
+  { name: 'serCommand', rest: true }
+], 'Server sends a SER command');
+
+
+/**
+ * `LOGGED_IN <uid> <name>`: An actor joined session.
+ */
+export const LOGGED_IN_COMMAND = new CommandGrammar('LOGGED_IN', CommandMode.REGISTERED, [
+  { name: 'uid', type: toUid() }, { name: 'name', type: String }
+], 'An actor joined session');
+
+
+/**
+ * `LOGGED_OUT <uid>`: An actor left session.
+ */
+export const LOGGED_OUT_COMMAND = new CommandGrammar('LOGGED_OUT', CommandMode.REGISTERED, [
+  { name: 'uid', type: toUid() }
+], 'An actor left session');
+
+
+/**
+ * `AVAILABILITY <actors count> <max actors number>`: Server status for unregistered clients.
+ */
+export const AVAILABILITY_COMMAND = new CommandGrammar('AVAILABILITY', CommandMode.UNREGISTERED, [
+  { name: 'actorsCount', type: toInteger(0) }, { name: 'maxActorsNumber', type: toInteger(0) }
+], 'Server status for unregistered clients');
+
+
+/**
+ * `REGISTRATION [<uid> <name>]...`: Server confirms client registration, listing every connected actor.
+ */
+export const REGISTRATION_COMMAND = new CommandGrammar('REGISTRATION', CommandMode.UNREGISTERED, [
+  { name: 'actors', repeat: [{ name: 'uid', type: toUid() }, { name: 'name', type: String }] }
+], 'Server confirms client registration, listing every connected actor');
+
+
+/**
+ * Every RPTL command sent by server and handled by `RptlProtocolService`.
+ */
+export const RPTL_GRAMMAR = new ProtocolGrammar('RPTL', [
+  INTERRUPT_COMMAND, SERVICE_COMMAND, LOGGED_IN_COMMAND, LOGGED_OUT_COMMAND, AVAILABILITY_COMMAND, REGISTRATION_COMMAND
+]);
@@ -1,9 +1,38 @@
 import { TestBed } from '@angular/core/testing';
-import { expectToBeErrored, expectToContainExactly, MockedWebsocketSubject, unexpected } from './testing-helpers';
-import { BadConnectionSubject, BadRptlMode, BadSessionState, RptlProtocolService, RptlState } from './rptl-protocol.service';
-import { Subject } from 'rxjs';
+import {
+  expectToBeErrored,
+  expectToContainExactly,
+  MockedConnectionFactory,
+  MockedWebsocketSubject,
+  unexpected
+} from './testing-helpers';
+import {
+  BadConnectionSubject,
+  BuiltInCommand,
+  BadRptlMode,
+  BadSessionState,
+  DEFAULT_REGISTRATION_TIMEOUT,
+  ProtocolAnomaly,
+  RegistrationPending,
+  RegistrationRejected,
+  REGISTRATION_TIMEOUT_CODE,
+  RegistrationTimeout,
+  RptlProtocolService,
+  RptlState
+} from './rptl-protocol.service';
+import { Observable, Subject, VirtualTimeScheduler } from 'rxjs';
+import { skip } from 'rxjs/operators';
 import { Actor } from './actor';
 import { Availability } from './availability';
+import { RPT_SCHEDULER } from './rpt-scheduler';
+import { ReconnectionAttempt } from './reconnection-policy';
+import { ConnectionEvent, ConnectionEventType, RPTL_CONNECTION_FACTORY, RptlConnection } from './rptl-connection-factory';
+import { HEARTBEAT_TIMEOUT_CODE } from './heartbeat-config';
+import { ActorEvent, ActorEventType } from './actor-event';
+import { CommandMode, UnavailableCommandName, UnhandledCommand, UnknownCommandPolicy } from './rptl-command-registry';
+import { CommandParser } from './command-parser';
+import { SessionEnd, SessionEndCause } from './session-end';
+import { CapturingLogger, LogEntry, LogLevel, MessageDirection, RPT_LOGGER } from './rpt-logger';
 
 
 /**
@@ -21,6 +50,16 @@ class SharedBoolean {
 describe('RptlProtocolService', () => {
   let service: RptlProtocolService;
   let mockedWsConnection: MockedWebsocketSubject;
+  let scheduler: VirtualTimeScheduler; // Controls time for reconnection attempts delays
+  let connectionFactory: MockedConnectionFactory; // Opens mocked connections for connect()
+  let logger: CapturingLogger; // Captures every entry written by service
+
+  /**
+   * @returns `service` states observable without current state which is provided at subscription
+   */
+  function nextStates(): Observable<RptlState> {
+    return service.getState().pipe(skip(1));
+  }
 
   /**
    * Expects `service` to switch state into given `RtplState`.
@@ -32,7 +71,7 @@ describe('RptlProtocolService', () => {
   function expectStateToBeUpdated(expectedState: RptlState): SharedBoolean {
     const updated: SharedBoolean = new SharedBoolean();
 
-    service.getState().subscribe({
+    nextStates().subscribe({
       next: (newState: RptlState): void => { // Expects a new value to be pushed
         updated.value = true; // next() has been called
         expect(newState).toEqual(expectedState);
@@ -49,7 +88,7 @@ describe('RptlProtocolService', () => {
    * Expects `getState()` observers to not handle any `RptlState` value.
    */
   function expectStateToNotBeUpdated(): void {
-    service.getState().subscribe({
+    nextStates().subscribe({
       next: unexpected,
       error: unexpected,
       complete: unexpected
@@ -67,8 +106,30 @@ describe('RptlProtocolService', () => {
   }
 
 
+  /**
+   * Runs every action scheduled until given time (in ms) since unit test beginning.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now()); // Ensures virtual time will reach given time even without any action
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    scheduler = new VirtualTimeScheduler(); // Virtual time begins at 0 for each unit test
+    connectionFactory = new MockedConnectionFactory();
+    logger = new CapturingLogger();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: RPT_SCHEDULER, useValue: scheduler },
+        { provide: RPTL_CONNECTION_FACTORY, useValue: connectionFactory },
+        { provide: RPT_LOGGER, useValue: logger }
+      ]
+    });
     service = TestBed.inject(RptlProtocolService);
 
     mockedWsConnection = new MockedWebsocketSubject(); // Creates a new mocked connection for each unit test
@@ -82,6 +143,25 @@ describe('RptlProtocolService', () => {
     expect(service.isSessionRunning()).toBeFalse();
   });
 
+  describe('getState()', () => {
+    it('should provide current state at subscription', () => {
+      const states: RptlState[] = [];
+      const listenStates = () => service.getState().subscribe({
+        next: (newState: RptlState) => states.push(newState),
+        error: unexpected,
+        complete: unexpected
+      }).unsubscribe(); // Only checks for value provided at subscription
+
+      listenStates();
+      service.beginSession(mockedWsConnection);
+      listenStates();
+      mockRegistration();
+      listenStates();
+
+      expect(states).toEqual([RptlState.DISCONNECTED, RptlState.UNREGISTERED, RptlState.REGISTERED]);
+    });
+  });
+
   describe('beginSession()', () => {
     it('should throw if new connection is completed', () => {
       mockedWsConnection.complete();
@@ -134,6 +214,58 @@ describe('RptlProtocolService', () => {
     });
   });
 
+  describe('connect()', () => {
+    it('should open connection with given URL and options and run session on it', () => {
+      const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.UNREGISTERED);
+
+      service.connect('ws://localhost:35555', { protocols: 'rptl' });
+
+      expect(connectionFactory.openedConnections).toHaveSize(1);
+      expect(connectionFactory.lastConnection().url).toEqual('ws://localhost:35555');
+      expect(connectionFactory.lastConnection().options).toEqual({ protocols: 'rptl' });
+      expect(service.isSessionRunning()).toBeTrue();
+      expect(hasNotifiedState.value).toBeTrue();
+
+      service.updateStatusFromServer(); // Messages should be sent through opened connection
+      expect(connectionFactory.lastConnection().messages.nextMessage()).toEqual('CHECKOUT');
+    });
+
+    it('should throw if session is already running', () => {
+      service.beginSession(mockedWsConnection);
+
+      expect(() => service.connect('ws://localhost:35555')).toThrowError(BadSessionState);
+      expect(connectionFactory.openedConnections).toHaveSize(0); // No connection should have been opened for nothing
+    });
+
+    it('should notify about connection close code', () => {
+      let closeEvent: ConnectionEvent | undefined;
+      service.getConnectionEvents().subscribe({
+        next: (event: ConnectionEvent) => closeEvent = event,
+        error: unexpected,
+        complete: unexpected
+      });
+
+      service.connect('ws://localhost:35555');
+      connectionFactory.lastConnection().messages.fromServer('UNKNOWN_COMMAND'); // Protocol error, client closes with 1011
+
+      expect(closeEvent).toEqual(new ConnectionEvent(
+        ConnectionEventType.CLOSED, 'ws://localhost:35555', 1011, 'Unavailable command: UNKNOWN_COMMAND', true
+      ));
+    });
+
+    it('should release connection events once connection is closed', () => {
+      const events: Subject<ConnectionEvent> = new Subject<ConnectionEvent>(); // Never completed, unlike mocked factory ones
+      const messages: MockedWebsocketSubject = new MockedWebsocketSubject();
+      spyOn(connectionFactory, 'open').and.returnValue(new RptlConnection(messages, events));
+
+      service.connect('ws://localhost:35555');
+      expect(events.observers).toHaveSize(1);
+
+      events.next(new ConnectionEvent(ConnectionEventType.CLOSED, 'ws://localhost:35555', 1000, '', true));
+      expect(events.observers).toHaveSize(0);
+    });
+  });
+
   describe('endSession()', () => {
     it('should throw if session is not running', () => {
       expect(() => service.endSession()).toThrowError(BadSessionState);
@@ -169,37 +301,109 @@ describe('RptlProtocolService', () => {
   });
 
   describe('getActors()', () => {
-    it('should return errored observable if session is not running', () => {
-      expectToBeErrored(service.getActors());
+    let actors: Actor[] | undefined; // Last actors list pushed into observable
+
+    beforeEach(() => {
+      actors = undefined;
+
+      service.getActors().subscribe({ // Observable is kept across sessions, only next callback should be called
+        next: (newActors: Actor[]) => actors = newActors,
+        error: unexpected,
+        complete: unexpected
+      });
     });
 
-    it('should return errored observable if session is into unregistered mode', () => {
+    it('should provide empty list if session is not running', () => {
+      expect(actors).toEqual([]);
+    });
+
+    it('should provide empty list if session is into unregistered mode', () => {
       service.beginSession(mockedWsConnection); // Puts session into running state as unregistered
-      expectToBeErrored(service.getActors());
+      expect(actors).toEqual([]);
+    });
+
+    it('should provide actors list if session is into registered mode', () => {
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      expect(actors).toBeDefined(); // next() should have been called
+      // Checks for actors list content to match RPTL state, no matter their order inside list
+      expectToContainExactly(actors as Actor[], new Actor(42, 'ThisALV'), new Actor(0, 'Redox'));
+    });
+
+    it('should provide current actors list at subscription', () => {
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      let currentActors: Actor[] | undefined;
+      service.getActors().subscribe({ next: (newActors: Actor[]) => currentActors = newActors }).unsubscribe();
+
+      expectToContainExactly(currentActors as Actor[], new Actor(42, 'ThisALV'), new Actor(0, 'Redox'));
     });
 
-    it('should retrieve actors observable if session is into registered mode', () => {
+    it('should empty list when session stops and keep observable for next sessions', () => {
       service.beginSession(mockedWsConnection);
+      mockRegistration();
+      mockedWsConnection.closeFromServer();
 
-      // Sends handshake to server
-      service.register(42, 'ThisALV');
-      // Mocks server handshake response with some actors already connected
-      mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox');
+      expect(actors).toEqual([]);
 
-      let actors: Actor[] | undefined;
-      service.getActors().subscribe({ // Only next callback should be called to push a new actors list
-        next: (newActors: Actor[]) => actors = newActors,
+      const newConnection: MockedWebsocketSubject = new MockedWebsocketSubject();
+      service.beginSession(newConnection);
+      service.register(8, 'Lait2Vache');
+      newConnection.fromServer('REGISTRATION 8 Lait2Vache');
+
+      expect(actors).toEqual([new Actor(8, 'Lait2Vache')]);
+    });
+
+    it('should push current list again with updateActorsSubscribable()', () => {
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      let pushedList: Actor[] | undefined;
+      service.getActors().pipe(skip(1)).subscribe({ next: (newActors: Actor[]) => pushedList = newActors }); // Ignores current list
+
+      service.updateActorsSubscribable(); // Session running into registered, should work
+
+      expect(pushedList).toBeDefined();
+      expectToContainExactly(pushedList as Actor[], new Actor(42, 'ThisALV'), new Actor(0, 'Redox'));
+    });
+  });
+
+  describe('getActorsRegistry()', () => {
+    it('should provide connected actors by UID', () => {
+      let registry: ReadonlyMap<number, Actor> | undefined;
+      service.getActorsRegistry().subscribe({
+        next: (newRegistry: ReadonlyMap<number, Actor>) => registry = newRegistry,
         error: unexpected,
         complete: unexpected
       });
 
-      // Required to get current actors list as returned observable is new
-      // Session running into registered, should work, serves as a unit test for updateActorsSubscribable()
-      service.updateActorsSubscribable();
+      expect(registry?.size).toEqual(0); // Not registered, no actors known
 
-      expect(actors).toBeDefined(); // next() should have been called
-      // Checks for actors list content to match RPTL state, no matter their order inside list
-      expectToContainExactly(actors as Actor[], new Actor(42, 'ThisALV'), new Actor(0, 'Redox'));
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      expect(registry?.size).toEqual(2);
+      expect(registry?.get(42)).toEqual(new Actor(42, 'ThisALV'));
+      expect(registry?.get(0)).toEqual(new Actor(0, 'Redox'));
+    });
+  });
+
+  describe('getActorByUid() and hasActor()', () => {
+    it('should not find any actor if not registered', () => {
+      expect(service.getActorByUid(0)).toBeUndefined();
+      expect(service.hasActor(0)).toBeFalse();
+    });
+
+    it('should find connected actors if registered', () => {
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      expect(service.getActorByUid(0)).toEqual(new Actor(0, 'Redox'));
+      expect(service.hasActor(0)).toBeTrue();
+      expect(service.getActorByUid(8)).toBeUndefined();
+      expect(service.hasActor(8)).toBeFalse();
     });
   });
 
@@ -217,36 +421,49 @@ describe('RptlProtocolService', () => {
   });
 
   describe('getStatus()', () => {
-    it('should return errored observable if session is not running', () => {
-      expectToBeErrored(service.getStatus());
-    });
+    let statuses: (Availability | undefined)[]; // Every status pushed into observable
 
-    it('should return errored observable if session is running into registered mode', () => {
-      service.beginSession(mockedWsConnection); // Puts session into running state as unregistered
+    beforeEach(() => {
+      statuses = [];
 
-      // Sends handshake to server
-      service.register(42, 'ThisALV');
-      // Mocks server handshake response with some actors already connected
-      mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox'); // Puts session into registered RPTL mode
+      service.getStatus().subscribe({ // Observable is kept across sessions, only next() should be called
+        next: (newStatus: Availability | undefined) => statuses.push(newStatus),
+        error: unexpected,
+        complete: unexpected
+      });
+    });
 
-      expectToBeErrored(service.getStatus());
+    it('should provide unknown status if session is not running', () => {
+      expect(statuses).toEqual([undefined]);
     });
 
-    it('should retrieve server status observable if session is running into unregistered mode', () => {
+    it('should provide unknown status if session is running into registered mode', () => {
       service.beginSession(mockedWsConnection); // Puts session into running state as unregistered
+      mockedWsConnection.fromServer('AVAILABILITY 1 5');
+      mockRegistration(); // Puts session into registered RPTL mode
 
-      let serverStatus: Availability | undefined;
-      service.getStatus().subscribe({ // Only next() should be called to push new server status
-        next: (newStatus: Availability) => serverStatus = newStatus,
-        error: unexpected,
-        complete: unexpected
-      });
+      expect(statuses).toEqual([undefined, new Availability(1, 5), undefined]);
+    });
+
+    it('should provide server status if session is running into unregistered mode', () => {
+      service.beginSession(mockedWsConnection); // Puts session into running state as unregistered
 
       // Required to update server status, will serves as a unit test for AVAILABILITY command handler
       mockedWsConnection.fromServer('AVAILABILITY 2 5');
 
-      expect(serverStatus).toBeDefined(); // next() should have assigned an updated server status
-      expect(serverStatus).toEqual(new Availability(2, 5)); // Checks for status content
+      expect(statuses).toEqual([undefined, new Availability(2, 5)]); // Checks for status content
+
+      let currentStatus: Availability | undefined;
+      service.getStatus().subscribe({ next: (status: Availability | undefined) => currentStatus = status }).unsubscribe();
+      expect(currentStatus).toEqual(new Availability(2, 5)); // Last status should be provided at subscription
+    });
+
+    it('should forget status when session stops', () => {
+      service.beginSession(mockedWsConnection);
+      mockedWsConnection.fromServer('AVAILABILITY 2 5');
+      mockedWsConnection.closeFromServer();
+
+      expect(statuses).toEqual([undefined, new Availability(2, 5), undefined]);
     });
   });
 
@@ -335,6 +552,146 @@ describe('RptlProtocolService', () => {
       expect(() => service.register(42, 'ThisALV')).not.toThrow(); // Registration should be done successfully
       expect(mockedWsConnection.nextMessage()).toEqual('LOGIN 42 ThisALV'); // Checks for command sent by client
     });
+
+    it('should quote actor name containing spaces', () => {
+      service.beginSession(mockedWsConnection);
+      service.register(42, 'Jean Luc');
+
+      expect(mockedWsConnection.nextMessage()).toEqual('LOGIN 42 "Jean Luc"');
+
+      mockedWsConnection.fromServer('REGISTRATION 42 "Jean Luc" 0 "Red ox"'); // Names with spaces are quoted by server too
+
+      expect(service.getSelf()).toEqual(new Actor(42, 'Jean Luc'));
+      expect(service.getActorByUid(0)).toEqual(new Actor(0, 'Red ox'));
+    });
+
+    describe('Registration result', () => {
+      let result: Actor[] | undefined; // Actors provided by registration result, if resolved
+      let failure: any; // Error for registration result, if rejected
+
+      /**
+       * Registers with given actor, saving registration result into `result` or `failure`.
+       */
+      function registerAs(uid: number, name: string, timeout?: number): void {
+        service.register(uid, name, timeout).subscribe({
+          next: (actors: Actor[]) => result = actors,
+          error: (err: any) => failure = err
+        });
+      }
+
+      beforeEach(() => {
+        result = undefined;
+        failure = undefined;
+
+        service.beginSession(mockedWsConnection);
+      });
+
+      it('should resolve with connected actors once server confirmed registration', () => {
+        let registeredWhenResolved: boolean | undefined;
+        service.register(42, 'ThisALV').subscribe({
+          next: () => registeredWhenResolved = service.isRegistered(), // Result observers should see registered mode
+          error: unexpected
+        });
+
+        mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox');
+
+        expect(registeredWhenResolved).toBeTrue();
+      });
+
+      it('should provide actors already connected', () => {
+        registerAs(42, 'ThisALV');
+        mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox');
+
+        expect(result).toEqual([new Actor(42, 'ThisALV'), new Actor(0, 'Redox')]);
+        expect(failure).toBeUndefined();
+      });
+
+      it('should not commit own actor before server confirmed registration', () => {
+        registerAs(42, 'ThisALV');
+
+        expect(service.isRegistered()).toBeFalse();
+        expect(() => service.getSelf()).toThrowError(BadRptlMode);
+
+        mockedWsConnection.fromServer('REGISTRATION 42 ThisALV');
+
+        expect(service.getSelf()).toEqual(new Actor(42, 'ThisALV'));
+      });
+
+      it('should reject with server reason if interrupted', () => {
+        registerAs(42, 'ThisALV');
+        mockedWsConnection.fromServer('INTERRUPT Name already taken');
+
+        expect(failure).toEqual(new RegistrationRejected('Name already taken'));
+        expect(failure.reason).toEqual('Name already taken');
+      });
+
+      it('should reject with a default reason if interrupted without any', () => {
+        registerAs(42, 'ThisALV');
+        mockedWsConnection.fromServer('INTERRUPT');
+
+        expect(failure).toEqual(new RegistrationRejected('Interrupted by server'));
+      });
+
+      it('should reject if connection is closed before server reply', () => {
+        registerAs(42, 'ThisALV');
+        mockedWsConnection.closeFromServer();
+
+        expect(failure).toEqual(new RegistrationRejected('Connection closed'));
+        expect(result).toBeUndefined();
+      });
+
+      it('should reject if server does not reply in time', () => {
+        registerAs(42, 'ThisALV', 500);
+
+        runUntil(499);
+        expect(failure).toBeUndefined();
+
+        runUntil(500);
+        expect(failure).toBeInstanceOf(RegistrationTimeout);
+        expect(failure).toBeInstanceOf(RegistrationRejected);
+        // Session is closed so a late confirmation cannot register client after its caller was told registration failed
+        expect(service.isSessionRunning()).toBeFalse();
+        expect(mockedWsConnection.closureReason).toEqual({ code: REGISTRATION_TIMEOUT_CODE, reason: 'Registration timeout' });
+      });
+
+      it('should not timeout once server confirmed registration', () => {
+        registerAs(42, 'ThisALV', 500);
+        mockedWsConnection.fromServer('REGISTRATION 42 ThisALV');
+
+        runUntil(1000);
+        expect(failure).toBeUndefined();
+      });
+
+      it('should throw if another registration is waiting for server reply', () => {
+        registerAs(42, 'ThisALV');
+
+        expect(() => service.register(43, 'ThisALV2')).toThrowError(RegistrationPending);
+      });
+
+      it('should end session with timeout cause if server does not reply in time', () => {
+        const sessionEnds: SessionEnd[] = [];
+        service.getSessionEnds().subscribe((sessionEnd: SessionEnd) => sessionEnds.push(sessionEnd));
+
+        registerAs(42, 'ThisALV', 500);
+        runUntil(500);
+
+        expect(sessionEnds).toEqual([
+          new SessionEnd(SessionEndCause.TIMEOUT, 500, RptlState.UNREGISTERED, 'Registration timeout', REGISTRATION_TIMEOUT_CODE)
+        ]);
+      });
+
+      it('should allow registering again inside a new session after a timeout', () => {
+        registerAs(42, 'ThisALV', 500);
+        runUntil(500);
+
+        mockedWsConnection = new MockedWebsocketSubject();
+        service.beginSession(mockedWsConnection);
+        registerAs(43, 'ThisALV2');
+        mockedWsConnection.fromServer('REGISTRATION 43 ThisALV2');
+
+        expect(service.getSelf()).toEqual(new Actor(43, 'ThisALV2'));
+      });
+    });
   });
 
   describe('Command handlers', () => {
@@ -366,8 +723,27 @@ describe('RptlProtocolService', () => {
     });
 
     describe('Registered mode', () => {
+      let actorEvents: ActorEvent[]; // Every actor event since registration
+      let anomalies: ProtocolAnomaly[]; // Every ignored message since registration
+
       // Registered-only commands require client to be registered
-      beforeEach(() => mockRegistration());
+      beforeEach(() => {
+        mockRegistration();
+
+        actorEvents = [];
+        service.getActorEvents().subscribe({
+          next: (event: ActorEvent) => actorEvents.push(event),
+          error: unexpected,
+          complete: unexpected
+        });
+
+        anomalies = [];
+        service.getAnomalies().subscribe({
+          next: (anomaly: ProtocolAnomaly) => anomalies.push(anomaly),
+          error: unexpected,
+          complete: unexpected
+        });
+      });
 
       describe('INTERRUPT with Websocket close frame from server', () => {
         let serProtocol: Subject<string>;
@@ -459,6 +835,7 @@ describe('RptlProtocolService', () => {
             complete: unexpected
           });
 
+          runUntil(100); // Event timestamp should be current scheduler time
           mockedWsConnection.fromServer('LOGGED_IN  8   Lait2Vache'); // Emulates a new remote actor [8] Lait2Vache
 
           expect(actorsList).toBeDefined(); // Actors list should have been updated
@@ -466,10 +843,28 @@ describe('RptlProtocolService', () => {
           expectToContainExactly(actorsList as Actor[],
             new Actor(42, 'ThisALV'), new Actor(0, 'Redox'), new Actor(8, 'Lait2Vache')
           );
+          // Checks for actor event to have been emitted
+          expect(actorEvents).toEqual([new ActorEvent(ActorEventType.JOINED, new Actor(8, 'Lait2Vache'), 100)]);
+          expect(service.hasActor(8)).toBeTrue();
+        });
+
+        it('should report an anomaly and not update list if actor is already connected', () => {
+          service.getActors().pipe(skip(1)).subscribe({ // No update should occur after current list
+            next: unexpected,
+            error: unexpected,
+            complete: unexpected
+          });
+
+          mockedWsConnection.fromServer('LOGGED_IN 0 Redox2'); // Redox is already connected with UID 0
+
+          expect(service.isSessionRunning()).toBeTrue(); // Not a fatal error
+          expect(anomalies).toEqual([new ProtocolAnomaly('LOGGED_IN 0 Redox2', 'Actor with UID 0 is already connected')]);
+          expect(actorEvents).toHaveSize(0);
+          expect(service.getActorByUid(0)).toEqual(new Actor(0, 'Redox')); // Connected actor should be kept as is
         });
 
         it('should not update list if new actor is same than self', () => {
-          service.getActors().subscribe({ // No update should occur
+          service.getActors().pipe(skip(1)).subscribe({ // No update should occur after current list
             next: unexpected,
             error: unexpected,
             complete: unexpected
@@ -479,7 +874,19 @@ describe('RptlProtocolService', () => {
           // This message is broadcast to every actor, so client actor is notified about its own registration, then it should ignore it
           mockedWsConnection.fromServer('  LOGGED_IN   42 ThisALV');
 
-          expect().nothing(); // Command should be ignored, nothing should happen
+          // Command should be ignored, nothing should happen
+          expect(actorEvents).toHaveSize(0);
+          expect(anomalies).toHaveSize(0); // Expected message, not an anomaly
+        });
+
+        it('should terminate session if actor UID is not an unsigned integer', () => {
+          mockedWsConnection.fromServer('LOGGED_IN abc Bob');
+
+          expect(service.isSessionRunning()).toBeFalse();
+          expect(mockedWsConnection.closureReason).toEqual({
+            code: 1011, reason: 'LOGGED_IN at 10: Bad value "abc" for argument uid: Expected an unsigned integer UID'
+          });
+          expect(actorEvents).toHaveSize(0);
         });
       });
 
@@ -497,6 +904,23 @@ describe('RptlProtocolService', () => {
           expect(actorsList).toBeDefined(); // Actors list should have been updated
           // Checks for list content
           expectToContainExactly(actorsList as Actor[], new Actor(42, 'ThisALV'));
+          // Checks for actor event to have been emitted with logged out actor data
+          expect(actorEvents).toEqual([new ActorEvent(ActorEventType.LEFT, new Actor(0, 'Redox'), 0)]);
+          expect(service.hasActor(0)).toBeFalse();
+        });
+
+        it('should report an anomaly and not update list if actor is not connected', () => {
+          service.getActors().pipe(skip(1)).subscribe({ // No update should occur after current list
+            next: unexpected,
+            error: unexpected,
+            complete: unexpected
+          });
+
+          mockedWsConnection.fromServer('LOGGED_OUT 8'); // Nobody is connected with UID 8
+
+          expect(service.isSessionRunning()).toBeTrue(); // Not a fatal error
+          expect(anomalies).toEqual([new ProtocolAnomaly('LOGGED_OUT 8', 'No connected actor with UID 8')]);
+          expect(actorEvents).toHaveSize(0);
         });
       });
     });
@@ -508,7 +932,7 @@ describe('RptlProtocolService', () => {
         it('should push new server status into observable', () => {
           let serverStatus: Availability | undefined;
           service.getStatus().subscribe({ // Expect for a new status to be pushed, listen before status update actually happens
-            next: (newStatus: Availability) => serverStatus = newStatus,
+            next: (newStatus: Availability | undefined) => serverStatus = newStatus,
             error: unexpected,
             complete: unexpected
           });
@@ -517,21 +941,37 @@ describe('RptlProtocolService', () => {
 
           expect(serverStatus).toEqual(new Availability(4, 5)); // Checks for correct status to have been assigned
         });
+
+        it('should terminate session if actors count is negative', () => {
+          mockedWsConnection.fromServer('AVAILABILITY -1 5');
+
+          expect(service.isSessionRunning()).toBeFalse();
+        });
       });
 
       describe('REGISTRATION', () => {
-        it('should notify new state, add all received actors to list and complete status observable', () => {
-          const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.REGISTERED);
+        it('should terminate session if an actor name is missing', () => {
+          mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0');
 
-          let statusCompleted = false;
-          service.getStatus().subscribe({ // Expect observable to be completed() as RPTL mode will be set to registered
-            next: unexpected,
-            error: unexpected,
-            complete: () => statusCompleted = true
+          expect(service.isSessionRunning()).toBeFalse();
+          expect(mockedWsConnection.closureReason).toEqual({
+            code: 1011, reason: 'REGISTRATION at 25: Not enough arguments to parse: expected 2, got 1, missing actors[1].name'
           });
+        });
+
+        it('should notify new state, add all received actors to list and forget about status', () => {
+          const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.REGISTERED);
 
+          mockedWsConnection.fromServer('AVAILABILITY 2 5');
           mockedWsConnection.fromServer('  REGISTRATION  42 ThisALV   0  Redox 8   Lait2Vache  ');
 
+          let serverStatus: Availability | undefined;
+          service.getStatus().subscribe({ // Expect status to be unknown as RPTL mode is set to registered
+            next: (newStatus: Availability | undefined) => serverStatus = newStatus,
+            error: unexpected,
+            complete: unexpected
+          });
+
           let actorsList: Actor[] | undefined;
           service.getActors().subscribe({ // Expect actors list to contain all actors provided inside command arguments
             next: (updatedList: Actor[]) => actorsList = updatedList,
@@ -539,10 +979,8 @@ describe('RptlProtocolService', () => {
             complete: unexpected
           });
 
-          service.updateActorsSubscribable(); // Actors list must have a value
-
           expect(service.isRegistered()).toBeTrue(); // Checks for current RPTL mode
-          expect(statusCompleted).toBeTrue(); // Checks for unregistered-only observables to have completed
+          expect(serverStatus).toBeUndefined(); // Checks for unregistered-only status to be unknown
           expect(actorsList).toBeDefined(); // Value must have been pushed
           // Checks for list content
           expectToContainExactly(actorsList as Actor[],
@@ -552,7 +990,563 @@ describe('RptlProtocolService', () => {
           // REGISTRATION command is actually confirming client registration, registered mode entered
           expect(hasNotifiedState.value).toBeTrue();
         });
+
+        it('should emit an initial snapshot event for each connected actor', () => {
+          const actorEvents: ActorEvent[] = [];
+          service.getActorEvents().subscribe({
+            next: (event: ActorEvent) => actorEvents.push(event),
+            error: unexpected,
+            complete: unexpected
+          });
+
+          mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox');
+
+          expect(actorEvents).toEqual([
+            new ActorEvent(ActorEventType.INITIAL_SNAPSHOT, new Actor(42, 'ThisALV'), 0),
+            new ActorEvent(ActorEventType.INITIAL_SNAPSHOT, new Actor(0, 'Redox'), 0)
+          ]);
+        });
+
+        it('should report an anomaly and keep first actor if an UID is listed twice', () => {
+          let anomaly: ProtocolAnomaly | undefined;
+          service.getAnomalies().subscribe({
+            next: (reportedAnomaly: ProtocolAnomaly) => anomaly = reportedAnomaly,
+            error: unexpected,
+            complete: unexpected
+          });
+
+          mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox 0 Redox2');
+
+          expect(anomaly).toEqual(new ProtocolAnomaly('REGISTRATION 42 ThisALV 0 Redox 0 Redox2', 'Actor with UID 0 is listed twice'));
+          expect(service.getActorByUid(0)).toEqual(new Actor(0, 'Redox'));
+        });
       });
     });
   });
+
+  describe('Custom command handlers', () => {
+    beforeEach(() => service.beginSession(mockedWsConnection));
+
+    it('should call handler with command arguments and allow replies', () => {
+      service.registerCommandHandler('PING', CommandMode.BOTH, (parsedCommand: CommandParser, reply: (rptlMessage: string) => void) => {
+        reply(`PONG ${parsedCommand.unparsed}`);
+      });
+
+      mockedWsConnection.fromServer('PING 1');
+      mockRegistration();
+      mockedWsConnection.fromServer('PING 2');
+
+      expect(mockedWsConnection.nextMessage()).toEqual('PONG 1');
+      expect(mockedWsConnection.nextMessage()).toEqual('LOGIN 42 ThisALV');
+      expect(mockedWsConnection.nextMessage()).toEqual('PONG 2');
+    });
+
+    it('should only call handler into given mode', () => {
+      service.registerCommandHandler('PING', CommandMode.REGISTERED, () => {});
+
+      mockedWsConnection.fromServer('PING');
+
+      expect(mockedWsConnection.closureReason).toEqual({ code: 1011, reason: 'Unavailable command: PING' });
+    });
+
+    it('should close session if handler throws', () => {
+      service.registerCommandHandler('PING', CommandMode.BOTH, () => {
+        throw new Error('Bad ping');
+      });
+
+      mockedWsConnection.fromServer('PING');
+
+      expect(mockedWsConnection.closureReason).toEqual({ code: 1011, reason: 'Bad ping' });
+    });
+
+    it('should throw if command is built-in', () => {
+      expect(() => service.registerCommandHandler('SERVICE', CommandMode.REGISTERED, () => {})).toThrowError(UnavailableCommandName);
+      expect(() => service.unregisterCommandHandler('SERVICE')).toThrowError(BuiltInCommand);
+    });
+
+    it('should unregister custom handler for a command name built-in into another mode only', () => {
+      service.registerCommandHandler('SERVICE', CommandMode.UNREGISTERED, unexpected);
+
+      expect(() => service.unregisterCommandHandler('SERVICE', CommandMode.REGISTERED)).toThrowError(BuiltInCommand);
+      expect(service.unregisterCommandHandler('SERVICE', CommandMode.UNREGISTERED)).toBeTrue();
+      service.setUnknownCommandPolicy(UnknownCommandPolicy.IGNORE);
+      mockedWsConnection.fromServer('SERVICE EVENT Chat'); // Unregistered mode, handler should no longer be called
+    });
+
+    it('should no longer call unregistered handler', () => {
+      service.registerCommandHandler('PING', CommandMode.BOTH, unexpected);
+
+      expect(service.unregisterCommandHandler('PING')).toBeTrue();
+      service.setUnknownCommandPolicy(UnknownCommandPolicy.IGNORE);
+      mockedWsConnection.fromServer('PING');
+    });
+
+    describe('Unknown commands policy', () => {
+      let unhandledCommands: UnhandledCommand[];
+
+      beforeEach(() => {
+        unhandledCommands = [];
+        service.getUnhandledCommands().subscribe({
+          next: (command: UnhandledCommand) => unhandledCommands.push(command),
+          error: unexpected,
+          complete: unexpected
+        });
+      });
+
+      it('should close session by default', () => {
+        mockedWsConnection.fromServer('UNKNOWN a b');
+
+        expect(service.isSessionRunning()).toBeFalse();
+        expect(unhandledCommands).toEqual([]);
+      });
+
+      it('should ignore command', () => {
+        service.setUnknownCommandPolicy(UnknownCommandPolicy.IGNORE);
+        mockedWsConnection.fromServer('UNKNOWN a b');
+
+        expect(service.isSessionRunning()).toBeTrue();
+        expect(unhandledCommands).toEqual([]);
+      });
+
+      it('should emit ignored command', () => {
+        service.setUnknownCommandPolicy(UnknownCommandPolicy.EMIT);
+        mockedWsConnection.fromServer('UNKNOWN a b');
+        mockRegistration();
+        mockedWsConnection.fromServer('AVAILABILITY 1 2'); // Unregistered-only command
+
+        expect(service.isSessionRunning()).toBeTrue();
+        expect(unhandledCommands).toEqual([
+          new UnhandledCommand('UNKNOWN a b', 'UNKNOWN', false), new UnhandledCommand('AVAILABILITY 1 2', 'AVAILABILITY', true)
+        ]);
+      });
+    });
+  });
+
+  describe('getSessionEnds()', () => {
+    let sessionEnds: SessionEnd[];
+
+    beforeEach(() => {
+      sessionEnds = [];
+      service.getSessionEnds().subscribe({
+        next: (sessionEnd: SessionEnd) => sessionEnds.push(sessionEnd),
+        error: unexpected,
+        complete: unexpected
+      });
+
+      service.beginSession(mockedWsConnection);
+    });
+
+    it('should notify about client logout with session duration and last state', () => {
+      mockRegistration();
+      runUntil(1000);
+
+      service.endSession();
+      expect(sessionEnds).toEqual([]); // Waiting for server to close connection
+
+      mockedWsConnection.closeFromServer();
+      expect(sessionEnds).toEqual([new SessionEnd(SessionEndCause.CLIENT_LOGOUT, 1000, RptlState.REGISTERED)]);
+    });
+
+    it('should notify about client closing unregistered session', () => {
+      service.endSession();
+
+      expect(sessionEnds).toEqual([new SessionEnd(SessionEndCause.CLIENT_LOGOUT, 0, RptlState.UNREGISTERED)]);
+    });
+
+    it('should notify about server interrupt with its reason', () => {
+      mockRegistration();
+      mockedWsConnection.fromServer('INTERRUPT Kicked by admin');
+      mockedWsConnection.closeFromServer();
+
+      expect(sessionEnds).toEqual([
+        new SessionEnd(SessionEndCause.SERVER_INTERRUPT, 0, RptlState.REGISTERED, 'Kicked by admin')
+      ]);
+    });
+
+    it('should notify about protocol error with offending message', () => {
+      mockedWsConnection.fromServer('SERVICE command');
+
+      expect(sessionEnds).toEqual([new SessionEnd(
+        SessionEndCause.PROTOCOL_ERROR, 0, RptlState.UNREGISTERED, 'Unavailable command: SERVICE', 1011, 'SERVICE command'
+      )]);
+    });
+
+    it('should notify about connection closed by server without interrupt', () => {
+      mockedWsConnection.closeFromServer();
+
+      expect(sessionEnds).toEqual([new SessionEnd(SessionEndCause.TRANSPORT_ERROR, 0, RptlState.UNREGISTERED)]);
+    });
+
+    it('should notify about transport error with close code', () => {
+      service.endSession();
+      const droppedConnection: Subject<string> = new Subject<string>();
+      service.beginSession(droppedConnection);
+
+      droppedConnection.error({ message: 'Abnormal closure', code: 1006 });
+
+      expect(sessionEnds[1]).toEqual(new SessionEnd(SessionEndCause.TRANSPORT_ERROR, 0, RptlState.UNREGISTERED, 'Abnormal closure', 1006));
+    });
+
+    it('should notify about heartbeat timeout', () => {
+      service.endSession();
+      service.enableHeartbeat({ probeInterval: 100, idleThreshold: 250, timeout: 500 });
+      service.beginSession(new MockedWebsocketSubject());
+
+      runUntil(500);
+
+      expect(sessionEnds[1]).toEqual(new SessionEnd(SessionEndCause.TIMEOUT, 500, RptlState.UNREGISTERED, 'Heartbeat timeout', 4000));
+    });
+
+    it('should be notified after state update', () => {
+      let stateAtEnd: RptlState | undefined;
+      service.getSessionEnds().subscribe({
+        next: () => service.getState().subscribe({ next: (state: RptlState) => stateAtEnd = state }).unsubscribe()
+      });
+
+      mockedWsConnection.closeFromServer();
+
+      expect(stateAtEnd).toEqual(RptlState.DISCONNECTED);
+    });
+  });
+
+  describe('Logging', () => {
+    it('should log sent and received messages with current session number', () => {
+      service.beginSession(mockedWsConnection);
+      mockRegistration();
+
+      expect(logger.entriesAt(LogLevel.DEBUG)).toEqual([
+        new LogEntry(LogLevel.DEBUG, 'Message sent', {
+          direction: MessageDirection.SENT, rptlMessage: 'LOGIN 42 ThisALV', rptlCommand: 'LOGIN', sessionId: 1
+        }),
+        new LogEntry(LogLevel.DEBUG, 'Message received', {
+          direction: MessageDirection.RECEIVED, rptlMessage: 'REGISTRATION 42 ThisALV 0 Redox', rptlCommand: 'REGISTRATION', sessionId: 1
+        })
+      ]);
+    });
+
+    it('should number each session', () => {
+      service.beginSession(mockedWsConnection);
+      mockedWsConnection.closeFromServer();
+      service.beginSession(new MockedWebsocketSubject());
+      service.endSession();
+
+      expect(logger.entriesAt(LogLevel.INFO)).toEqual([
+        new LogEntry(LogLevel.INFO, 'Session end', { sessionId: 1 }), new LogEntry(LogLevel.INFO, 'Session end', { sessionId: 2 })
+      ]);
+    });
+
+    it('should log message handling failures', () => {
+      service.beginSession(mockedWsConnection);
+      mockedWsConnection.fromServer('UNKNOWN');
+
+      expect(logger.entriesAt(LogLevel.ERROR)).toEqual([new LogEntry(LogLevel.ERROR, 'Message handling failed', {
+        rptlMessage: 'UNKNOWN', error: 'Unavailable command: UNKNOWN', sessionId: 1
+      })]);
+    });
+  });
+
+  describe('Reconnection', () => {
+    let openedConnections: MockedWebsocketSubject[]; // Every connection opened by factory, in opening order
+    let attempts: ReconnectionAttempt[]; // Every scheduled reconnection attempt
+
+    beforeEach(() => {
+      openedConnections = [];
+      attempts = [];
+
+      service.enableReconnection(() => { // Each attempt opens a new mocked connection, saved to mock server-side behavior
+        const connection: MockedWebsocketSubject = new MockedWebsocketSubject();
+        openedConnections.push(connection);
+
+        return connection;
+      }, { initialDelay: 100, multiplier: 2, maxDelay: 300, jitter: 0, maxAttempts: 3 });
+
+      service.getReconnectionAttempts().subscribe({
+        next: (attempt: ReconnectionAttempt) => attempts.push(attempt),
+        error: unexpected,
+        complete: unexpected
+      });
+
+      service.beginSession(mockedWsConnection);
+    });
+
+    it('should switch to reconnecting state and reopen connection after delay when transport drops', () => {
+      const states: RptlState[] = [];
+      nextStates().subscribe({ // Checks for every state switch during reconnection
+        next: (newState: RptlState) => states.push(newState),
+        error: unexpected,
+        complete: unexpected
+      });
+
+      mockedWsConnection.closeFromServer(); // Transport drop, neither client nor server asked for it
+
+      expect(states).toEqual([RptlState.RECONNECTING]);
+      expect(service.isSessionRunning()).toBeFalse();
+      expect(service.isReconnecting()).toBeTrue();
+      expect(attempts).toEqual([new ReconnectionAttempt(1, 100)]);
+
+      runUntil(99); // Too early for attempt
+      expect(openedConnections).toHaveSize(0);
+
+      runUntil(100);
+      expect(openedConnections).toHaveSize(1);
+      expect(service.isSessionRunning()).toBeTrue(); // Session should run on reopened connection
+      expect(service.isReconnecting()).toBeFalse();
+      expect(states).toEqual([RptlState.RECONNECTING, RptlState.UNREGISTERED]);
+    });
+
+    it('should register again with previous actor after reconnecting', () => {
+      mockRegistration();
+      mockedWsConnection.closeFromServer();
+
+      runUntil(100);
+      expect(openedConnections[0].nextMessage()).toEqual('LOGIN 42 ThisALV'); // Previous actor registered again
+
+      openedConnections[0].fromServer('REGISTRATION 42 ThisALV 0 Redox');
+      expect(service.isRegistered()).toBeTrue();
+      expect(service.getSelf()).toEqual(new Actor(42, 'ThisALV'));
+    });
+
+    it('should close reopened connection and try again if server does not reply to registration', () => {
+      mockRegistration();
+      mockedWsConnection.closeFromServer();
+
+      runUntil(100);
+      expect(openedConnections[0].nextMessage()).toEqual('LOGIN 42 ThisALV');
+
+      runUntil(100 + DEFAULT_REGISTRATION_TIMEOUT); // Server never replies
+      expect(openedConnections[0].closureReason).toEqual({ code: REGISTRATION_TIMEOUT_CODE, reason: 'Registration timeout' });
+      expect(service.isReconnecting()).toBeTrue();
+      expect(attempts).toEqual([new ReconnectionAttempt(1, 100), new ReconnectionAttempt(2, 200)]);
+
+      runUntil(300 + DEFAULT_REGISTRATION_TIMEOUT);
+      expect(openedConnections[1].nextMessage()).toEqual('LOGIN 42 ThisALV'); // Same actor registered again
+    });
+
+    it('should notify about attempt before switching to reconnecting state', () => {
+      const attemptsWhenReconnecting: ReconnectionAttempt[] = [];
+      nextStates().subscribe((newState: RptlState) => {
+        if (newState === RptlState.RECONNECTING) { // Attempt data for that state is already known
+          attemptsWhenReconnecting.push(attempts[attempts.length - 1]);
+        }
+      });
+
+      mockedWsConnection.closeFromServer();
+      runUntil(100);
+      openedConnections[0].closeFromServer();
+
+      expect(attemptsWhenReconnecting).toEqual([new ReconnectionAttempt(1, 100), new ReconnectionAttempt(2, 200)]);
+    });
+
+    it('should register again at next attempt if reopened connection is closed right away', () => {
+      const reopenedConnections: MockedWebsocketSubject[] = [new MockedWebsocketSubject(), new MockedWebsocketSubject()];
+      service.enableReconnection(() => reopenedConnections[attempts.length - 1], { initialDelay: 100, jitter: 0 });
+      mockRegistration();
+      mockedWsConnection.closeFromServer();
+
+      nextStates().subscribe((newState: RptlState) => { // 1st reopened connection dropped as soon as session is notified to run
+        if (newState === RptlState.UNREGISTERED && !reopenedConnections[0].isStopped) {
+          reopenedConnections[0].closeFromServer();
+        }
+      });
+
+      runUntil(100); // 1st attempt closed while opening, should not try to register
+      expect(service.isReconnecting()).toBeTrue();
+
+      runUntil(300); // 2nd attempt after 200 ms
+      expect(reopenedConnections[1].nextMessage()).toEqual('LOGIN 42 ThisALV');
+    });
+
+    it('should increase delay for each failed attempt and give up when max attempts is reached', () => {
+      mockedWsConnection.closeFromServer();
+
+      runUntil(100);
+      openedConnections[0].closeFromServer(); // 1st attempt dropped before server sent anything
+      runUntil(300); // 2nd attempt after 200 ms
+      openedConnections[1].closeFromServer();
+      runUntil(600); // 3rd attempt after 300 ms because of max delay
+
+      const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.DISCONNECTED);
+      openedConnections[2].closeFromServer(); // Last allowed attempt failed
+
+      expect(attempts).toEqual([new ReconnectionAttempt(1, 100), new ReconnectionAttempt(2, 200), new ReconnectionAttempt(3, 300)]);
+      expect(hasNotifiedState.value).toBeTrue();
+      expect(service.isReconnecting()).toBeFalse();
+    });
+
+    it('should reset attempts count as soon as server sends a message', () => {
+      mockedWsConnection.closeFromServer();
+
+      runUntil(100);
+      openedConnections[0].fromServer('AVAILABILITY 1 2'); // Server is reachable again
+      openedConnections[0].closeFromServer();
+
+      expect(attempts).toEqual([new ReconnectionAttempt(1, 100), new ReconnectionAttempt(1, 100)]);
+    });
+
+    it('should not reconnect after client logout', () => {
+      mockRegistration();
+      service.endSession();
+
+      const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.DISCONNECTED);
+      mockedWsConnection.fromServer('INTERRUPT');
+      mockedWsConnection.closeFromServer();
+
+      expect(hasNotifiedState.value).toBeTrue();
+      expect(service.isReconnecting()).toBeFalse();
+      expect(attempts).toHaveSize(0);
+    });
+
+    it('should not reconnect after server interruption', () => {
+      mockRegistration();
+
+      mockedWsConnection.fromServer('INTERRUPT Kicked');
+      mockedWsConnection.closeFromServer();
+
+      expect(service.isReconnecting()).toBeFalse();
+      expect(attempts).toHaveSize(0);
+    });
+
+    it('should not reconnect after a protocol error', () => {
+      mockedWsConnection.fromServer('UNKNOWN_COMMAND');
+
+      expect(service.isSessionRunning()).toBeFalse();
+      expect(service.isReconnecting()).toBeFalse();
+    });
+
+    it('should cancel scheduled attempt when disabled', () => {
+      mockedWsConnection.closeFromServer();
+
+      const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.DISCONNECTED);
+      service.disableReconnection();
+      runUntil(1000);
+
+      expect(hasNotifiedState.value).toBeTrue();
+      expect(openedConnections).toHaveSize(0);
+    });
+
+    it('should reopen connections to same URL using connectionTo()', () => {
+      service.enableReconnection(service.connectionTo('ws://localhost:35555'), { initialDelay: 100, jitter: 0 });
+      mockedWsConnection.closeFromServer();
+
+      runUntil(100);
+      expect(connectionFactory.openedConnections).toHaveSize(1);
+      expect(connectionFactory.lastConnection().url).toEqual('ws://localhost:35555');
+      expect(service.isSessionRunning()).toBeTrue();
+    });
+
+    it('should cancel scheduled attempt when a session is begun by user', () => {
+      mockedWsConnection.closeFromServer();
+
+      service.beginSession(new MockedWebsocketSubject());
+      runUntil(1000);
+
+      expect(service.isReconnecting()).toBeFalse();
+      expect(openedConnections).toHaveSize(0);
+    });
+  });
+
+  describe('Heartbeat', () => {
+    /**
+     * Expects every message sent by client to be equal to given messages, in the same order.
+     *
+     * @param connection Connection to check for sent messages
+     * @param expectedMessages Expected messages, in sending order
+     */
+    function expectSentMessages(connection: MockedWebsocketSubject, ...expectedMessages: string[]): void {
+      for (const message of expectedMessages) {
+        expect(connection.nextMessage()).toEqual(message);
+      }
+
+      expect(() => connection.nextMessage()).toThrowError(Error); // No more messages expected
+    }
+
+    beforeEach(() => {
+      // Checked every 100 ms, probed after 250 ms without messages, closed after 500 ms without messages
+      service.enableHeartbeat({ probeInterval: 100, idleThreshold: 250, timeout: 500, pingCommand: 'PING' });
+      service.beginSession(mockedWsConnection);
+    });
+
+    it('should probe server with checkout command when idle into unregistered mode', () => {
+      runUntil(200);
+      expectSentMessages(mockedWsConnection); // Not idle yet
+
+      runUntil(400);
+      expectSentMessages(mockedWsConnection, 'CHECKOUT', 'CHECKOUT');
+      expect(service.isSessionRunning()).toBeTrue();
+    });
+
+    it('should probe server with ping command when idle into registered mode', () => {
+      mockRegistration();
+      mockedWsConnection.nextMessage(); // Ignores LOGIN command
+
+      runUntil(300);
+      expectSentMessages(mockedWsConnection, 'PING');
+    });
+
+    it('should not probe server into registered mode without ping command', () => {
+      service.enableHeartbeat({ probeInterval: 100, idleThreshold: 250, timeout: 500 });
+      mockRegistration();
+      mockedWsConnection.nextMessage(); // Ignores LOGIN command
+
+      runUntil(400);
+      expectSentMessages(mockedWsConnection);
+    });
+
+    it('should not close idle session into registered mode without ping command', () => {
+      service.enableHeartbeat({ probeInterval: 100, idleThreshold: 250, timeout: 500 });
+      mockRegistration();
+      mockedWsConnection.nextMessage(); // Ignores LOGIN command
+
+      runUntil(1000); // Way past timeout, but server couldn't have been probed
+      expect(service.isSessionRunning()).toBeTrue();
+      expectSentMessages(mockedWsConnection);
+    });
+
+    it('should not close session as long as server sends messages', () => {
+      for (let time = 200; time <= 1000; time += 200) { // Server sends something every 200 ms
+        runUntil(time);
+        mockedWsConnection.fromServer('AVAILABILITY 0 2');
+      }
+
+      expect(service.isSessionRunning()).toBeTrue();
+      expectSentMessages(mockedWsConnection); // Never idle long enough to be probed
+    });
+
+    it('should close session with timeout reason if server does not send anything', () => {
+      mockRegistration(); // SER Protocol subject is available to check for session error
+
+      let sessionError: { message: string } | undefined;
+      service.getSerProtocol().subscribe({ // Session should be cleared with an error
+        next: unexpected,
+        error: (err: any) => sessionError = err,
+        complete: unexpected
+      });
+
+      const hasNotifiedState: SharedBoolean = expectStateToBeUpdated(RptlState.DISCONNECTED);
+      runUntil(500);
+
+      expect(service.isSessionRunning()).toBeFalse();
+      expect(hasNotifiedState.value).toBeTrue();
+      expect(mockedWsConnection.closureReason).toEqual({ code: HEARTBEAT_TIMEOUT_CODE, reason: 'Heartbeat timeout' });
+      expect(sessionError).toEqual({ message: 'Heartbeat timeout' });
+    });
+
+    it('should try to reconnect after timeout if reconnection is enabled', () => {
+      service.enableReconnection(() => new MockedWebsocketSubject(), { initialDelay: 100, jitter: 0 });
+
+      runUntil(500);
+      expect(service.isReconnecting()).toBeTrue();
+
+      runUntil(600);
+      expect(service.isSessionRunning()).toBeTrue();
+    });
+
+    it('should stop checking connection when disabled', () => {
+      service.disableHeartbeat();
+      runUntil(1000);
+
+      expect(service.isSessionRunning()).toBeTrue();
+      expectSentMessages(mockedWsConnection);
+    });
+  });
 });
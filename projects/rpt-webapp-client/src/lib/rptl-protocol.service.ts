@@ -1,9 +1,42 @@
-import { Injectable } from '@angular/core';
-import { Observable, Subject } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { AsyncSubject, BehaviorSubject, interval, Observable, SchedulerLike, Subject, Subscription } from 'rxjs';
+import { takeWhile } from 'rxjs/operators';
 import { Actor } from './actor';
 import { Availability } from './availability';
-import { ArgumentScheme, CommandParser } from './command-parser';
+import { ArgumentScheme, CommandParser, ParsedArguments } from './command-parser';
+import { BadCommand, CommandDiagnostic, CommandGrammar } from './protocol-grammar';
+import {
+  AVAILABILITY_COMMAND,
+  INTERRUPT_COMMAND,
+  LOGGED_IN_COMMAND,
+  LOGGED_OUT_COMMAND,
+  REGISTRATION_COMMAND,
+  SERVICE_COMMAND
+} from './rptl-grammar';
+import { CommandBuilder } from './command-builder';
 import { SerProtocolSubject } from './ser-protocol-subject';
+import { RPT_SCHEDULER } from './rpt-scheduler';
+import {
+  computeReconnectionDelay,
+  ConnectionFactory,
+  makeReconnectionPolicy,
+  ReconnectionAttempt,
+  ReconnectionPolicy
+} from './reconnection-policy';
+import {
+  ConnectionEvent,
+  ConnectionEventType,
+  RPTL_CONNECTION_FACTORY,
+  RptlConnection,
+  RptlConnectionFactory,
+  RptlConnectionOptions
+} from './rptl-connection-factory';
+import { HEARTBEAT_TIMEOUT_CODE, HeartbeatConfig, makeHeartbeatConfig } from './heartbeat-config';
+import { ActorEvent, ActorEventType } from './actor-event';
+import { MessageDirection, RPT_LOGGER, RptLogger, rptlCommandOf } from './rpt-logger';
+import { SessionRecorder } from './session-recorder';
+import { SessionEnd, SessionEndCause } from './session-end';
+import { CommandHandler, CommandMode, RptlCommandRegistry, UnhandledCommand, UnknownCommandPolicy } from './rptl-command-registry';
 
 
 /**
@@ -51,31 +84,114 @@ export class BadConnectionSubject extends Error {
 export class BadServerMessage extends Error {
   /**
    * @param reason Error explaining why message was ill-formed by server
+   * @param diagnostic Where and why message doesn't match RPTL grammar, if it is the case
    */
-  constructor(reason: string) {
+  constructor(reason: string, readonly diagnostic?: CommandDiagnostic) {
     super(reason);
   }
 }
 
 
-// Provides handler for a specific command invoked by server
-type Handler = (parsedCommand: CommandParser) => void;
-// Provides available commands and their handler for a specific RPTL Protocol mode
-type CommandHandlers = { [command: string]: Handler };
+/**
+ * Thrown by `RptlProtocolService:unregisterCommandHandler()` if given command is implemented by the service itself.
+ */
+export class BuiltInCommand extends Error {
+  /**
+   * @param command Name of built-in command
+   */
+  constructor(command: string) {
+    super(`Command ${command} is built-in, it cannot be unregistered`);
+  }
+}
+
+
+/**
+ * Error for the observable returned by `RptlProtocolService:register()` if server didn't accept registration.
+ */
+export class RegistrationRejected extends Error {
+  /**
+   * @param reason Message explaining why registration failed, provided by server if any
+   */
+  constructor(readonly reason: string) {
+    super(`Registration rejected: ${reason}`);
+  }
+}
+
+
+/**
+ * Error for the observable returned by `RptlProtocolService:register()` if server didn't reply in time.
+ */
+export class RegistrationTimeout extends RegistrationRejected {
+  /**
+   * @param timeout Time in ms client waited for server reply
+   */
+  constructor(timeout: number) {
+    super(`No reply after ${timeout} ms`);
+  }
+}
+
+
+/**
+ * Thrown by `RptlProtocolService:register()` if another registration is still waiting for server reply.
+ */
+export class RegistrationPending extends Error {
+  constructor() {
+    super('A registration is already waiting for server reply');
+  }
+}
+
+
+/**
+ * Unexpected but non-fatal RPTL message received from server, which has been ignored.
+ */
+export class ProtocolAnomaly {
+  /**
+   * @param rptlMessage Received message which has been ignored
+   * @param reason Message explaining why received message was unexpected
+   */
+  constructor(readonly rptlMessage: string, readonly reason: string) {}
+}
+
+
+// Registration sent to server and still waiting for its reply
+type PendingRegistration = { actor: Actor, result: AsyncSubject<Actor[]>, timeout?: Subscription };
+
+
+// Why current session is ending, with data to provide inside `SessionEnd`
+type EndCause = { cause: SessionEndCause, reason?: string, code?: number, rptlMessage?: string };
 
 
 // Websocket reason code for RPTL protocol related errors
 const WS_INTERNAL_ERROR = 1011;
 
+// Session ended on purpose by client or server, reconnecting would not make sense
+const REQUESTED_END_CAUSES: SessionEndCause[] = [
+  SessionEndCause.CLIENT_LOGOUT, SessionEndCause.SERVER_INTERRUPT, SessionEndCause.PROTOCOL_ERROR
+];
+
+
+/**
+ * Time in ms `RptlProtocolService:register()` waits for server reply by default.
+ */
+export const DEFAULT_REGISTRATION_TIMEOUT = 10000;
+
+
+/**
+ * WebSocket close code used by client when it closes a session because server didn't reply to registration in time.
+ */
+export const REGISTRATION_TIMEOUT_CODE = 4001;
+
 
 /**
  * Values notifying `RptlProtocolService` state observers about its current state:
  * - `DISCONNECTED`: Session isn't running, not connected to any server
  * - `UNREGISTERED`: Session is running, connected to a server but client isn't registered as an actor
  * - `REGISTERED`: Session is running, connected to a server with client registered as an actor
+ * - `RECONNECTING`: Session isn't running because transport dropped, a reconnection attempt is scheduled. Attempt number and delay
+ *   aren't carried by state, they are notified by `RptlProtocolService:getReconnectionAttempts()` right before this state is pushed
  */
 export enum RptlState {
-  DISCONNECTED, UNREGISTERED, REGISTERED
+  DISCONNECTED, UNREGISTERED, REGISTERED, RECONNECTING
 }
 
 
@@ -88,7 +204,33 @@ export enum RptlState {
  * - SER Protocol commands if registered
  * - Server availability if unregistered
  *
- * Provides access to registered actor data, if any, using `getActor()` method.
+ * State, actors and availability observables are available for the whole service lifetime, across sessions. They provide their current
+ * value at subscription, actors list being empty and availability being `undefined` when they're irrelevant for current state.
+ *
+ * Provides access to registered actor data, if any, using `getActor()` method, and to other actors data using `getActorByUid()`.
+ *
+ * Registration with `register()` returns an observable resolved with already connected actors once server confirmed it, or rejected with
+ * `RegistrationRejected` if server refused it, if connection closed or if server didn't reply in time.
+ *
+ * Provides an `ActorEvent` observable for each actor joining or leaving, and a `ProtocolAnomaly` observable for unexpected but
+ * non-fatal server messages like an already connected actor logging in again.
+ *
+ * Sent and received messages and session failures are written into injected `RPT_LOGGER` as structured entries.
+ *
+ * Each session end is notified with its cause (logout, server interrupt, protocol or transport error, timeout) by `getSessionEnds()`.
+ *
+ * Traffic of each session can be recorded with a `SessionRecorder` given to `setRecorder()`, then replayed offline with a
+ * `SessionReplayer`.
+ *
+ * Server-side RPTL extensions can be handled with `registerCommandHandler()`, built-in commands being handled the same way. Commands
+ * without handler close session by default, this can be changed with `setUnknownCommandPolicy()`.
+ *
+ * If enabled with `enableReconnection()`, reopens a new connection with exponential backoff each time the transport drops, registering
+ * again with previous actor if session was registered. Session ended by client with `endSession()` or by server with `INTERRUPT` will
+ * never be reopened.
+ *
+ * If enabled with `enableHeartbeat()`, periodically checks for server to have sent something recently, probing it when connection is
+ * idle and closing session with a timeout reason if nothing is received for too long.
  *
  * @note SER commands observable is a subject to allow command sending
  *
@@ -98,54 +240,123 @@ export enum RptlState {
   providedIn: 'root'
 })
 export class RptlProtocolService {
-  // Handlers to call for eah command invoked by server on registered mode
-  private readonly registeredCommandHandlers: CommandHandlers;
-  // Same for unregistered mode
-  private readonly unregisteredCommandHandlers: CommandHandlers;
+  // Handlers to call for each command invoked by server, depending on RPTL mode
+  private readonly commandHandlers: RptlCommandRegistry;
+  // Notified for each command ignored because it has no handler, if unknown commands policy is to emit them
+  private readonly unhandledCommands: Subject<UnhandledCommand>;
+  // What to do when server invokes a command without handler
+  private unknownCommandPolicy: UnknownCommandPolicy;
   // Provided can observe current state to update their app (if some component should only be there inside registered mode for example)
-  private readonly currentState: Subject<RptlState>;
+  private readonly currentState: BehaviorSubject<RptlState>;
+  // Updatable list of connected actors, empty if not registered
+  private readonly actors: BehaviorSubject<Actor[]>;
+  // Same for connected actors by UID
+  private readonly actorsByUid: BehaviorSubject<ReadonlyMap<number, Actor>>;
+  // Notified each time an actor joins or leaves, or is already connected at registration
+  private readonly actorEvents: Subject<ActorEvent>;
+  // Notified each time an unexpected message is ignored
+  private readonly anomalies: Subject<ProtocolAnomaly>;
+  // Updatable data about server availability, if it is possible to connect or if server is full, undefined if unknown
+  private readonly availability: BehaviorSubject<Availability | undefined>;
 
   // RPTL protocol mode (registered/unregistered)
   private registeredMode: boolean;
-  // Current actor owned by this client
+  // Current actor owned by this client, only set once server confirmed registration
   private selfActor?: Actor;
-  // Updatable list of connected actors, initialized on registered mode
-  private actors?: Subject<Actor[]>;
-  // Current list of connected actors, provided to actors member each time it is updated
-  private lastActorsValue: Actor[];
-  // Updatable data about server availability, if it is possible to connect or if server is full
-  private availability?: Subject<Availability>;
+  // Actor sent with LOGIN command and result of that registration, if server hasn't replied yet
+  private pendingRegistration?: PendingRegistration;
+  // Currently connected actors by UID in login order, a copy is provided to actors members each time it is updated
+  private actorsRegistry: Map<number, Actor>;
   // Subject used to send and receive SER Protocol commands
   private serProtocol?: SerProtocolSubject;
   // Subject used to send and receive message with a (potentially mocked) server
   private messagingInterface: Subject<string>;
+  // RPTL message currently handled, so handlers can report it as an anomaly
+  private handledMessage: string;
+  // Set when client or server terminates session, so closure will not be handled as a transport drop, undefined otherwise
+  private endCause?: EndCause;
+  // Notified each time a session ends, with its cause
+  private readonly sessionEnds: Subject<SessionEnd>;
+  // Scheduler time at which current or last session began
+  private sessionBeginTime: number;
+  // Notified each time a reconnection attempt is scheduled
+  private readonly reconnectionAttempts: Subject<ReconnectionAttempt>;
+  // Events for every connection opened with injected connection factory
+  private readonly connectionEvents: Subject<ConnectionEvent>;
+  // Opens a new connection for each reconnection attempt, reconnection is disabled if undefined
+  private reconnectionFactory?: ConnectionFactory;
+  // How reconnection attempts are delayed and how many of them are allowed
+  private reconnectionPolicy: ReconnectionPolicy;
+  // Reconnection attempts since last transport drop, reset as soon as server sends a message on a reopened connection
+  private reconnectionAttempt: number;
+  // Next reconnection attempt, if any is scheduled
+  private pendingReconnection?: Subscription;
+  // Actor to register with again after reconnecting, if session was registered when transport dropped
+  private reconnectionActor?: Actor;
+  // How connection is checked to be alive, heartbeat is disabled if undefined
+  private heartbeatConfig?: HeartbeatConfig;
+  // Periodic connection check for running session, if heartbeat is enabled
+  private heartbeat?: Subscription;
+  // Scheduler time at which last RPTL message was received from server, or at which session began
+  private lastReceivedTime: number;
+  // Number of current or last session, added to each log entry
+  private sessionId: number;
+  // Taps connection of each new session so its traffic can be recorded, if any
+  private recorder?: SessionRecorder;
 
   /**
    * Constructs service not connected to any server as unregistered RPTL protocol mode.
+   *
+   * @param scheduler Scheduler used to delay reconnection attempts
+   * @param connectionsProvider Factory used to open connections from an URL
+   * @param logger Logger for sent and received messages and for session failures
    */
-  constructor() {
-    // Current state should be updated all along Angular Service lifetime
-    this.currentState = new Subject<RptlState>();
+  constructor(@Inject(RPT_SCHEDULER) private readonly scheduler: SchedulerLike,
+              @Inject(RPTL_CONNECTION_FACTORY) private readonly connectionsProvider: RptlConnectionFactory,
+              @Inject(RPT_LOGGER) private readonly logger: RptLogger) {
+    // Current state, actors and availability should be updated all along Angular Service lifetime
+    this.currentState = new BehaviorSubject<RptlState>(RptlState.DISCONNECTED);
+    this.actors = new BehaviorSubject<Actor[]>([]); // No actors without a registered session
+    this.actorsByUid = new BehaviorSubject<ReadonlyMap<number, Actor>>(new Map<number, Actor>());
+    this.actorEvents = new Subject<ActorEvent>();
+    this.anomalies = new Subject<ProtocolAnomaly>();
+    this.availability = new BehaviorSubject<Availability | undefined>(undefined); // Unknown without a running session
+    this.reconnectionAttempts = new Subject<ReconnectionAttempt>();
+    this.connectionEvents = new Subject<ConnectionEvent>();
+    this.unhandledCommands = new Subject<UnhandledCommand>();
+    this.unknownCommandPolicy = UnknownCommandPolicy.FATAL; // Unavailable command is a protocol error unless configured otherwise
+
+    this.sessionEnds = new Subject<SessionEnd>();
+    this.sessionBeginTime = this.scheduler.now();
+    this.reconnectionPolicy = makeReconnectionPolicy(); // Reconnection disabled at construction, but a policy is still required
+    this.reconnectionAttempt = 0;
+    this.lastReceivedTime = this.scheduler.now();
+    this.sessionId = 0; // First session will be numbered 1
 
     this.registeredMode = false;
     this.messagingInterface = new Subject<string>(); // Sending/receiving message when not connected doesn't do anything
+    this.handledMessage = '';
 
-    this.lastActorsValue = []; // Can be empty at initialization, doesn't matter because actors member isn't initialized yet
+    this.actorsRegistry = new Map<number, Actor>(); // No actors without a registered session
     this.messagingInterface.complete(); // No running session, no RPTL message to handle
 
-    // Initializes command handlers for each RPTL mode
-
-    this.registeredCommandHandlers = {
-      INTERRUPT: (parsedCommand: CommandParser) => this.handleInterruptCommand(parsedCommand),
-      SERVICE: (parsedCommand: CommandParser) => this.handleServiceCommand(parsedCommand),
-      LOGGED_IN: (parsedCommand: CommandParser) => this.handleLoggedInCommand(parsedCommand),
-      LOGGED_OUT: (parsedCommand: CommandParser) => this.handleLoggedOutCommand(parsedCommand)
-    };
-
-    this.unregisteredCommandHandlers = {
-      AVAILABILITY: (parsedCommand: CommandParser) => this.handleAvailabilityCommand(parsedCommand),
-      REGISTRATION: (parsedCommand: CommandParser) => this.handleRegistrationCommand(parsedCommand)
-    };
+    // Initializes built-in command handlers for each RPTL mode, custom ones will be registered the same way
+
+    this.commandHandlers = new RptlCommandRegistry();
+    // Each built-in command name and mode is declared by RPTL grammar
+    const builtInHandlers: [CommandGrammar, CommandHandler][] = [
+      // Server might interrupt session at any time, rejecting registration if client is unregistered
+      [INTERRUPT_COMMAND, (parsedCommand: CommandParser) => this.handleInterruptCommand(parsedCommand)],
+      [SERVICE_COMMAND, (parsedCommand: CommandParser) => this.handleServiceCommand(parsedCommand)],
+      [LOGGED_IN_COMMAND, (parsedCommand: CommandParser) => this.handleLoggedInCommand(parsedCommand)],
+      [LOGGED_OUT_COMMAND, (parsedCommand: CommandParser) => this.handleLoggedOutCommand(parsedCommand)],
+      [AVAILABILITY_COMMAND, (parsedCommand: CommandParser) => this.handleAvailabilityCommand(parsedCommand)],
+      [REGISTRATION_COMMAND, (parsedCommand: CommandParser) => this.handleRegistrationCommand(parsedCommand)]
+    ];
+
+    for (const [command, handler] of builtInHandlers) { // Built-in commands cannot be unregistered
+      this.commandHandlers.registerBuiltIn(command.name, command.mode, handler);
+    }
   }
 
   /**
@@ -157,7 +368,8 @@ export class RptlProtocolService {
     let state: RptlState;
 
     if (!this.isSessionRunning()) { // If session isn't running, then RPTL is neither registered nor unregistered as it hasn't begun
-      state = RptlState.DISCONNECTED;
+      // However, session might be reopened soon if a reconnection attempt is scheduled
+      state = this.isReconnecting() ? RptlState.RECONNECTING : RptlState.DISCONNECTED;
     } else if (!this.isRegistered()) { // If RPTL has begun, checks for RPTL current mode
       state = RptlState.UNREGISTERED;
     } else {
@@ -168,23 +380,292 @@ export class RptlProtocolService {
   }
 
   /**
-   * When connection is closed, completes/errors every subject depending on optional error argument
+   * Pushes a copy of current actors registry into actors observables, so previously pushed values are never modified.
+   *
+   * @private
+   */
+  private notifyActors(): void {
+    this.actors.next(Array.from(this.actorsRegistry.values()));
+    this.actorsByUid.next(new Map<number, Actor>(this.actorsRegistry));
+  }
+
+  /**
+   * Notifies actor events observers about something which has just happened to given actor.
+   *
+   * @param type What happened to actor
+   * @param actor Involved actor
+   * @private
+   */
+  private notifyActorEvent(type: ActorEventType, actor: Actor): void {
+    this.actorEvents.next(new ActorEvent(type, actor, this.scheduler.now()));
+  }
+
+  /**
+   * When connection is closed, completes/errors SER Protocol subject depending on optional error argument, then empties actors list and
+   * forgets about own actor and server availability.
    *
    * @param error Message for session end error cause, if any
    * @private
    */
   private clearSession(error?: string): void {
     if (error) { // If error occurred
-      const errorMessage = { message: error as string };
-
-      this.serProtocol?.error(errorMessage);
-      this.actors?.error(errorMessage);
-      this.availability?.error(errorMessage);
+      this.serProtocol?.error({ message: error as string });
     } else { // If terminated properly
       this.serProtocol?.complete();
-      this.actors?.complete();
-      this.availability?.complete();
     }
+
+    if (this.actorsRegistry.size !== 0) { // Avoid notifying observers about an unchanged empty list
+      this.actorsRegistry = new Map<number, Actor>(); // Actors didn't leave, so no event is emitted, they're just no longer known
+      this.notifyActors();
+    }
+
+    this.selfActor = undefined; // Own actor is only known for a registered session
+
+    if (this.availability.value !== undefined) {
+      this.availability.next(undefined);
+    }
+  }
+
+  /**
+   * Clears session when connection is closed, then schedules a reconnection attempt if enabled and if neither client nor server
+   * requested that session end. Session end observers are notified last.
+   *
+   * @param error Message for session end error cause, if any
+   * @param code WebSocket close code, if connection errored with a close event
+   * @private
+   */
+  private handleConnectionClosed(error?: string, code?: number): void {
+    // If neither client nor server terminated session, then connection was closed by itself
+    const endCause: EndCause = this.endCause ?? { cause: SessionEndCause.TRANSPORT_ERROR, reason: error, code };
+    // Client closed connection itself, SER and registration must error with that reason even if connection doesn't provide it
+    const closureError: string | undefined = endCause.cause === SessionEndCause.TIMEOUT ? endCause.reason : undefined;
+    const lastState: RptlState = this.currentState.value;
+    const lastSelfActor: Actor | undefined = this.selfActor; // Forgotten when session is cleared
+
+    this.stopHeartbeat(); // Nothing to check anymore
+    this.rejectRegistration(error ?? closureError ?? 'Connection closed'); // No reply can be received anymore
+    this.clearSession(error ?? closureError);
+
+    // Transport dropped, tries to reopen it
+    if (this.reconnectionFactory !== undefined && !REQUESTED_END_CAUSES.includes(endCause.cause)) {
+      if (this.registeredMode) { // Actor must be registered again inside next session, previous one if already reconnecting
+        this.reconnectionActor = lastSelfActor;
+      }
+
+      this.scheduleReconnection();
+    } else { // Session is over for good, no more attempts count to keep
+      this.reconnectionAttempt = 0;
+    }
+
+    this.notifyState(); // Any connection closure will lead to this call, we're sure that new state will be noticed
+    this.sessionEnds.next(new SessionEnd(
+      endCause.cause, this.scheduler.now() - this.sessionBeginTime, lastState, endCause.reason, endCause.code, endCause.rptlMessage
+    ));
+  }
+
+  /**
+   * Errors pending registration result with given reason, if any registration is waiting for server reply.
+   *
+   * @param reason Message explaining why registration failed
+   * @private
+   */
+  private rejectRegistration(reason: string): void {
+    if (this.pendingRegistration !== undefined) {
+      this.pendingRegistration.timeout?.unsubscribe();
+      this.pendingRegistration.result.error(new RegistrationRejected(reason));
+      this.pendingRegistration = undefined;
+    }
+  }
+
+  /**
+   * Errors given registration result with `RegistrationTimeout`, then closes session with a timeout reason, as server might still
+   * confirm registration later.
+   *
+   * @param registration Registration server didn't reply to
+   * @param timeout Time in ms client waited for server reply
+   * @private
+   */
+  private timeOutRegistration(registration: PendingRegistration, timeout: number): void {
+    this.pendingRegistration = undefined; // Connection closure must not reject it a second time
+    this.logger.error(`Registration timeout: no reply since ${timeout} ms`, { sessionId: this.sessionId });
+    registration.result.error(new RegistrationTimeout(timeout));
+
+    this.endCause = { cause: SessionEndCause.TIMEOUT, reason: 'Registration timeout', code: REGISTRATION_TIMEOUT_CODE };
+    this.messagingInterface.error({ code: REGISTRATION_TIMEOUT_CODE, reason: this.endCause.reason });
+  }
+
+  /**
+   * Schedules next reconnection attempt with delay provided by reconnection policy, or gives up if max attempts number is reached.
+   *
+   * @private
+   */
+  private scheduleReconnection(): void {
+    if (this.reconnectionAttempt >= this.reconnectionPolicy.maxAttempts) { // Gives up, session will remain disconnected
+      this.reconnectionAttempt = 0;
+      this.reconnectionActor = undefined;
+
+      return;
+    }
+
+    const attempt: number = ++this.reconnectionAttempt;
+    const delay: number = computeReconnectionDelay(this.reconnectionPolicy, attempt);
+
+    this.pendingReconnection = this.scheduler.schedule(() => this.reconnect(), delay);
+    this.reconnectionAttempts.next(new ReconnectionAttempt(attempt, delay));
+  }
+
+  /**
+   * Opens a new connection using connection factory, then begins session on it and registers again if it was previously registered.
+   *
+   * @private
+   */
+  private reconnect(): void {
+    this.pendingReconnection = undefined; // Attempt is no longer scheduled, it is running
+
+    try {
+      this.openSession((this.reconnectionFactory as ConnectionFactory)()); // Factory is defined, or attempt would have been cancelled
+    } catch (err) { // Connection couldn't be opened, it counts as a failed attempt
+      this.logger.error('Reconnection failed', { error: err.message, sessionId: this.sessionId });
+      this.scheduleReconnection();
+      this.notifyState();
+
+      return;
+    }
+
+    // Reopened connection might already be closed, then next attempt is scheduled and will register again instead
+    if (this.reconnectionActor !== undefined && this.isSessionRunning()) { // Session was registered when transport dropped
+      const actor: Actor = this.reconnectionActor;
+
+      // Registers again with same actor. If server doesn't reply in time, session is closed and next attempt will register again.
+      this.register(actor.uid, actor.name).subscribe({
+        error: (err: Error) => this.logger.error('Registration after reconnection failed', {
+          error: err.message, sessionId: this.sessionId
+        })
+      });
+    }
+  }
+
+  /**
+   * Cancels next reconnection attempt if any, and resets attempts count.
+   *
+   * @private
+   */
+  private stopReconnection(): void {
+    this.pendingReconnection?.unsubscribe();
+    this.pendingReconnection = undefined;
+    this.reconnectionAttempt = 0;
+    this.reconnectionActor = undefined;
+  }
+
+  /**
+   * Begins periodic connection check for current session if heartbeat is enabled, stopping previous one if any.
+   *
+   * @private
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    if (this.heartbeatConfig !== undefined) {
+      this.heartbeat = interval(this.heartbeatConfig.probeInterval, this.scheduler).subscribe({
+        next: () => this.checkHeartbeat()
+      });
+    }
+  }
+
+  /**
+   * Stops periodic connection check, if running.
+   *
+   * @private
+   */
+  private stopHeartbeat(): void {
+    this.heartbeat?.unsubscribe();
+    this.heartbeat = undefined;
+  }
+
+  /**
+   * Closes session with timeout reason if nothing was received for too long, or probes server if connection is idle. Does nothing into
+   * registered mode without ping command, as server cannot be probed.
+   *
+   * @private
+   */
+  private checkHeartbeat(): void {
+    const config: HeartbeatConfig = this.heartbeatConfig as HeartbeatConfig; // Heartbeat is stopped when disabled
+    if (this.registeredMode && config.pingCommand === undefined) { // Idle server would otherwise be considered as dead
+      return;
+    }
+
+    const idleTime: number = this.scheduler.now() - this.lastReceivedTime;
+
+    if (idleTime >= config.timeout) { // Connection considered as dead, reconnection will be attempted if enabled
+      this.logger.error(`Heartbeat timeout: nothing received since ${idleTime} ms`, { sessionId: this.sessionId });
+      this.endCause = { cause: SessionEndCause.TIMEOUT, reason: 'Heartbeat timeout', code: HEARTBEAT_TIMEOUT_CODE };
+      this.messagingInterface.error({ code: HEARTBEAT_TIMEOUT_CODE, reason: this.endCause.reason });
+    } else if (idleTime >= config.idleThreshold) { // Server is asked to send something, so connection will be known as alive
+      // Server responds to CHECKOUT with AVAILABILITY command, ping command is always defined into registered mode
+      this.sendMessage(this.registeredMode ? config.pingCommand as string : 'CHECKOUT');
+    }
+  }
+
+  /**
+   * Resets RPTL protocol state to listen for messages from given connection.
+   *
+   * @param connection RPTL messages stream for new session
+   * @private
+   *
+   * @throws BadConnectionSubject if given connection is already stopped
+   */
+  private openSession(connection: Subject<string>): void {
+    if (connection.isStopped) { // Checks for connection to haven't been stopped, else session will never terminate
+      throw new BadConnectionSubject('Already completed or errored');
+    }
+
+    // Reset state
+    this.registeredMode = false;
+    this.endCause = undefined;
+    this.sessionBeginTime = this.scheduler.now();
+    this.lastReceivedTime = this.sessionBeginTime;
+    this.sessionId++;
+
+    // Listen and send RPTL messages from new session connection, going through recorder if any
+    this.messagingInterface = this.recorder?.tap(connection) ?? connection;
+    const context: RptlProtocolService = this;
+
+    this.messagingInterface.subscribe({
+      next(rptlMessage: string): void { // Handle every received message
+        context.logger.debug('Message received', {
+          direction: MessageDirection.RECEIVED, rptlMessage, rptlCommand: rptlCommandOf(rptlMessage), sessionId: context.sessionId
+        });
+        context.reconnectionAttempt = 0; // Server is reachable again, next transport drop will restart backoff from beginning
+        context.lastReceivedTime = context.scheduler.now(); // Connection is alive
+
+        try { // Tries to handle received RPTL message
+          context.handleMessage(rptlMessage);
+        } catch (err) { // Error may occur during message handling, in case of a protocol error, stop current session by closing connection
+          context.logger.error('Message handling failed', { rptlMessage, error: err.message, sessionId: context.sessionId });
+          // Protocol error is fatal, reconnecting would not fix it
+          context.endCause = { cause: SessionEndCause.PROTOCOL_ERROR, reason: err.message, code: WS_INTERNAL_ERROR, rptlMessage };
+          context.messagingInterface.error({ code: WS_INTERNAL_ERROR, reason: err.message }); // Notifies server about client-side error
+        }
+      },
+
+      error(err: any): void { // Any connection error is fatal and must stop current session
+        context.logger.error('Session error', { error: err.message, sessionId: context.sessionId });
+        context.handleConnectionClosed(err.message, err.code); // Dropped WebSocket errors with its close event
+      },
+
+      complete(): void { // Stop current session if connection was closed
+        context.logger.info('Session end', { sessionId: context.sessionId });
+        context.handleConnectionClosed();
+      }
+    });
+
+    // Connection might be closed synchronously at subscription, in that case there is nothing to check
+    if (this.isSessionRunning()) {
+      this.startHeartbeat();
+    }
+
+    // Must be sure that connection has begun with subscribe() before notifying observers about RPTL connection
+    this.notifyState();
   }
 
   /**
@@ -196,7 +677,9 @@ export class RptlProtocolService {
    * @throws BadServerMessage if received RPTL message was ill-formed by server
    */
   private handleMessage(rptlMessage: string): void {
-    let parsedCommand: CommandParser;
+    this.handledMessage = rptlMessage;
+
+    let parsedCommand: CommandParser<{ rptlCommand: string }>;
     try {
       // Parses RPTL command name
       parsedCommand = new CommandParser(rptlMessage).parseTo([{ name: 'rptlCommand', type: String }]);
@@ -205,136 +688,178 @@ export class RptlProtocolService {
     }
 
     const invokedCommandName: string = parsedCommand.parsedData.rptlCommand;
-    let invokedCommandHandler: Handler;
-
     // Available command handlers will depends on current RPTL protocol mode
-    if (this.registeredMode) {
-      invokedCommandHandler = this.registeredCommandHandlers[invokedCommandName];
+    const invokedCommandHandler: CommandHandler | undefined = this.commandHandlers.get(invokedCommandName, this.registeredMode);
+
+    if (invokedCommandHandler === undefined) { // If command was not found in handlers registry, then it isn't available
+      this.handleUnknownCommand(rptlMessage, invokedCommandName);
     } else {
-      invokedCommandHandler = this.unregisteredCommandHandlers[invokedCommandName];
+      invokedCommandHandler(parsedCommand, (reply: string) => this.sendMessage(reply));
     }
+  }
 
-    if (invokedCommandHandler === undefined) { // If command was not found in handlers registry, then it isn't available
-      throw new BadServerMessage(`Unavailable command: ${invokedCommandName}`);
+  /**
+   * Applies unknown commands policy to given command which has no handler for current RPTL mode.
+   *
+   * @param rptlMessage Received message
+   * @param command Invoked command name
+   * @private
+   *
+   * @throws BadServerMessage if unknown commands are fatal
+   */
+  private handleUnknownCommand(rptlMessage: string, command: string): void {
+    switch (this.unknownCommandPolicy) {
+      case UnknownCommandPolicy.FATAL:
+        throw new BadServerMessage(`Unavailable command: ${command}`);
+      case UnknownCommandPolicy.IGNORE:
+        this.logger.warn('Ignored unavailable command', { rptlMessage, rptlCommand: command, sessionId: this.sessionId });
+        break;
+      case UnknownCommandPolicy.EMIT:
+        this.unhandledCommands.next(new UnhandledCommand(rptlMessage, command, this.registeredMode));
+        break;
     }
+  }
 
-    invokedCommandHandler(parsedCommand);
+  /**
+   * Parses arguments for given built-in command from currently handled message.
+   *
+   * @param command Built-in command declaration
+   * @param parsedCommand Parser with command name already parsed
+   *
+   * @returns A new `CommandParser` with parsed arguments
+   * @private
+   *
+   * @throws BadServerMessage with a located diagnostic if arguments don't match declaration
+   */
+  private parseArguments<N extends string, S extends ArgumentScheme<N>[], D>(
+    command: CommandGrammar<N, S>, parsedCommand: CommandParser<D>
+  ): CommandParser<D & ParsedArguments<S>> {
+    try {
+      return command.parseArguments(parsedCommand, this.handledMessage);
+    } catch (err) {
+      throw new BadServerMessage(err.message, err instanceof BadCommand ? err.diagnostic : undefined);
+    }
   }
 
   private handleInterruptCommand(parsedCommand: CommandParser): void {
+    const reason: string = this.parseArguments(INTERRUPT_COMMAND, parsedCommand).parsedData.reason;
 
+    // Server kicked this client on purpose, connection closure must not be handled as a transport drop
+    this.endCause = { cause: SessionEndCause.SERVER_INTERRUPT, reason: reason.length === 0 ? undefined : reason };
+    // If client was waiting for registration, then server refused it for that reason
+    this.rejectRegistration(reason.length === 0 ? 'Interrupted by server' : reason);
 
-    if (parsedCommand.unparsed.length === 0) {
+    if (reason.length === 0) {
       this.clearSession();
     } else { // If any error message argument is provided, then dispatch error too
-      this.clearSession(parsedCommand.unparsed);
+      this.clearSession(reason);
     }
   }
 
   private handleServiceCommand(parsedCommand: CommandParser): void {
     // Provides RPTL command argument which is an RPTL command to SER Protocol subject
-    this.serProtocol?.handleCommand(parsedCommand.unparsed);
+    this.serProtocol?.handleCommand(this.parseArguments(SERVICE_COMMAND, parsedCommand).parsedData.serCommand);
   }
 
   private handleLoggedInCommand(parsedCommand: CommandParser): void {
     // Parses LOGGED_IN <uid> <name> arguments to know about new actor data
-    let parsedArguments: CommandParser;
-    try {
-      parsedArguments = parsedCommand.parseTo([
-        { name: 'uid', type: Number }, { name: 'name', type: String }
-      ]);
-    } catch (err) {
-      throw new BadServerMessage(err.message);
-    }
+    const parsedArguments: CommandParser<{ uid: number, name: string }> = this.parseArguments(LOGGED_IN_COMMAND, parsedCommand);
 
-    // Actor who just logged on, with uid converted to primitive-type as it was new-constructed by CommandParser
-    const newActor: Actor = new Actor(Number(parsedArguments.parsedData.uid), parsedArguments.parsedData.name);
+    // Actor who just logged on
+    const newActor: Actor = new Actor(parsedArguments.parsedData.uid, parsedArguments.parsedData.name);
 
     // If just registered, it might be our own actor. In this case it must be ignored.
-    if (newActor.uid !== this.selfActor?.uid) {
-      // Pushes parsed actor data to last actors value
-      this.lastActorsValue.push(newActor);
-      // Then update subject with that value
-      this.actors?.next(this.lastActorsValue);
+    if (newActor.uid === this.selfActor?.uid) {
+      return;
     }
+
+    if (this.actorsRegistry.has(newActor.uid)) { // Any other already connected actor shouldn't be able to log in again
+      this.anomalies.next(new ProtocolAnomaly(this.handledMessage, `Actor with UID ${newActor.uid} is already connected`));
+      return;
+    }
+
+    // Pushes parsed actor data to registry
+    this.actorsRegistry.set(newActor.uid, newActor);
+    // Then update subjects with that value
+    this.notifyActors();
+    this.notifyActorEvent(ActorEventType.JOINED, newActor);
   }
 
   private handleLoggedOutCommand(parsedCommand: CommandParser): void {
     // Parses uid argument to known which actor just logged out
-    let parsedArguments: CommandParser;
-    try {
-      parsedArguments = parsedCommand.parseTo([{ name: 'uid', type: Number }]);
-    } catch (err) {
-      throw new BadServerMessage(err.message);
+    const parsedArguments: CommandParser<{ uid: number }> = this.parseArguments(LOGGED_OUT_COMMAND, parsedCommand);
+
+    const loggedOutUid: number = parsedArguments.parsedData.uid;
+    const loggedOutActor: Actor | undefined = this.actorsRegistry.get(loggedOutUid);
+
+    if (loggedOutActor === undefined) { // Actor who isn't connected cannot log out
+      this.anomalies.next(new ProtocolAnomaly(this.handledMessage, `No connected actor with UID ${loggedOutUid}`));
+      return;
     }
 
-    // Keep each actor which hasn't UID of the logged out one
-    // UID for logged out actor is converted into primitive-type because CommandParser new-constructs its arguments value
-    this.lastActorsValue = this.lastActorsValue.filter((actor: Actor) => actor.uid !== Number(parsedArguments.parsedData.uid));
-    // Then update subject with new value
-    this.actors?.next(this.lastActorsValue);
+    // Removes actor with UID of the logged out one
+    this.actorsRegistry.delete(loggedOutUid);
+    // Then update subjects with new value
+    this.notifyActors();
+    this.notifyActorEvent(ActorEventType.LEFT, loggedOutActor);
   }
 
   private handleAvailabilityCommand(parsedCommand: CommandParser): void {
     // Parses actors_count and max_actors_number arguments
-    let parsedArguments: CommandParser;
-    try {
-      parsedArguments = parsedCommand.parseTo([
-        { name: 'actorsCount', type: Number }, { name: 'maxActorsNumber', type: Number }
-      ]);
-    } catch (err) {
-      throw new BadServerMessage(err.message);
-    }
+    const parsedArguments: CommandParser<{ actorsCount: number, maxActorsNumber: number }> =
+      this.parseArguments(AVAILABILITY_COMMAND, parsedCommand);
 
     // Updates subject with new received server status
-    this.availability?.next(new Availability(parsedArguments.parsedData.actorsCount, parsedArguments.parsedData.maxActorsNumber));
+    this.availability.next(new Availability(parsedArguments.parsedData.actorsCount, parsedArguments.parsedData.maxActorsNumber));
   }
 
   private handleRegistrationCommand(parsedCommand: CommandParser): void {
-    // Reset last value for actors list subject
-    this.lastActorsValue = [];
-
-    // Parses each connected actor, begging with all RPTL command arguments
-    let currentParsedActor: CommandParser = parsedCommand;
-    // While there is still arguments to parse, tries to parse next already connected actor
-    let currentArgumentsSuffix = 0;
-    while (currentParsedActor.unparsed.length !== 0) {
-      // Actor arguments pair for current actor inside REGISTRATION command, with appropriate suffix
-      const currentUidArgument = `uid${currentArgumentsSuffix}`;
-      const currentNameArgument = `name${currentArgumentsSuffix}`;
-      const currentActorArgumentsScheme: ArgumentScheme[] = [
-        { name: currentUidArgument, type: Number }, { name: currentNameArgument, type: String }
-      ];
-
-      currentArgumentsSuffix++; // Next arguments pair must have a different name
-
-      try {
-        // Takes 2 next arguments, then prepares to parse for next actor with reassignment
-        currentParsedActor = currentParsedActor.parseTo(currentActorArgumentsScheme);
-      } catch (err) {
-        throw new BadServerMessage(err.message);
+    // Parses each connected actor, every RPTL command argument is part of an UID and name pair
+    const parsedArguments: CommandParser<{ actors: { uid: number, name: string }[] }> =
+      this.parseArguments(REGISTRATION_COMMAND, parsedCommand);
+
+    // Actors list is built from scratch for this session
+    const connectedActors: Actor[] = parsedArguments.parsedData.actors.map(
+      (actor: { uid: number, name: string }) => new Actor(actor.uid, actor.name)
+    );
+
+    // Server confirmed registration, client own actor is now known
+    const registration: PendingRegistration | undefined = this.pendingRegistration;
+    if (registration !== undefined) {
+      registration.timeout?.unsubscribe();
+      this.selfActor = registration.actor;
+      this.pendingRegistration = undefined;
+    }
+
+    // Initializes SER Protocol subject with current connection
+    this.serProtocol = new SerProtocolSubject(this.messagingInterface, this.logger, this.sessionId);
+    // Client has just been registered with that confirmation message, connected actors are known
+    this.actorsRegistry = new Map<number, Actor>();
+    for (const actor of connectedActors) {
+      if (this.actorsRegistry.has(actor.uid)) { // Each UID should be listed once, first actor using it is kept
+        this.anomalies.next(new ProtocolAnomaly(this.handledMessage, `Actor with UID ${actor.uid} is listed twice`));
+      } else {
+        this.actorsRegistry.set(actor.uid, actor);
       }
+    }
+
+    this.notifyActors();
 
-      // Pushes just parsed connected actor, new-constructed UID is converted into primitive type
-      this.lastActorsValue.push(new Actor(
-        Number(currentParsedActor.parsedData[currentUidArgument]), currentParsedActor.parsedData[currentNameArgument]
-      ));
+    for (const actor of this.actorsRegistry.values()) { // Each actor was already there before registration
+      this.notifyActorEvent(ActorEventType.INITIAL_SNAPSHOT, actor);
     }
 
-    // Initializes SER Protocol subject with current connection
-    this.serProtocol = new SerProtocolSubject(this.messagingInterface);
-    // Initializes connected actors subject as client has just been registered with that confirmation message
-    this.actors = new Subject<Actor[]>();
-    // It would be useless to updated new value into subject now: as registered mode hasn't been toggled, no one is currently
-    // subscribed to it.
-
-    // RPTL mode will no longer be unregistered, complete unregistered-only subjects
-    this.availability?.complete();
+    // RPTL mode will no longer be unregistered, server availability is no longer relevant
+    this.availability.next(undefined);
     // Finally, set registered mode for RPTL Protocol
     this.registeredMode = true;
 
     // Every subject is ready, observers can now perform RPTL registered-only operations
     this.notifyState();
+
+    // Registration result is resolved last so its observers see registered mode, does nothing if it has already timed out
+    registration?.result.next(connectedActors);
+    registration?.result.complete();
   }
 
   /**
@@ -344,10 +869,19 @@ export class RptlProtocolService {
    * @private
    */
   private sendMessage(rptlMessage: string): void {
-    console.log(`Send message: ${rptlMessage}`);
+    this.logger.debug('Message sent', {
+      direction: MessageDirection.SENT, rptlMessage, rptlCommand: rptlCommandOf(rptlMessage), sessionId: this.sessionId
+    });
     this.messagingInterface.next(rptlMessage);
   }
 
+  /**
+   * @returns Number of current or last session, 0 if no session began yet
+   */
+  getSessionId(): number {
+    return this.sessionId;
+  }
+
   /**
    * @returns If current client connection is alive or not.
    */
@@ -381,48 +915,55 @@ export class RptlProtocolService {
       throw new BadSessionState(false);
     }
 
-    if (connection.isStopped) { // Checks for connection to haven't been stopped, else session will never terminate
+    if (connection.isStopped) { // Checked before reconnection is stopped, so a failed call will not cancel a scheduled attempt
       throw new BadConnectionSubject('Already completed or errored');
     }
 
-    // Reset state
-    this.registeredMode = false;
-    this.actors = undefined;
-    this.availability = new Subject<Availability>();
-
-    // Listen and send RPTL messages from new session connection
-    this.messagingInterface = connection;
-    const context: RptlProtocolService = this;
-
-    connection.subscribe({
-      next(rptlMessage: string): void { // Handle every received message
-        console.log(`Recv message: ${rptlMessage}`);
-
-        try { // Tries to handle received RPTL message
-          context.handleMessage(rptlMessage);
-        } catch (err) { // Error may occur during message handling, in case of a protocol error, stop current session by closing connection
-          console.error(`Message handling failed: ${err}`);
-          context.messagingInterface.error({ code: WS_INTERNAL_ERROR, reason: err.message }); // Notifies server about client-side error
-        }
-      },
-
-      error(err: any): void { // Any connection error is fatal and must stop current session
-        console.error(`Session error: ${err.message}`);
-        context.clearSession(err.message);
+    this.stopReconnection(); // Session opened by user, previous session will not be reopened
+    this.openSession(connection);
+  }
 
-        context.notifyState();
-      },
+  /**
+   * @param url URL of server to connect with
+   * @param options Options to open each connection with
+   *
+   * @returns Connection factory opening connections to given URL using injected `RptlConnectionFactory`, their events being notified
+   * through `getConnectionEvents()`
+   */
+  connectionTo(url: string, options?: RptlConnectionOptions): ConnectionFactory {
+    return () => {
+      const connection: RptlConnection = this.connectionsProvider.open(url, options);
+      // Released once connection is closed, even if factory doesn't complete events, so closed connections aren't kept alive
+      connection.events.pipe(
+        takeWhile((event: ConnectionEvent) => event.type !== ConnectionEventType.CLOSED, true)
+      ).subscribe({ next: (event: ConnectionEvent) => this.connectionEvents.next(event) });
+
+      return connection.messages;
+    };
+  }
 
-      complete(): void { // Stop current session if connection was closed
-        console.log('Session end');
-        context.clearSession();
+  /**
+   * Opens a connection to given URL using injected `RptlConnectionFactory`, then begins session on it.
+   *
+   * @param url URL of server to connect with
+   * @param options Options to open connection with
+   *
+   * @throws BadSessionState if session is already running
+   */
+  connect(url: string, options?: RptlConnectionOptions): void {
+    if (this.isSessionRunning()) { // Checks before opening connection, so it will not be opened for nothing
+      throw new BadSessionState(false);
+    }
 
-        context.notifyState(); // Any connection closure will lead to this callback, we're sure that DISCONNECTED state will be noticed
-      }
-    });
+    this.beginSession(this.connectionTo(url, options)());
+  }
 
-    // Must be sure that connection has begun with subscribe() before notifying observers about RPTL connection
-    this.notifyState();
+  /**
+   * @returns Observable notified when connections opened by `connect()` or by a factory from `connectionTo()` are opened or closed,
+   * with WebSocket close code and reason
+   */
+  getConnectionEvents(): Observable<ConnectionEvent> {
+    return this.connectionEvents;
   }
 
   /**
@@ -433,7 +974,10 @@ export class RptlProtocolService {
    * @throws BadSessionState If no session is currently running
    */
   endSession(): void {
-    if (this.isRegistered()) {
+    const registered: boolean = this.isRegistered(); // Checks for session to be running before flagging its end as requested
+    this.endCause = { cause: SessionEndCause.CLIENT_LOGOUT }; // Deliberate logout, connection closure must not be a transport drop
+
+    if (registered) {
       this.sendMessage('LOGOUT');
     } else {
       this.messagingInterface.complete(); // Unregistered, directly send WS close frame
@@ -442,38 +986,203 @@ export class RptlProtocolService {
   }
 
   /**
-   * @returns Observable with a new `RptlState` value each time RPTL protocol disconnects, connects or registers to server
+   * Enables reconnection: each time transport drops, a new connection will be opened using given factory after a delay computed from
+   * given policy. If session was registered, actor is registered again with `LOGIN` command as soon as connection is reopened.
+   *
+   * @param connectionFactory Opens a new connection for each reconnection attempt, `connectionTo()` might be used to provide it
+   * @param policy Fields overriding `DEFAULT_RECONNECTION_POLICY`
+   *
+   * @throws BadReconnectionPolicy if given policy has unusable values
+   */
+  enableReconnection(connectionFactory: ConnectionFactory, policy: Partial<ReconnectionPolicy> = {}): void {
+    this.reconnectionPolicy = makeReconnectionPolicy(policy); // Checked before modifying anything, so a bad policy has no effect
+    this.reconnectionFactory = connectionFactory;
+  }
+
+  /**
+   * Disables reconnection, cancelling any scheduled attempt. If an attempt was scheduled, state is switched to `DISCONNECTED`.
+   */
+  disableReconnection(): void {
+    const wasReconnecting: boolean = this.isReconnecting();
+
+    this.reconnectionFactory = undefined;
+    this.stopReconnection();
+
+    if (wasReconnecting) { // Session will not be reopened, observers must know about it
+      this.notifyState();
+    }
+  }
+
+  /**
+   * Enables heartbeat: while session is running, connection is periodically checked and session is closed with
+   * `HEARTBEAT_TIMEOUT_CODE` if server didn't send anything for too long. If session is already running, check begins immediately.
+   *
+   * @param config Fields overriding `DEFAULT_HEARTBEAT_CONFIG`
+   *
+   * @throws BadHeartbeatConfig if given config has unusable values
+   */
+  enableHeartbeat(config: Partial<HeartbeatConfig> = {}): void {
+    this.heartbeatConfig = makeHeartbeatConfig(config); // Checked before modifying anything, so a bad config has no effect
+
+    if (this.isSessionRunning()) {
+      this.startHeartbeat();
+    }
+  }
+
+  /**
+   * Disables heartbeat, stopping connection check for running session if any.
+   */
+  disableHeartbeat(): void {
+    this.heartbeatConfig = undefined;
+    this.stopHeartbeat();
+  }
+
+  /**
+   * @returns `true` if transport dropped and a reconnection attempt is scheduled, `false` otherwise
+   */
+  isReconnecting(): boolean {
+    return this.pendingReconnection !== undefined;
+  }
+
+  /**
+   * @returns Observable notified with attempt number and delay each time a reconnection attempt is scheduled
+   */
+  getReconnectionAttempts(): Observable<ReconnectionAttempt> {
+    return this.reconnectionAttempts;
+  }
+
+  /**
+   * @returns Observable with current `RptlState` at subscription, then a new value each time RPTL protocol disconnects, connects,
+   * registers or tries to reconnect to server. Each `RECONNECTING` value follows the `getReconnectionAttempts()` notification for that
+   * attempt, so state observers might read attempt number and delay from it
    */
   getState(): Observable<RptlState> {
     return this.currentState;
   }
 
   /**
-   * @returns Updated list of registered actors or error with message property on unregistered mode
+   * @returns Observable with current list of registered actors at subscription, then updated list each time an actor logs in or out.
+   * List is empty if client isn't registered.
    *
    * @note Observable subject value might be updated even if no modification has been done to the actors list.
-   * @note Observable has no value at subscription, all `updateActorsSubscribers()` to next current actors list into every subscribable
-   * following actors list.
+   * @note Observable never completes nor errors, it is kept across sessions.
    */
   getActors(): Observable<Actor[]> {
-    if (this.isSessionRunning() && this.isRegistered()) { // Must be registered to see other registered actors
-      return this.actors as Observable<Actor[]>; // this.actors always defined inside registered mode
-    } else {
-      const error: Subject<Actor[]> = new Subject();
+    return this.actors;
+  }
 
-      if (this.isSessionRunning()) {
-        error.error({ message: 'Unable to get actors inside unregistered mode' });
-      } else {
-        error.error({ message: 'Unable to get actors without a running session' });
-      }
+  /**
+   * @returns Observable with current registered actors by UID at subscription, then updated registry each time an actor logs in or out.
+   * Registry is empty if client isn't registered.
+   *
+   * @note Observable never completes nor errors, it is kept across sessions.
+   */
+  getActorsRegistry(): Observable<ReadonlyMap<number, Actor>> {
+    return this.actorsByUid;
+  }
 
-      return error;
+  /**
+   * @param uid UID of actor to retrieve
+   *
+   * @returns Data for connected actor using given UID, or `undefined` if there isn't any
+   */
+  getActorByUid(uid: number): Actor | undefined {
+    return this.actorsRegistry.get(uid);
+  }
+
+  /**
+   * @param uid UID to check for
+   *
+   * @returns `true` if a connected actor is using given UID, `false` otherwise
+   */
+  hasActor(uid: number): boolean {
+    return this.actorsRegistry.has(uid);
+  }
+
+  /**
+   * @returns Observable notified each time an actor joins or leaves, and for each actor already connected when client registers
+   *
+   * @note Actors leaving because session stopped aren't notified, as they didn't log out.
+   */
+  getActorEvents(): Observable<ActorEvent> {
+    return this.actorEvents;
+  }
+
+  /**
+   * @returns Observable notified each time a session ends, after state has been updated, with the cause of that end
+   */
+  getSessionEnds(): Observable<SessionEnd> {
+    return this.sessionEnds;
+  }
+
+  /**
+   * Taps connection of each session begun after this call with given recorder, so its traffic can be recorded and replayed later.
+   * Recording itself is toggled with `SessionRecorder:start()` and `SessionRecorder:stop()`.
+   *
+   * @param recorder Recorder to tap connections with, `undefined` to no longer tap new connections
+   */
+  setRecorder(recorder?: SessionRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * @returns Observable notified each time an unexpected server message is ignored, like a duplicated `LOGGED_IN` or a `LOGGED_OUT` for
+   * an unknown actor
+   */
+  getAnomalies(): Observable<ProtocolAnomaly> {
+    return this.anomalies;
+  }
+
+  /**
+   * Handles an RPTL command which isn't part of base protocol, for server-side extensions. Handler is kept across sessions.
+   *
+   * Any error thrown by handler is considered as an RPTL protocol error, closing session as an ill-formed message would do.
+   *
+   * @param command Name of command to handle
+   * @param mode RPTL modes command is available into
+   * @param handler Called with parsed command name and a function to reply each time server invokes that command
+   *
+   * @throws UnavailableCommandName if command is already handled into one of given modes, which is always the case for built-in commands
+   */
+  registerCommandHandler(command: string, mode: CommandMode, handler: CommandHandler): void {
+    this.commandHandlers.register(command, mode, handler);
+  }
+
+  /**
+   * @param command Name of command to no longer handle
+   * @param mode RPTL modes command will no longer be available into
+   *
+   * @returns `true` if command was handled into at least one of given modes
+   *
+   * @throws BuiltInCommand if command is implemented by this service into one of given modes
+   */
+  unregisterCommandHandler(command: string, mode: CommandMode = CommandMode.BOTH): boolean {
+    if (this.commandHandlers.isBuiltIn(command, mode)) { // Base protocol would be broken without it
+      throw new BuiltInCommand(command);
     }
+
+    return this.commandHandlers.unregister(command, mode);
+  }
+
+  /**
+   * @param policy What to do when server invokes a command without handler for current RPTL mode, `FATAL` by default
+   */
+  setUnknownCommandPolicy(policy: UnknownCommandPolicy): void {
+    this.unknownCommandPolicy = policy;
+  }
+
+  /**
+   * @returns Observable notified for each command without handler for current RPTL mode, if unknown command policy is `EMIT`
+   */
+  getUnhandledCommands(): Observable<UnhandledCommand> {
+    return this.unhandledCommands;
   }
 
   /**
    * Next (= push) current actors list into every subscribable following actors list even if list hasn't changed since last nexted value.
    *
+   * @note Not required to get current actors list, as `getActors()` observable provides it at subscription.
+   *
    * @throws BadSessionState if session isn't running
    * @throws BadRptlMode if connected client isn't registered
    */
@@ -483,30 +1192,18 @@ export class RptlProtocolService {
     }
 
     // If connected and registered, pushes current actors list
-    this.actors?.next(this.lastActorsValue);
+    this.notifyActors();
   }
 
   /**
-   * @returns Updated stats about server availability (if it is full or not), or error if registered mode or if no session has begun
+   * @returns Observable with last known stats about server availability (if it is full or not) at subscription, then updated stats each
+   * time server sends them. Stats are `undefined` if unknown, which is the case when registered, when no session is running or when
+   * server hasn't sent them yet.
+   *
+   * @note Observable never completes nor errors, it is kept across sessions.
    */
-  getStatus(): Observable<Availability> {
-    // Must be unregistered but with running session to check for server status
-    if (this.isSessionRunning() && !this.isRegistered()) {
-      return this.availability as Observable<Availability>;
-    } else {
-      const error: Subject<Availability> = new Subject<Availability>();
-
-      let errorMessage: string;
-      if (!this.isSessionRunning()) { // Error message depends on which precondition isn't true
-        errorMessage = 'Unable to check for status without any session';
-      } else {
-        errorMessage = 'Unable to check for status if already registered';
-      }
-
-      error.error({ message: errorMessage });
-
-      return error;
-    }
+  getStatus(): Observable<Availability | undefined> {
+    return this.availability;
   }
 
   /**
@@ -525,7 +1222,13 @@ export class RptlProtocolService {
   }
 
   /**
-   * @returns Subject to send SER commands with instance next() and receive commands from server using observers next().
+   * Unlike state, actors and availability streams, SER subject is intentionally bound to the current registered session: it is stopped
+   * when session ends, which is how `SerProtocolService` knows it must unbind. Outside a registered session, a new already errored
+   * subject is returned each time so callers can't send SER commands into a session which doesn't exist. To follow SER commands across
+   * sessions, use `SerProtocolService` which binds again each time client is registered.
+   *
+   * @returns Subject to send SER commands with instance next() and receive commands from server using observers next(), errored if
+   * there is no running session or if client isn't registered
    */
   getSerProtocol(): Subject<string> {
     if (this.isSessionRunning() && this.isRegistered()) {
@@ -561,23 +1264,41 @@ export class RptlProtocolService {
   }
 
   /**
-   * Sends a registration message using given actor data for registration arguments and initialized client owned actor.
+   * Sends a registration message using given actor data for registration arguments. Client owned actor is only initialized when server
+   * confirms registration.
    *
    * @param uid UID used by this client actor
    * @param name Name used by this client actor
+   * @param timeout Time in ms to wait for server reply before registration is considered as failed, `Infinity` to wait indefinitely
+   *
+   * @returns Observable emitting actors already connected then completing once server confirmed registration, erroring with
+   * `RegistrationRejected` if server refused it or if connection was closed, or with `RegistrationTimeout` if server didn't reply in time,
+   * session being closed with `REGISTRATION_TIMEOUT_CODE` in that case. Registration is sent even if it isn't subscribed.
    *
    * @throws BadSessionState if session isn't running
    * @throws BadRptlMode if connected client is already registered
+   * @throws RegistrationPending if a previous registration is still waiting for server reply
    */
-  register(uid: number, name: string): void {
+  register(uid: number, name: string, timeout: number = DEFAULT_REGISTRATION_TIMEOUT): Observable<Actor[]> {
     if (this.isRegistered()) { // Checks for client to be connected but not registered yet
       throw new BadRptlMode(false);
     }
 
-    // Saves client own actor right now has it will not be repeated by the server
-    this.selfActor = new Actor(uid, name);
+    if (this.pendingRegistration !== undefined) {
+      throw new RegistrationPending();
+    }
+
+    // Client own actor is kept aside until server replies, as registration might be rejected
+    const registration: PendingRegistration = { actor: new Actor(uid, name), result: new AsyncSubject<Actor[]>() };
+    this.pendingRegistration = registration;
+
+    if (timeout !== Infinity) { // Session is closed too, so a late confirmation cannot put client into registered mode
+      registration.timeout = this.scheduler.schedule(() => this.timeOutRegistration(registration, timeout), timeout);
+    }
+
+    // Formats and send RPTL registration command, name is quoted if it contains spaces
+    this.sendMessage(new CommandBuilder('LOGIN').add(uid).add(name).build());
 
-    // Formats and send RPTL registration command
-    this.sendMessage(`LOGIN ${uid} ${name}`);
+    return registration.result.asObservable();
   }
 }
@@ -0,0 +1,144 @@
+import { CommandDiagnostic } from './protocol-grammar';
+
+
+/**
+ * Thrown by `SerProtocolService` methods when received SER command is ill-formed.
+ */
+export class BadSerCommand extends Error {
+  /**
+   * @param reason Message explaining why received command was ill-formed
+   * @param diagnostic Where and why command doesn't match SER grammar, if it is the case
+   */
+  constructor(reason: string, readonly diagnostic?: CommandDiagnostic) {
+    super(`Bad SER command: ${reason}`);
+  }
+}
+
+
+/**
+ * Thrown by `SerProtocolService` when received SER command is neither `EVENT` nor `RESPONSE`.
+ */
+export class UnknownSerCommand extends BadSerCommand {
+  /**
+   * @param serCommandType Received SER command name
+   */
+  constructor(readonly serCommandType: string) {
+    super(`Unknown command type: ${serCommandType}`);
+  }
+}
+
+
+/**
+ * Thrown by `SerProtocolService` when a Service Event is received for a service which isn't registered, with
+ * `UnknownServicePolicy.FATAL`.
+ */
+export class UnknownServiceEvent extends BadSerCommand {
+  /**
+   * @param serviceName Service targeted by received event
+   */
+  constructor(readonly serviceName: string) {
+    super(`Service ${serviceName} does not exist`);
+  }
+}
+
+
+/**
+ * Thrown by `ServiceContext:done()` when a Service Request Response is received for an UID which isn't waiting for a response. Such
+ * response has nothing to resolve, so it is a recoverable anomaly tolerated with `SerStrictness.LENIENT`.
+ */
+export class UnexpectedResponse extends BadSerCommand {
+  /**
+   * @param requestUid UID of SR command server responded to
+   * @param reason Message explaining why that UID isn't waiting for a response
+   */
+  constructor(readonly requestUid: number, reason: string) {
+    super(reason);
+  }
+}
+
+
+/**
+ * Thrown by `ServiceContext:done()` when a Service Request Response is received for an UID which has already been responded.
+ */
+export class DuplicateResponse extends UnexpectedResponse {
+  /**
+   * @param requestUid UID of SR command server responded twice to
+   */
+  constructor(requestUid: number) {
+    super(requestUid, `SR command with UID ${requestUid} already received a response`);
+  }
+}
+
+
+/**
+ * Thrown by `ServiceContext:done()` when a Service Request Response is received for an UID no SR command was sent with.
+ */
+export class UnknownRequestUid extends UnexpectedResponse {
+  /**
+   * @param requestUid UID server responded to
+   */
+  constructor(requestUid: number) {
+    super(requestUid, `No SR commands used UID ${requestUid}`);
+  }
+}
+
+
+/**
+ * Emitted by `SerProtocolService:getRequestFailures()` and by `ServiceSubject:request()` observable when a Service Request is responded
+ * with KO.
+ */
+export class ServiceRequestFailed extends Error {
+  /**
+   * @param serviceName Service the failed SR command was sent to
+   * @param requestUid UID of failed SR command
+   * @param errorMessage Error message sent by server with SRR command
+   */
+  constructor(readonly serviceName: string, readonly requestUid: number, readonly errorMessage: string) {
+    super(`Service Request ${requestUid} to ${serviceName} failed: ${errorMessage}`);
+  }
+}
+
+
+/**
+ * Error for the observable returned by `ServiceSubject:request()` if server didn't respond in time.
+ */
+export class RequestTimeout extends ServiceRequestFailed {
+  /**
+   * @param serviceName Service the timed out SR command was sent to
+   * @param requestUid UID of timed out SR command
+   * @param timeout Time in ms client waited for server response
+   */
+  constructor(serviceName: string, requestUid: number, readonly timeout: number) {
+    super(serviceName, requestUid, `No response after ${timeout} ms`);
+  }
+}
+
+
+/**
+ * Error for the observable returned by `ServiceSubject:request()` if session was lost before server responded.
+ */
+export class SessionLost extends ServiceRequestFailed {
+  /**
+   * @param serviceName Service the lost SR command was sent to
+   * @param requestUid UID of lost SR command, only meaningful inside the lost session
+   */
+  constructor(serviceName: string, requestUid: number) {
+    super(serviceName, requestUid, 'Session lost before response');
+  }
+}
+
+
+/**
+ * Error for the observable returned by `ServiceSubject:request()` if a queued request was dropped under `QueuedRequestsPolicy.DROP`,
+ * or because its service was unregistered.
+ */
+export class RequestDropped extends Error {
+  /**
+   * @param serviceName Service the dropped SR command should have been sent to
+   * @param request Dropped SR command
+   * @param reason Why SR command was dropped before it was sent
+   */
+  constructor(readonly serviceName: string, readonly request: string, readonly reason: string) {
+    super(`Service Request to ${serviceName} dropped: ${reason}`);
+  }
+}
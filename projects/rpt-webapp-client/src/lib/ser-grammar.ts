@@ -0,0 +1,28 @@
+import { CommandGrammar, ProtocolGrammar } from './protocol-grammar';
+import { CommandMode } from './rptl-command-registry';
+import { namedConverter, toUid } from './argument-converters';
+import { ServiceRequestResponse } from './service-request-response';
+
+
+/**
+ * `EVENT <service> <event>`: Service Event, remaining part is the Service command.
+ */
+export const EVENT_COMMAND = new CommandGrammar('EVENT', CommandMode.REGISTERED, [
+  { name: 'service', type: String }, { name: 'event', rest: true }
+], 'Service Event');
+
+
+/**
+ * `RESPONSE <request UID> <OK|KO> [error message]`: Service Request Response, remaining part is an optional error message.
+ */
+export const RESPONSE_COMMAND = new CommandGrammar('RESPONSE', CommandMode.REGISTERED, [
+  { name: 'requestUid', type: toUid() },
+  { name: 'response', type: namedConverter('OK|KO', (response: string) => new ServiceRequestResponse(response)) },
+  { name: 'errorMessage', rest: true }
+], 'Service Request Response');
+
+
+/**
+ * Every SER command sent by server and handled by `SerProtocolService`, SER commands are available into RPTL registered mode only.
+ */
+export const SER_GRAMMAR = new ProtocolGrammar('SER', [EVENT_COMMAND, RESPONSE_COMMAND]);
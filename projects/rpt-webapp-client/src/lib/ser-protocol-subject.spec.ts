@@ -1,6 +1,7 @@
 import { MockedWebsocketSubject, unexpected } from './testing-helpers';
 import { SerProtocolSubject } from './ser-protocol-subject';
 import { ObjectUnsubscribedError } from 'rxjs';
+import { CapturingLogger, LogEntry, LogLevel, MessageDirection } from './rpt-logger';
 
 describe('SerProtocolSubject', () => {
   let mockedWsConnection: MockedWebsocketSubject;
@@ -39,6 +40,22 @@ describe('SerProtocolSubject', () => {
       // Check for SER command to have been formatted then sent to server
       expect(mockedWsConnection.nextMessage()).toEqual('SERVICE any SER command');
     });
+
+    it('should log sent command with service and request UID', () => {
+      const logger: CapturingLogger = new CapturingLogger();
+      subject = new SerProtocolSubject(mockedWsConnection, logger, 3);
+
+      subject.next('REQUEST 0 TestingService a request');
+
+      expect(logger.entries).toEqual([new LogEntry(LogLevel.DEBUG, 'SER command sent', {
+        direction: MessageDirection.SENT,
+        rptlCommand: 'SERVICE',
+        requestUid: 0,
+        serService: 'TestingService',
+        rptlMessage: 'SERVICE REQUEST 0 TestingService a request',
+        sessionId: 3
+      })]);
+    });
   });
 
   describe('handleMessage()', () => {
@@ -56,5 +73,16 @@ describe('SerProtocolSubject', () => {
       expect(receivedCommand).toBeDefined();
       expect(receivedCommand).toEqual('any received SER command');
     });
+
+    it('should log received command with service', () => {
+      const logger: CapturingLogger = new CapturingLogger();
+      subject = new SerProtocolSubject(mockedWsConnection, logger, 3);
+
+      subject.handleCommand('EVENT TestingService an event');
+
+      expect(logger.entries).toEqual([new LogEntry(LogLevel.TRACE, 'SER command received', {
+        direction: MessageDirection.RECEIVED, rptlCommand: 'SERVICE', serService: 'TestingService', sessionId: 3
+      })]);
+    });
   });
 });
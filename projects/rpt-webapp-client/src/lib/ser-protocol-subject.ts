@@ -1,4 +1,33 @@
 import { ObjectUnsubscribedError, Subject } from 'rxjs';
+import { LogFields, MessageDirection, NoopLogger, RptLogger } from './rpt-logger';
+
+
+/**
+ * @param direction If SER command is sent or received
+ * @param serCommand SER command to retrieve logging fields from
+ *
+ * @returns Log fields with involved service and request UID, if SER command provides them
+ */
+function serFieldsOf(direction: MessageDirection, serCommand: string): LogFields {
+  const words: string[] = serCommand.trim().split(/\s+/);
+  const fields: LogFields = { direction, rptlCommand: 'SERVICE' };
+
+  switch (words[0]) {
+    case 'REQUEST': // REQUEST <uid> <service> <request>
+      fields.requestUid = Number(words[1]);
+      fields.serService = words[2];
+      break;
+    case 'RESPONSE': // RESPONSE <uid> <status> <error>
+      fields.requestUid = Number(words[1]);
+      break;
+    case 'EVENT': // EVENT <service> <event>
+      fields.serService = words[1];
+      break;
+  }
+
+  return fields;
+}
+
 
 /**
  * Wrapper for `WebSocketSubject` pushing and formatting incoming and outgoing SER Protocol commands into RPTL messages.
@@ -9,8 +38,12 @@ export class SerProtocolSubject extends Subject<string> {
 
   /**
    * @param messagingInterface RPTL messages interface (Websocket connection) to be wrapped
+   * @param logger Logger for sent and received SER commands, discarding everything by default
+   * @param sessionId Number of RPTL session this subject belongs to, added to log entries
    */
-  constructor(messagingInterface: Subject<string>) {
+  constructor(messagingInterface: Subject<string>,
+              private readonly logger: RptLogger = new NoopLogger(),
+              private readonly sessionId?: number) {
     super();
 
     this.messagingInterface = messagingInterface;
@@ -36,7 +69,9 @@ export class SerProtocolSubject extends Subject<string> {
     if (!this.isStopped) { // Checks for subject to not have been completed/errored
       const rptlMessage = `SERVICE ${serCommand}`; // Formats RPTL message to send with SERVICE RPTL command
 
-      console.log(`Send message: ${rptlMessage}`);
+      const fields: LogFields = serFieldsOf(MessageDirection.SENT, serCommand);
+
+      this.logger.debug('SER command sent', { ...fields, rptlMessage, sessionId: this.sessionId });
       this.messagingInterface.next(rptlMessage);
     }
   }
@@ -45,6 +80,7 @@ export class SerProtocolSubject extends Subject<string> {
    * @param serCommand Command value which will be handled by next() observers method.
    */
   handleCommand(serCommand: string): void {
+    this.logger.trace('SER command received', { ...serFieldsOf(MessageDirection.RECEIVED, serCommand), sessionId: this.sessionId });
     super.next(serCommand);
   }
 }
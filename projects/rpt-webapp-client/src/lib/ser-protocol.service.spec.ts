@@ -1,8 +1,25 @@
 import { TestBed } from '@angular/core/testing';
-import { SerProtocolService, UnavailableServiceName } from './ser-protocol.service';
-import { Observable, Subject } from 'rxjs';
+import {
+  SerErrorAction,
+  SerProtocolError,
+  SerProtocolService,
+  SerStrictness,
+  UnavailableServiceName
+} from './ser-protocol.service';
+import {
+  DuplicateResponse,
+  RequestDropped,
+  ServiceRequestFailed,
+  SessionLost,
+  UnknownSerCommand
+} from './ser-errors';
+import { Observable, ObjectUnsubscribedError, Subject, VirtualTimeScheduler } from 'rxjs';
 import { MockedSerProtocolSubject, unexpected } from './testing-helpers';
 import { RptlProtocolService, RptlState } from './rptl-protocol.service';
+import { QueuedRequestsPolicy, ServiceSubject } from './service-subject';
+import { RPT_SCHEDULER } from './rpt-scheduler';
+import { CapturingLogger, LogEntry, LogLevel, RPT_LOGGER } from './rpt-logger';
+import { BufferedEvent, UnknownServicePolicy } from './service-events-buffer';
 
 
 /**
@@ -40,6 +57,10 @@ class MockedRptlProtocol {
     this.sessionTerminated = true;
   }
 
+  getSessionId(): number {
+    return 1;
+  }
+
   getState(): Observable<RptlState> {
     return this.state;
   }
@@ -57,17 +78,23 @@ class MockedRptlProtocol {
 
 describe('SerProtocolService', () => {
   let mockedUnderlyingProtocol: MockedRptlProtocol;
+  let scheduler: VirtualTimeScheduler; // Controls time for buffered events
+  let logger: CapturingLogger; // Checks for ignored events warnings
   let service: SerProtocolService;
 
   beforeEach(() => {
     mockedUnderlyingProtocol = new MockedRptlProtocol(); // Mocks a new session for each unit test
+    scheduler = new VirtualTimeScheduler();
+    logger = new CapturingLogger(LogLevel.WARN);
 
     TestBed.configureTestingModule({
       providers: [
         { // Mocking for RPTL and WS connection layers, so sent/received messages can easily been checked for/simulated
           provide: RptlProtocolService,
           useValue: mockedUnderlyingProtocol
-        }
+        },
+        { provide: RPT_SCHEDULER, useValue: scheduler },
+        { provide: RPT_LOGGER, useValue: logger }
       ]
     });
 
@@ -127,6 +154,133 @@ describe('SerProtocolService', () => {
     });
   });
 
+  describe('Sessions lifecycle', () => {
+    let testingService: ServiceSubject;
+
+    /**
+     * Ends current mocked session, then begins a new one with a new SER protocol subject.
+     */
+    function reconnect(): void {
+      mockedUnderlyingProtocol.serProtocol.complete();
+      mockedUnderlyingProtocol.serProtocol = new MockedSerProtocolSubject();
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+    }
+
+    beforeEach(() => {
+      testingService = service.register('TestingService');
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+    });
+
+    it('should notify each time it is bound or unbound', () => {
+      const boundStates: boolean[] = [];
+      service.getBoundState().subscribe((bound: boolean) => boundStates.push(bound));
+
+      reconnect();
+
+      expect(boundStates).toEqual([true, false, true]);
+    });
+
+    it('should fail requests waiting for a response with SessionLost when unbound', () => {
+      let failure: SessionLost | undefined;
+      testingService.request('a random request').subscribe({ next: unexpected, error: (err: SessionLost) => failure = err });
+
+      mockedUnderlyingProtocol.serProtocol.complete();
+
+      expect(service.isBound()).toBeFalse();
+      expect(failure).toEqual(new SessionLost('TestingService', 0));
+    });
+
+    it('should restart UIDs and reject responses to previous session requests', () => {
+      testingService.next('a first request');
+      testingService.next('a second request');
+      reconnect();
+
+      testingService.next('a new request');
+      expect(mockedUnderlyingProtocol.serProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a new request');
+
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 1 OK'); // UID 1 was used by previous session only
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+    });
+
+    it('should replay requests queued after session was lost by default', () => {
+      mockedUnderlyingProtocol.serProtocol.complete();
+      testingService.next('a queued request');
+      reconnect();
+
+      expect(mockedUnderlyingProtocol.serProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a queued request');
+    });
+
+    it('should drop requests queued after session was lost with DROP policy', () => {
+      service.setQueuedRequestsPolicy(QueuedRequestsPolicy.DROP);
+
+      let failure: RequestDropped | undefined;
+      mockedUnderlyingProtocol.serProtocol.complete();
+      testingService.request('a queued request').subscribe({ next: unexpected, error: (err: RequestDropped) => failure = err });
+      reconnect();
+
+      expect(mockedUnderlyingProtocol.serProtocol.nextCommand()).toBeUndefined();
+      expect(failure).toEqual(new RequestDropped('TestingService', 'a queued request', 'Session was lost before it was sent'));
+
+      testingService.next('a new request'); // Only queued requests are dropped
+      expect(mockedUnderlyingProtocol.serProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a new request');
+    });
+  });
+
+  describe('Unknown services', () => {
+    beforeEach(() => mockedUnderlyingProtocol.state.next(RptlState.REGISTERED));
+
+    it('should terminate session by default', () => {
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService an event');
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+    });
+
+    it('should ignore event with a warning using DROP policy', () => {
+      service.setUnknownServicePolicy(UnknownServicePolicy.DROP);
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService an event');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeFalse();
+      expect(logger.entries).toEqual([
+        new LogEntry(LogLevel.WARN, 'Ignored event for unknown service', { serService: 'LateService' })
+      ]);
+      expect(service.getBufferedEvents()).toEqual([]);
+    });
+
+    it('should replay buffered events in order once service is registered using BUFFER policy', () => {
+      service.setUnknownServicePolicy(UnknownServicePolicy.BUFFER);
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService event 1');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT OtherService event');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService event 2');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeFalse();
+      expect(service.getBufferedEvents()).toEqual([
+        new BufferedEvent('LateService', 'event 1', 0),
+        new BufferedEvent('LateService', 'event 2', 0),
+        new BufferedEvent('OtherService', 'event', 0)
+      ]);
+
+      const receivedEvents: string[] = [];
+      service.register('LateService').subscribe((event: string) => receivedEvents.push(event));
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService event 3'); // Received before buffered ones are replayed
+
+      expect(receivedEvents).toEqual([]);
+      scheduler.flush();
+
+      expect(receivedEvents).toEqual(['event 1', 'event 2', 'event 3']);
+      expect(service.getBufferedEvents()).toEqual([new BufferedEvent('OtherService', 'event', 0)]);
+    });
+
+    it('should discard events buffered during a previous session', () => {
+      service.setUnknownServicePolicy(UnknownServicePolicy.BUFFER);
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT LateService an event');
+
+      mockedUnderlyingProtocol.serProtocol.complete();
+      mockedUnderlyingProtocol.serProtocol = new MockedSerProtocolSubject();
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+
+      expect(service.getBufferedEvents()).toEqual([]);
+    });
+  });
+
   describe('register()', () => {
     it('should throw if service name is already registered', () => {
       service.register('TestingService'); // Now registered
@@ -136,6 +290,59 @@ describe('SerProtocolService', () => {
     // Normal registration case tested inside bind() successfully done unit test
   });
 
+  describe('unregister()', () => {
+    it('should return false if service is not registered', () => {
+      expect(service.unregister('TestingService')).toBeFalse();
+    });
+
+    it('should make service name available again', () => {
+      service.register('TestingService');
+
+      expect(service.unregister('TestingService')).toBeTrue();
+      expect(() => service.register('TestingService')).not.toThrow();
+    });
+
+    it('should dispose service subject and drop its queued requests', () => {
+      const testingService: ServiceSubject = service.register('TestingService');
+      let failure: RequestDropped | undefined;
+      testingService.request('a queued request').subscribe({ next: unexpected, error: (err: RequestDropped) => failure = err });
+
+      service.unregister('TestingService');
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+
+      expect(mockedUnderlyingProtocol.serProtocol.nextCommand()).toBeUndefined(); // Dropped request isn't sent when bound
+      expect(failure).toEqual(new RequestDropped('TestingService', 'a queued request', 'Service was unregistered'));
+      expect(() => testingService.next('a random request')).toThrowError(ObjectUnsubscribedError);
+    });
+
+    it('should still resolve requests already sent', () => {
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+      let respondedUid: number | undefined;
+      service.register('TestingService').request('a random request').subscribe((requestUid: number) => respondedUid = requestUid);
+
+      service.unregister('TestingService');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeFalse();
+      expect(respondedUid).toEqual(0);
+    });
+
+    it('should ignore events for unregistered service until it is registered again', () => {
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+      service.register('TestingService');
+      service.unregister('TestingService');
+
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT TestingService a late event');
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeFalse();
+
+      let receivedEvent: string | undefined;
+      service.register('TestingService').subscribe((event: string) => receivedEvent = event);
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT TestingService a new event');
+
+      expect(receivedEvent).toEqual('a new event');
+    });
+  });
+
   describe('getErrors()', () => {
     it('should retrieve observable even inside unbound state', () => {
       service.getErrors().subscribe({ // Unbound state: no commands should be received, but observable should not complete
@@ -158,6 +365,78 @@ describe('SerProtocolService', () => {
     });
   });
 
+  describe('getProtocolErrors()', () => {
+    let protocolErrors: SerProtocolError[];
+
+    beforeEach(() => {
+      protocolErrors = [];
+      service.getProtocolErrors().subscribe((protocolError: SerProtocolError) => protocolErrors.push(protocolError));
+
+      mockedUnderlyingProtocol.state.next(RptlState.REGISTERED);
+    });
+
+    it('should report fatal command with its error, session and action', () => {
+      mockedUnderlyingProtocol.serProtocol.handleCommand('UNKNOWN a random command');
+
+      expect(protocolErrors).toEqual([new SerProtocolError(
+        'UNKNOWN a random command', new UnknownSerCommand('UNKNOWN'), 1, SerErrorAction.SESSION_ENDED
+      )]);
+      expect(protocolErrors[0].error).toBeInstanceOf(UnknownSerCommand);
+      expect(logger.entries).toEqual([new LogEntry(LogLevel.ERROR, 'Bad SER command', {
+        rptlMessage: 'SERVICE UNKNOWN a random command', rptlCommand: 'SERVICE', sessionId: 1, error: 'Bad SER command: Unknown command type: UNKNOWN'
+      })]);
+    });
+
+    it('should end session for a duplicated response with STRICT level', () => {
+      service.register('TestingService').next('a random request');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+      expect(protocolErrors.length).toEqual(1);
+      expect(protocolErrors[0].error).toBeInstanceOf(DuplicateResponse);
+      expect(protocolErrors[0].action).toEqual(SerErrorAction.SESSION_ENDED);
+    });
+
+    it('should tolerate recoverable anomalies with LENIENT level', () => {
+      service.setStrictness(SerStrictness.LENIENT);
+      service.register('TestingService').next('a random request');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK'); // Duplicated response
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 42 OK'); // Response for an unsent request
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeFalse();
+      expect(protocolErrors.map((protocolError: SerProtocolError) => protocolError.action)).toEqual([
+        SerErrorAction.IGNORED, SerErrorAction.IGNORED
+      ]);
+      expect(logger.entries.map((entry: LogEntry) => entry.level)).toEqual([LogLevel.WARN, LogLevel.WARN]);
+    });
+
+    it('should still end session for ill-formed commands with LENIENT level', () => {
+      service.setStrictness(SerStrictness.LENIENT);
+      mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0.0 OK');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+      expect(protocolErrors[0].action).toEqual(SerErrorAction.SESSION_ENDED);
+    });
+
+    it('should report session ending when command handling failed for another reason', () => {
+      const handlingError: Error = new Error('Handling failed');
+      spyOn(service.register('TestingService'), 'fire').and.throwError(handlingError);
+      service.setStrictness(SerStrictness.LENIENT); // Error isn't a BadSerCommand, so it can't be tolerated
+
+      mockedUnderlyingProtocol.serProtocol.handleCommand('EVENT TestingService a random event');
+
+      expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+      expect(protocolErrors).toEqual([new SerProtocolError(
+        'EVENT TestingService a random event', handlingError, 1, SerErrorAction.SESSION_ENDED
+      )]);
+      expect(logger.entries).toEqual([new LogEntry(LogLevel.ERROR, 'SER command handling failed', {
+        rptlMessage: 'SERVICE EVENT TestingService a random event', rptlCommand: 'SERVICE', sessionId: 1, error: 'Handling failed'
+      })]);
+    });
+  });
+
   describe('Commands handling', () => {
     // Commands should only be received inside bound state
     beforeEach(() => mockedUnderlyingProtocol.state.next(RptlState.REGISTERED));
@@ -197,6 +476,12 @@ describe('SerProtocolService', () => {
         expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
       });
 
+      it('should terminate session if request UID is not an unsigned integer', () => {
+        service.register('TestingService').next('a random request');
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0.0 OK'); // Would be UID 0 if converted with Number
+        expect(mockedUnderlyingProtocol.sessionTerminated).toBeTrue();
+      });
+
       it('should marks UID as done if response is OK', () => {
         // Sends a SR command to TestingService which will have request UID 0
         service.register('TestingService').next('a random request');
@@ -229,6 +514,67 @@ describe('SerProtocolService', () => {
         expect(serviceError).toBeDefined();
         expect(serviceError).toEqual('a random error');
       });
+
+      it('should notify failed request with its service and UID if response is KO', () => {
+        const failures: ServiceRequestFailed[] = [];
+        service.getRequestFailures().subscribe({
+          next: (failure: ServiceRequestFailed) => failures.push(failure),
+          error: unexpected,
+          complete: unexpected
+        });
+
+        service.register('TestingService').next('a random request');
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 KO a random error');
+
+        expect(failures).toEqual([new ServiceRequestFailed('TestingService', 0, 'a random error')]);
+      });
+
+      it('should resolve request() observable with UID if response is OK', () => {
+        let respondedUid: number | undefined;
+        let completed = false;
+        service.register('TestingService').request('a random request').subscribe({
+          next: (requestUid: number) => respondedUid = requestUid,
+          error: unexpected,
+          complete: () => completed = true
+        });
+
+        expect(completed).toBeFalse(); // Not responded yet
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+
+        expect(respondedUid).toEqual(0);
+        expect(completed).toBeTrue();
+      });
+
+      it('should count SR waiting for a response', () => {
+        const counts: number[] = [];
+        service.getPendingRequestsCount().subscribe((count: number) => counts.push(count));
+
+        const testingService = service.register('TestingService');
+        testingService.next('a first request');
+        testingService.next('a second request');
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 1 OK');
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 KO');
+
+        expect(counts).toEqual([0, 1, 2, 1, 0]);
+      });
+
+      it('should error request() observable with ServiceRequestFailed if response is KO', () => {
+        const testingService = service.register('TestingService');
+        let failure: ServiceRequestFailed | undefined;
+        testingService.next('a first request'); // Sent with UID 0, request() observable below is waiting for UID 1 only
+        testingService.request('a random request').subscribe({
+          next: unexpected,
+          error: (err: ServiceRequestFailed) => failure = err,
+          complete: unexpected
+        });
+
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 0 OK');
+        expect(failure).toBeUndefined(); // Another request was responded
+
+        mockedUnderlyingProtocol.serProtocol.handleCommand('RESPONSE 1 KO a random error');
+        expect(failure).toEqual(new ServiceRequestFailed('TestingService', 1, 'a random error'));
+        expect(failure?.message).toEqual('Service Request 1 to TestingService failed: a random error');
+      });
     });
   });
 });
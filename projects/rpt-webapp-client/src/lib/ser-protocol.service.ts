@@ -1,11 +1,24 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { RptlProtocolService, RptlState } from './rptl-protocol.service';
-import { Observable, Subject } from 'rxjs';
-import { CommandParser } from './command-parser';
-import { ServiceSubject } from './service-subject';
-import { ServiceContext } from './service-context';
+import { BehaviorSubject, Observable, SchedulerLike, Subject } from 'rxjs';
+import { CommandParser, ParsingError } from './command-parser';
+import { BadCommand } from './protocol-grammar';
+import { EVENT_COMMAND, RESPONSE_COMMAND } from './ser-grammar';
+import { QueuedRequestsPolicy, ServiceSubject } from './service-subject';
+import { PendingRequest, SentRequest, ServiceContext } from './service-context';
 import { ServiceRequestResponse } from './service-request-response';
-import { filter } from 'rxjs/operators';
+import { distinctUntilChanged, filter, map, switchMap } from 'rxjs/operators';
+import { RPT_SCHEDULER } from './rpt-scheduler';
+import { LogFields, RPT_LOGGER, RptLogger } from './rpt-logger';
+import {
+  BufferedEvent,
+  EventsBufferConfig,
+  makeEventsBufferConfig,
+  ServiceEventsBuffer,
+  UnknownServicePolicy
+} from './service-events-buffer';
+import { makeRequestsQueueConfig, RequestsQueueConfig } from './service-requests-queue';
+import { BadSerCommand, ServiceRequestFailed, UnexpectedResponse, UnknownSerCommand, UnknownServiceEvent } from './ser-errors';
 
 
 /**
@@ -22,15 +35,43 @@ export class UnavailableServiceName extends Error {
 
 
 /**
- * Thrown by `SerProtocolService` methods when received SER command is ill-formed.
+ * How `SerProtocolService` handles ill-formed or unexpected SER commands received from server:
+ * - `STRICT`: Every `BadSerCommand` is a protocol error, session is ended
+ * - `LENIENT`: Recoverable anomalies like an `UnexpectedResponse` are ignored, any other `BadSerCommand` ends session
+ *
+ * In any case, each `BadSerCommand` is reported by `SerProtocolService:getProtocolErrors()`, as well as any other error which ended session
+ * while a command was handled.
+ */
+export enum SerStrictness {
+  STRICT, LENIENT
+}
+
+
+/**
+ * What `SerProtocolService` did about a received SER command which is ill-formed or unexpected:
+ * - `SESSION_ENDED`: Command was fatal, RPTL session has been ended
+ * - `IGNORED`: Command was tolerated, nothing else happened
  */
-export class BadSerCommand extends Error {
+export enum SerErrorAction {
+  SESSION_ENDED, IGNORED
+}
+
+
+/**
+ * Emitted by `SerProtocolService:getProtocolErrors()` for each received SER command which couldn't be handled, whether command itself was
+ * faulty or its handling failed for another reason.
+ */
+export class SerProtocolError {
   /**
-   * @param reason Message explaining why received command was ill-formed
+   * @param serCommand Received SER command, without `SERVICE` RPTL command
+   * @param error Why command couldn't be handled, a `BadSerCommand` subtype if command itself was faulty
+   * @param sessionId Number of RPTL session command was received into
+   * @param action What was done about that command
    */
-  constructor(reason: string) {
-    super(`Bad SER command: ${reason}`);
-  }
+  constructor(readonly serCommand: string,
+              readonly error: Error,
+              readonly sessionId: number,
+              readonly action: SerErrorAction) {}
 }
 
 
@@ -43,9 +84,16 @@ export class BadSerCommand extends Error {
  *
  * For a SER service to use SER Protocol, an instance of this Angular service must be injected into Angular service of required SER
  * service. At construction, SER service (implemented with an Angular service) must call `register()` with service name passed as
- * argument, so it will be able to send SR commands and receive SE commands for it when SER protocol instance is into bound state.
+ * argument, so it will be able to send SR commands and receive SE commands for it when SER protocol instance is into bound state. When
+ * SER service is destroyed, it must call `unregister()` so service name is available again.
  *
  * Unbound is automatically done as soon as underlying RPTL protocol switches to unregistered mode.
+ *
+ * Each bound session has its own `ServiceContext`, so UIDs restart from 0 and a response to a request sent during a previous session is
+ * never accepted. When unbound, every request still waiting for a response is failed with `SessionLost`.
+ *
+ * An ill-formed or unexpected SER command ends RPTL session, unless it is a recoverable anomaly tolerated by strictness level set with
+ * `setStrictness()`. Each of them is reported by `getProtocolErrors()` with the action taken.
  */
 @Injectable({
   providedIn: 'root',
@@ -53,20 +101,55 @@ export class BadSerCommand extends Error {
 export class SerProtocolService {
   // SER services registry, with an underlying subject to listen for SE event from corresponding service
   private readonly services: { [name: string]: ServiceSubject };
-  // Context given to each service so they can access an available UID for their generated Service Request commands
-  private readonly context: ServiceContext;
+  // Services which have been unregistered, server might still send SE commands for them until it knows about it
+  private readonly unregisteredServices: Set<string>;
+  // Context given to each service so they can access an available UID for their generated Service Request commands, a new one is
+  // created for each bound session
+  private readonly contexts: BehaviorSubject<ServiceContext>;
   // Subject for every non-fatal error (errors due to KO SRR commands)
   private readonly errors: Subject<string>;
+  // Same errors, with failed request service and UID
+  private readonly requestFailures: Subject<ServiceRequestFailed>;
+  // Subject for every ill-formed or unexpected SER command received from server
+  private readonly protocolErrors: Subject<SerProtocolError>;
 
   // Into bound state, a SER Protocol instance is owning a strings subject to send and received SER commands which will be parsed by
   // this Angular service
   // Into unbound state, subject is stopped
   private commands: Subject<string>;
+  // What to do with requests queued after a session was lost
+  private queuedRequestsPolicy: QueuedRequestsPolicy;
+  // Notifies each time instance is bound or unbound
+  private readonly boundState: BehaviorSubject<boolean>;
+  // Set when a session has been lost, so requests queued since then are handled using queued requests policy
+  private sessionLost: boolean;
+  // What to do with events for services which aren't registered
+  private unknownServicePolicy: UnknownServicePolicy;
+  // Events kept for services which aren't registered yet, using `UnknownServicePolicy.BUFFER`
+  private eventsBuffer: ServiceEventsBuffer;
+  // Which SER protocol errors are tolerated
+  private strictness: SerStrictness;
 
-  constructor(private readonly underlyingProtocol: RptlProtocolService) {
+  /**
+   * @param underlyingProtocol RPTL protocol to exchange SER commands with
+   * @param scheduler Scheduler used to time out Service Requests and to date buffered events
+   * @param logger Logger for ignored events and SER protocol errors
+   */
+  constructor(private readonly underlyingProtocol: RptlProtocolService,
+              @Inject(RPT_SCHEDULER) private readonly scheduler: SchedulerLike,
+              @Inject(RPT_LOGGER) private readonly logger: RptLogger) {
     this.services = {}; // No registered services at construction
-    this.context = new ServiceContext();
+    this.unregisteredServices = new Set<string>();
+    this.contexts = new BehaviorSubject<ServiceContext>(new ServiceContext(scheduler)); // Provides UIDs for requests queued until bound
+    this.queuedRequestsPolicy = QueuedRequestsPolicy.REPLAY;
+    this.sessionLost = false;
+    this.boundState = new BehaviorSubject<boolean>(false);
+    this.unknownServicePolicy = UnknownServicePolicy.FATAL; // Unknown service is a protocol error unless configured otherwise
+    this.eventsBuffer = new ServiceEventsBuffer(makeEventsBufferConfig(), scheduler);
     this.errors = new Subject<string>();
+    this.requestFailures = new Subject<ServiceRequestFailed>();
+    this.protocolErrors = new Subject<SerProtocolError>();
+    this.strictness = SerStrictness.STRICT; // Any ill-formed command is fatal unless configured otherwise
     this.commands = new Subject<string>();
 
     // At construction, state is unbound, so no matter if subject is truth or mocked, it only needs to be stopped
@@ -74,62 +157,106 @@ export class SerProtocolService {
 
     // This service must be automatically bound to RPTL protocol as soon as it is registered <=> as soon as SER commands can be
     // exchanged with server
+    // If already registered at 1st injection, binds immediately as current state is provided at subscription
     this.underlyingProtocol.getState().pipe(filter((newState: RptlState) => newState === RptlState.REGISTERED)).subscribe({
       next: () => this.bind() // Will be automatically unbound when connection will be stopped
     });
+  }
 
-    // If already registered at 1st injection, binds immediately
-    if (this.underlyingProtocol.isSessionRunning() && this.underlyingProtocol.isRegistered()) {
-      this.bind();
+  private handleCommand(serCommand: string): void {
+    try {
+      this.dispatchCommand(serCommand);
+    } catch (err) { // Any parse failure means received command is ill-formed, other errors are rethrown as-is
+      if (err instanceof ParsingError) {
+        throw new BadSerCommand(err.message, err instanceof BadCommand ? err.diagnostic : undefined);
+      }
+
+      throw err;
     }
   }
 
-  private handleCommand(serCommand: string): void {
+  private dispatchCommand(serCommand: string): void {
     // Parses SER command name, from server it can be either EVENT or RESPONSE
-    const parsedSerCommand: CommandParser = new CommandParser(serCommand).parseTo([{ name: 'serCommandType', type: String }]);
+    const parsedSerCommand: CommandParser<{ serCommandType: string }> =
+      new CommandParser(serCommand).parseTo([{ name: 'serCommandType', type: String }]);
 
-    switch (String(parsedSerCommand.parsedData.serCommandType)) {
+    switch (parsedSerCommand.parsedData.serCommandType) {
       case 'EVENT': // Service Event command
-        // Parses involved service
-        const parsedServiceEvent: CommandParser = parsedSerCommand.parseTo([{ name: 'service', type: String }]);
+        // Parses involved service, remaining part is the Service command
+        const parsedServiceEvent: CommandParser<{ service: string, event: string }> =
+          EVENT_COMMAND.parseArguments(parsedSerCommand, serCommand);
         const target: string = parsedServiceEvent.parsedData.service;
         // If this service doesn't exist, its subject will not, so it will be undefined...
         const serviceEventsSubject: ServiceSubject | undefined = this.services[target];
 
-        if (serviceEventsSubject === undefined) { // ...in that case, there is an error
-          throw new BadSerCommand(`Service ${target} does not exist`);
+        if (serviceEventsSubject === undefined) { // ...in that case, unknown service policy applies unless service was just removed
+          if (!this.unregisteredServices.has(target)) {
+            this.handleUnknownService(target, parsedServiceEvent.parsedData.event);
+          }
+
+          break;
         }
 
-        serviceEventsSubject.fire(parsedServiceEvent.unparsed); // If service exists, notifies it about the Service command inside SE
+        serviceEventsSubject.fire(parsedServiceEvent.parsedData.event); // If service exists, notifies it about the SE Service command
 
         break;
       case 'RESPONSE': // Service Request Response command
-        // Parses which SR this SRR is responding to, and if it has succeed or not with string-convert type ServiceRequestResponse
-        const parsedRequestResponse: CommandParser = parsedSerCommand.parseTo([
-          { name: 'requestUid', type: Number }, { name: 'response', type: ServiceRequestResponse }
-        ]);
+        // Parses which SR this SRR is responding to, and if it has succeed or not converted into a ServiceRequestResponse
+        // The remaining part of a SRR command is an optional error message
+        const parsedRequestResponse: CommandParser<{ requestUid: number, response: ServiceRequestResponse, errorMessage: string }> =
+          RESPONSE_COMMAND.parseArguments(parsedSerCommand, serCommand);
+
+        const requestUid: number = parsedRequestResponse.parsedData.requestUid;
+        const respondedRequest: SentRequest = this.contexts.value.done(requestUid);
 
-        this.context.done(parsedRequestResponse.parsedData.requestUid);
+        if (parsedRequestResponse.parsedData.response.isSucceed()) { // Resolves caller waiting for that SR, if any
+          respondedRequest.response?.next(requestUid);
+          respondedRequest.response?.complete();
+        } else { // Errors must be handled by client, either globally or by caller waiting for that SR
+          const failure = new ServiceRequestFailed(respondedRequest.serviceName, requestUid, parsedRequestResponse.parsedData.errorMessage);
 
-        // Errors must be handled by client
-        if (!parsedRequestResponse.parsedData.response.isSucceed()) {
-          // The remaining part of a SRR command is an optional error message
-          this.errors.next(parsedRequestResponse.unparsed);
+          this.errors.next(failure.errorMessage);
+          this.requestFailures.next(failure);
+          respondedRequest.response?.error(failure);
         }
 
         break;
       default: // Throws a BadSerCommand as only EVENT and RESPONSE are allowed
-        throw new BadSerCommand(`Unknown command type: ${parsedSerCommand.parsedData.serCommandType}`);
+        throw new UnknownSerCommand(parsedSerCommand.parsedData.serCommandType);
+    }
+  }
+
+  /// Applies unknown service policy to an event for a service which isn't registered.
+  private handleUnknownService(serviceName: string, event: string): void {
+    switch (this.unknownServicePolicy) {
+      case UnknownServicePolicy.FATAL:
+        throw new UnknownServiceEvent(serviceName);
+      case UnknownServicePolicy.DROP:
+        this.logger.warn('Ignored event for unknown service', { serService: serviceName });
+        break;
+      case UnknownServicePolicy.BUFFER:
+        this.eventsBuffer.push(serviceName, event);
+        break;
     }
   }
 
   /// Sets Angular service to bound state, where it listens for SE and SRR commands, and sends SR commands to server.
   private bind(): void {
     this.commands = this.underlyingProtocol.getSerProtocol(); // Bound, must initialize commands subject
+    this.contexts.next(new ServiceContext(this.scheduler)); // New session, UIDs restart from 0
+    this.eventsBuffer.clear(); // Events buffered during a previous session are outdated
+
+    // Requests queued since a session was lost might be dropped instead of being sent into this new session
+    const dropQueued: boolean = this.sessionLost && this.queuedRequestsPolicy === QueuedRequestsPolicy.DROP;
+    this.sessionLost = false;
 
     for (const registeredService in this.services) { // A new SER protocol subject is available, receive/send from/to it for services
       if (this.services.hasOwnProperty(registeredService)) { // Checks if it is an expected dictionary property, not a built-in one
-        this.services[registeredService].boundWith(this.commands);
+        if (dropQueued) {
+          this.services[registeredService].dropQueued('Session was lost before it was sent');
+        }
+
+        this.services[registeredService].boundWith(this.commands, this.contexts.value);
       }
     }
 
@@ -140,11 +267,48 @@ export class SerProtocolService {
       next(serCommand: string): void { // For each RPTL messages invoking SERVICE command
         try {
           context.handleCommand(serCommand);
-        } catch (err: any) { // Any error at SER protocol level (not at Service level) is fatal
-          context.underlyingProtocol.endSession();
+        } catch (err: any) { // Errors at SER protocol level (not at Service level) are fatal unless they're tolerated
+          context.handleProtocolError(serCommand, err);
         }
-      }
+      },
+      error: () => context.unbind(),
+      complete: () => context.unbind()
     });
+
+    this.boundState.next(true);
+  }
+
+  /// Ends session if given error isn't tolerated with current strictness, reporting it in any case.
+  private handleProtocolError(serCommand: string, err: Error): void {
+    const sessionId: number = this.underlyingProtocol.getSessionId();
+    const fields: LogFields = { rptlMessage: `SERVICE ${serCommand}`, rptlCommand: 'SERVICE', sessionId };
+
+    if (!(err instanceof BadSerCommand)) { // Not caused by received command, but still left session into an unknown state
+      this.logger.error('SER command handling failed', { ...fields, error: err.message });
+      this.underlyingProtocol.endSession();
+      this.protocolErrors.next(new SerProtocolError(serCommand, err, sessionId, SerErrorAction.SESSION_ENDED));
+
+      return;
+    }
+
+    const tolerated: boolean = this.strictness === SerStrictness.LENIENT && err instanceof UnexpectedResponse;
+    const action: SerErrorAction = tolerated ? SerErrorAction.IGNORED : SerErrorAction.SESSION_ENDED;
+
+    if (tolerated) {
+      this.logger.warn('Ignored bad SER command', { ...fields, error: err.message });
+    } else {
+      this.logger.error('Bad SER command', { ...fields, error: err.message });
+      this.underlyingProtocol.endSession();
+    }
+
+    this.protocolErrors.next(new SerProtocolError(serCommand, err, sessionId, action));
+  }
+
+  /// Sets Angular service to unbound state, failing every request still waiting for a response.
+  private unbind(): void {
+    this.sessionLost = true;
+    this.contexts.value.abort();
+    this.boundState.next(false);
   }
 
   /**
@@ -155,29 +319,132 @@ export class SerProtocolService {
   }
 
   /**
-   * Makes SER protocol listening for events and sending request for service designated with given name.
+   * @returns Observable emitting `true` if instance is bound, `false` otherwise, then each time it is bound or unbound
+   */
+  getBoundState(): Observable<boolean> {
+    return this.boundState.asObservable();
+  }
+
+  /**
+   * Makes SER protocol listening for events and sending request for service designated with given name. Events buffered for that
+   * service using `UnknownServicePolicy.BUFFER` are fired asynchronously, before any new event.
    *
    * @param serviceName Identifier for service to register
+   * @param requestTimeout Default time in ms to wait for a response to this service requests, `Infinity` to wait indefinitely
+   * @param queueConfig Limits and storage for requests queued while unbound, default config for missing fields
    *
-   * @returns A subject to send and formats SR command with next() method, and to receive parsed SE events with next() *callback*
+   * @returns A subject to send and formats SR command with next() or request() methods, and to receive parsed SE events with next()
+   * *callback*
    *
    * @throws UnavailableServiceName if `serviceName` is already registered
+   * @throws BadRequestsQueueConfig if queue config has unusable values
    */
-  register(serviceName: string): Subject<string> {
+  register(serviceName: string, requestTimeout: number = Infinity, queueConfig: Partial<RequestsQueueConfig> = {}): ServiceSubject {
     if (this.services[serviceName] !== undefined) { // Checks for given name to be available
       throw new UnavailableServiceName(serviceName);
     }
 
-    const newServiceSubject: ServiceSubject = new ServiceSubject(this.context, serviceName, this.commands);
+    const newServiceSubject: ServiceSubject = new ServiceSubject(
+      this.contexts.value, serviceName, this.commands, requestTimeout, makeRequestsQueueConfig(queueConfig), this.scheduler
+    );
     this.services[serviceName] = newServiceSubject; // Makes an entry into registry so it is able to receive SE commands
+    this.unregisteredServices.delete(serviceName);
+
+    const bufferedEvents: string[] = this.eventsBuffer.take(serviceName);
+    if (bufferedEvents.length !== 0) { // Replayed asynchronously, so caller is able to subscribe to returned subject first
+      newServiceSubject.hold(bufferedEvents);
+      this.scheduler.schedule(() => newServiceSubject.fireHeld());
+    }
 
     return newServiceSubject; // Gives access to next() method so it is able to send SR commands
   }
 
   /**
-   * @returns Observable calling next() observers callback for each KO-responded Service Request.
+   * Removes service from registry so its name is available again, disposing its subject: queued SR commands are failed with
+   * `RequestDropped` and removed from storage, observers are completed and subject can no longer be used. Requests already sent still
+   * receive their response, and SE commands received for that service are ignored until it is registered again.
+   *
+   * @param serviceName Identifier for service to unregister
+   *
+   * @returns `true` if service was registered
+   */
+  unregister(serviceName: string): boolean {
+    const serviceSubject: ServiceSubject | undefined = this.services[serviceName];
+    if (serviceSubject === undefined) {
+      return false;
+    }
+
+    delete this.services[serviceName];
+    this.unregisteredServices.add(serviceName);
+    serviceSubject.dispose();
+
+    return true;
+  }
+
+  /**
+   * @returns Observable calling next() observers callback for each KO-responded Service Request, with error message sent by server.
    */
   getErrors(): Observable<string> {
     return this.errors;
   }
+
+  /**
+   * @returns Observable calling next() observers callback for each KO-responded Service Request, with service, UID and error message.
+   */
+  getRequestFailures(): Observable<ServiceRequestFailed> {
+    return this.requestFailures.asObservable();
+  }
+
+  /**
+   * @returns Observable notified for each ill-formed or unexpected SER command received from server, with error, session and action taken
+   */
+  getProtocolErrors(): Observable<SerProtocolError> {
+    return this.protocolErrors.asObservable();
+  }
+
+  /**
+   * @returns Observable emitting Service Requests waiting for a response, with their service, UID and age, then every time it changes
+   */
+  getPendingRequests(): Observable<PendingRequest[]> {
+    return this.contexts.pipe(switchMap((context: ServiceContext) => context.getPendingRequests()));
+  }
+
+  /**
+   * @returns Observable emitting count of Service Requests waiting for a response, then every time it changes
+   */
+  getPendingRequestsCount(): Observable<number> {
+    return this.getPendingRequests().pipe(map((pending: PendingRequest[]) => pending.length), distinctUntilChanged());
+  }
+
+  /**
+   * @param policy What to do with requests queued while unbound after a session was lost, `REPLAY` by default
+   */
+  setQueuedRequestsPolicy(policy: QueuedRequestsPolicy): void {
+    this.queuedRequestsPolicy = policy;
+  }
+
+  /**
+   * @param strictness Which ill-formed or unexpected SER commands end session, `STRICT` by default
+   */
+  setStrictness(strictness: SerStrictness): void {
+    this.strictness = strictness;
+  }
+
+  /**
+   * @param policy What to do when server sends an event for a service which isn't registered, `FATAL` by default
+   * @param bufferConfig Limits for buffered events using `UnknownServicePolicy.BUFFER`, default config for missing fields
+   *
+   * @throws BadEventsBufferConfig if buffer config has unusable values
+   */
+  setUnknownServicePolicy(policy: UnknownServicePolicy, bufferConfig: Partial<EventsBufferConfig> = {}): void {
+    this.eventsBuffer = new ServiceEventsBuffer(makeEventsBufferConfig(bufferConfig), this.scheduler); // Previous events are discarded
+    this.unknownServicePolicy = policy;
+  }
+
+  /**
+   * @returns Events currently buffered for services which aren't registered yet, for debugging purpose
+   */
+  getBufferedEvents(): BufferedEvent[] {
+    return this.eventsBuffer.getBufferedEvents();
+  }
 }
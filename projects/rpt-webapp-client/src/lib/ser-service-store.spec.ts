@@ -0,0 +1,288 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+import { OptimisticUpdateRolledBack, ReduceServiceEvent, SerServiceStore } from './ser-service-store';
+import { SerProtocolService } from './ser-protocol.service';
+import { ServiceRequestFailed, SessionLost } from './ser-errors';
+import { ServiceSubject } from './service-subject';
+import { SentRequest, ServiceContext } from './service-context';
+import { MockedSerProtocolSubject, unexpected } from './testing-helpers';
+import { toUid } from './argument-converters';
+import { OnServiceEvent } from './service-event-handler';
+import { makeRequestsQueueConfig, QueueOverflowPolicy, RequestsQueueConfig, RequestsQueueFull } from './service-requests-queue';
+
+
+/**
+ * Mocking for `SerProtocolService` registering a single service, with a controlled bound state.
+ */
+class MockedSerProtocol {
+  /**
+   * Mocks SER protocol bound state.
+   */
+  readonly bound: BehaviorSubject<boolean> = new BehaviorSubject<boolean>(true);
+
+  /**
+   * Context for registered service requests.
+   */
+  readonly context: ServiceContext = new ServiceContext();
+
+  /**
+   * Subject for registered service.
+   */
+  subject?: ServiceSubject;
+
+  /**
+   * Checks if unregister() has been called.
+   */
+  unregistered = false;
+
+  register(serviceName: string, requestTimeout: number, queueConfig: Partial<RequestsQueueConfig>): ServiceSubject {
+    this.subject = new ServiceSubject(
+      this.context, serviceName, new MockedSerProtocolSubject(), requestTimeout, makeRequestsQueueConfig(queueConfig)
+    );
+
+    return this.subject;
+  }
+
+  unregister(): boolean {
+    this.unregistered = true;
+
+    return true;
+  }
+
+  getBoundState(): Observable<boolean> {
+    return this.bound;
+  }
+
+  /**
+   * Mocks server responding OK to request with given UID.
+   */
+  respondOk(requestUid: number): void {
+    const { response }: SentRequest = this.context.done(requestUid);
+    response?.next(requestUid);
+    response?.complete();
+  }
+
+  /**
+   * Mocks server responding KO to request with given UID.
+   */
+  respondKo(requestUid: number): void {
+    this.context.done(requestUid).response?.error(new ServiceRequestFailed('Chat', requestUid, 'Not allowed'));
+  }
+}
+
+
+type ChatState = { messages: string[], members: number[] };
+
+
+/**
+ * SER service folding its events into a chat state.
+ */
+class ChatStore extends SerServiceStore<ChatState> {
+  notifications = 0;
+
+  constructor(protocol: MockedSerProtocol, queueConfig: Partial<RequestsQueueConfig> = {}) {
+    super(protocol as unknown as SerProtocolService, 'Chat', { messages: [], members: [] }, Infinity, queueConfig);
+  }
+
+  @ReduceServiceEvent('MESSAGE', [{ name: 'message', rest: true }])
+  onMessage(state: ChatState, { message }: { message: string }): ChatState {
+    return { ...state, messages: [...state.messages, message] };
+  }
+
+  @ReduceServiceEvent('JOIN', [{ name: 'member', type: toUid() }])
+  onJoin(state: ChatState, { member }: { member: number }): ChatState {
+    return { ...state, members: [...state.members, member] };
+  }
+
+  @OnServiceEvent('NOTIFY', [])
+  onNotify(): void {
+    this.notifications++;
+  }
+
+  post(message: string): Observable<number> {
+    return this.sendOptimistic('POST', [message], (state: ChatState) => ({ ...state, messages: [...state.messages, message] }), undefined,
+      (event: string, parsedArguments: object) => event === 'MESSAGE' && (parsedArguments as { message: string }).message === message);
+  }
+
+  invite(member: number): Observable<number> { // Server doesn't send any event for invited members
+    return this.sendOptimistic('INVITE', [member], (state: ChatState) => ({ ...state, members: [...state.members, member] }));
+  }
+}
+
+
+describe('SerServiceStore', () => {
+  let protocol: MockedSerProtocol;
+  let store: ChatStore;
+
+  beforeEach(() => {
+    protocol = new MockedSerProtocol();
+    store = new ChatStore(protocol);
+  });
+
+  it('should begin with initial state', () => {
+    expect(store.snapshot()).toEqual({ messages: [], members: [] });
+  });
+
+  it('should fold events with declared reducers', () => {
+    const states: ChatState[] = [];
+    store.getState().subscribe((state: ChatState) => states.push(state));
+
+    protocol.subject?.fire('MESSAGE Hello world');
+    protocol.subject?.fire('JOIN 42');
+
+    expect(states).toEqual([
+      { messages: [], members: [] }, { messages: ['Hello world'], members: [] }, { messages: ['Hello world'], members: [42] }
+    ]);
+    expect(store.snapshot()).toBe(states[2]);
+  });
+
+  it('should call other handlers as usual', () => {
+    protocol.subject?.fire('NOTIFY');
+
+    expect(store.notifications).toEqual(1);
+    expect(store.snapshot()).toEqual({ messages: [], members: [] });
+  });
+
+  it('should emit selected part only when it changes', () => {
+    const members: number[][] = [];
+    store.select((state: ChatState) => state.members).subscribe((selected: number[]) => members.push(selected));
+
+    protocol.subject?.fire('MESSAGE Hello world'); // Members are unchanged
+    protocol.subject?.fire('JOIN 42');
+
+    expect(members).toEqual([[], [42]]);
+  });
+
+  it('should reset to initial state when SER protocol is unbound', () => {
+    protocol.subject?.fire('JOIN 42');
+    protocol.bound.next(false);
+
+    expect(store.snapshot()).toEqual({ messages: [], members: [] });
+  });
+
+  describe('Optimistic updates', () => {
+    let rollbacks: OptimisticUpdateRolledBack[];
+
+    beforeEach(() => {
+      rollbacks = [];
+      store.getRollbacks().subscribe((rollback: OptimisticUpdateRolledBack) => rollbacks.push(rollback));
+    });
+
+    it('should apply patch as soon as request is sent', () => {
+      store.post('Hello');
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [] });
+    });
+
+    it('should keep patch once request is responded OK', () => {
+      store.post('Hello');
+      protocol.respondOk(0);
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [] });
+      expect(rollbacks).toEqual([]);
+    });
+
+    it('should roll back patch with a notification when request is responded KO', () => {
+      store.post('Hello');
+      store.post('World');
+      protocol.respondKo(0);
+
+      expect(store.snapshot()).toEqual({ messages: ['World'], members: [] }); // Later patches are still applied
+      expect(rollbacks.length).toEqual(1);
+      expect(rollbacks[0].requestUid).toEqual(0);
+      expect(rollbacks[0].cause).toBeInstanceOf(ServiceRequestFailed);
+    });
+
+    it('should roll back patch when session is lost', () => {
+      store.post('Hello');
+      protocol.context.abort();
+
+      expect(store.snapshot()).toEqual({ messages: [], members: [] });
+      expect(rollbacks[0].cause).toBeInstanceOf(SessionLost);
+    });
+
+    it('should apply pending patches over reduced events', () => {
+      store.post('Hello');
+      protocol.subject?.fire('JOIN 42');
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [42] });
+    });
+
+    it('should reconcile confirmed patch with its reduced event', () => {
+      store.post('Hello');
+      protocol.respondOk(0);
+      protocol.subject?.fire('MESSAGE Hello'); // Authoritative event for posted message
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [] }); // Message isn't duplicated
+    });
+
+    it('should only release each concurrent patch with its own event', () => {
+      store.post('Hello');
+      store.post('World');
+      protocol.respondOk(0);
+      protocol.respondOk(1);
+
+      protocol.subject?.fire('JOIN 42'); // Unrelated event
+      expect(store.snapshot()).toEqual({ messages: ['Hello', 'World'], members: [42] });
+
+      protocol.subject?.fire('MESSAGE Hello');
+      expect(store.snapshot()).toEqual({ messages: ['Hello', 'World'], members: [42] });
+
+      protocol.subject?.fire('MESSAGE World');
+      expect(store.snapshot()).toEqual({ messages: ['Hello', 'World'], members: [42] });
+
+      protocol.subject?.fire('MESSAGE World'); // Both patches released, posted again by someone else
+      expect(store.snapshot()).toEqual({ messages: ['Hello', 'World', 'World'], members: [42] });
+    });
+
+    it('should reconcile patch with its event received before response', () => {
+      store.post('Hello');
+      protocol.subject?.fire('MESSAGE Hello');
+      protocol.respondOk(0);
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [] });
+      expect(rollbacks).toEqual([]);
+    });
+
+    it('should fold patch without reconciling event once request is responded OK', () => {
+      store.invite(42);
+      store.post('Hello');
+      protocol.respondOk(0);
+
+      protocol.subject?.fire('MESSAGE Hello');
+      protocol.respondKo(1); // Post patch already released by its event, nothing to roll back
+
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [42] });
+      expect(rollbacks).toEqual([]);
+    });
+
+    it('should not apply patch when request is rejected by a full queue', () => {
+      store = new ChatStore(protocol, { maxLength: 1, overflowPolicy: QueueOverflowPolicy.REJECT });
+      const unboundCommands = new MockedSerProtocolSubject();
+      unboundCommands.complete(); // Every request is queued
+      protocol.subject?.boundWith(unboundCommands);
+
+      store.post('Hello');
+
+      expect(() => store.post('World')).toThrowError(RequestsQueueFull);
+      expect(store.snapshot()).toEqual({ messages: ['Hello'], members: [] }); // Only queued request is applied
+    });
+
+    it('should discard patches when reset', () => {
+      store.post('Hello');
+      store.reset();
+      protocol.respondKo(0); // Patch already discarded, nothing to roll back
+
+      expect(store.snapshot()).toEqual({ messages: [], members: [] });
+      expect(rollbacks).toEqual([]);
+    });
+  });
+
+  it('should unregister and complete state observers when destroyed', () => {
+    let completed = false;
+    store.getState().subscribe({ error: unexpected, complete: () => completed = true });
+    store.ngOnDestroy();
+
+    expect(protocol.unregistered).toBeTrue();
+    expect(completed).toBeTrue();
+  });
+});
@@ -0,0 +1,272 @@
+import { OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
+import { distinctUntilChanged, filter, map } from 'rxjs/operators';
+import { CommandArgument, CommandBuilder } from './command-builder';
+import { ArgumentScheme, ParsedArguments } from './command-parser';
+import { CommandGrammar } from './protocol-grammar';
+import { CommandMode } from './rptl-command-registry';
+import { SerProtocolService } from './ser-protocol.service';
+import { SerService } from './ser-service';
+import { declareEventHandler, eventHandlerMethod, ServiceEventHandler } from './service-event-handler';
+import { RequestsQueueConfig } from './service-requests-queue';
+
+
+/**
+ * Method decorator returned by `ReduceServiceEvent`, decorated method must take current state and parsed arguments, and return next state.
+ */
+export type ServiceReducerDecorator<S extends ArgumentScheme[]> =
+  (prototype: object, methodName: string, descriptor: { value?: (state: never, parsedArguments: ParsedArguments<S>) => unknown }) => void;
+
+
+/**
+ * Declares decorated `SerServiceStore` method as pure reducer for given Service Event. Event name is the first word of Service Event,
+ * following words are parsed with given schemes then passed to reducer with current state. Reducer must return a new state object
+ * instead of modifying current one.
+ *
+ * @example `@ReduceServiceEvent('MESSAGE', [{ name: 'author', type: toUid() }, { name: 'message', rest: true }])`
+ *
+ * @param event Name of reduced Service Event
+ * @param schemes Arguments schemes, following event name
+ *
+ * @returns Decorator for a method taking current state and parsed arguments
+ *
+ * @throws DuplicateEventHandler if decorated class already declares a handler or a reducer for that event
+ */
+export function ReduceServiceEvent<S extends ArgumentScheme<N>[], N extends string>(
+  event: string, schemes: [...S]
+): ServiceReducerDecorator<S> {
+  // Mode is meaningless for Service Events, which are all received into RPTL registered mode
+  const grammar = new CommandGrammar(event, CommandMode.REGISTERED, schemes);
+
+  return (prototype: object, methodName: string) =>
+    declareEventHandler(prototype, { grammar: grammar as CommandGrammar, methodName, reducer: true });
+}
+
+
+/**
+ * Emitted by `SerServiceStore:getRollbacks()` when an optimistic patch is rolled back because its Service Request failed.
+ */
+export class OptimisticUpdateRolledBack extends Error {
+  /**
+   * @param requestUid UID of failed Service Request, `undefined` if it was dropped before being sent
+   * @param cause Error Service Request failed with, e.g. `ServiceRequestFailed`, `RequestTimeout` or `SessionLost`
+   */
+  constructor(readonly requestUid: number | undefined, readonly cause: Error) {
+    super(`Optimistic update rolled back: ${cause.message}`);
+  }
+}
+
+
+/**
+ * Checks if a reduced Service Event is the one reconciling an optimistic patch, from event name and parsed arguments.
+ */
+export type ReconcilingEventMatcher = (event: string, parsedArguments: object) => boolean;
+
+
+// State patch applied before its Service Request is responded, with SR UID once sent and the event it is waiting for if any
+type OptimisticPatch<S> = { apply: (state: S) => S, requestUid?: number, reconciledBy?: ReconcilingEventMatcher };
+
+
+/**
+ * SER Service keeping an immutable state folded from its Service Events by reducers declared with `ReduceServiceEvent` decorator.
+ *
+ * Optimistic patches sent with `sendOptimistic()` are applied over the state folded from events until their Service Request is responded.
+ * A patch is rolled back if its request fails. If it expects a reconciling event, it is kept until that event is reduced, as event is
+ * authoritative and includes the change, otherwise it is folded into state once its request is responded OK. Other events never release
+ * a patch.
+ *
+ * State is reset to initial state each time `SerProtocolService` is unbound, as it is only meaningful inside a registered session.
+ */
+export class SerServiceStore<S> extends SerService implements OnDestroy {
+  // Current state, with optimistic patches applied over confirmed state
+  private readonly state: BehaviorSubject<S>;
+  // Notifies about every optimistic patch which was rolled back
+  private readonly rollbacks: Subject<OptimisticUpdateRolledBack>;
+  // Resets state each time SER protocol is unbound
+  private readonly unbindings: Subscription;
+
+  // State folded from events only, initial state if no event was reduced since last unbind
+  private confirmedState: S;
+  // Optimistic patches in sending order, removed once rolled back, folded or reconciled with their event
+  private patches: OptimisticPatch<S>[];
+
+  /**
+   * Should be called inside children constructor to make Service registered inside SER Protocol with its initial state.
+   *
+   * @param underlyingProtocol SER Protocol to register Service inside
+   * @param serviceName SER Service name which will be used for SR and SE commands
+   * @param initialState State before any event is reduced
+   * @param requestTimeout Default time in ms to wait for a response to Service Requests, `Infinity` to wait indefinitely
+   * @param queueConfig Limits and storage for Service Requests queued while SER Protocol is unbound
+   */
+  constructor(underlyingProtocol: SerProtocolService,
+              serviceName: string,
+              private readonly initialState: S,
+              requestTimeout: number = Infinity,
+              queueConfig: Partial<RequestsQueueConfig> = {}) {
+    super(underlyingProtocol, serviceName, requestTimeout, queueConfig);
+
+    this.state = new BehaviorSubject<S>(initialState);
+    this.rollbacks = new Subject<OptimisticUpdateRolledBack>();
+    this.confirmedState = initialState;
+    this.patches = [];
+    this.unbindings = underlyingProtocol.getBoundState().pipe(filter((bound: boolean) => !bound)).subscribe({
+      next: () => this.reset()
+    });
+  }
+
+  /**
+   * @returns Current state
+   */
+  snapshot(): S {
+    return this.state.value;
+  }
+
+  /**
+   * @returns Observable emitting current state, then each new state
+   */
+  getState(): Observable<S> {
+    return this.state.asObservable();
+  }
+
+  /**
+   * @param projection Pure function selecting a part of state
+   *
+   * @returns Observable emitting selected part of current state, then each time selected part changes
+   */
+  select<R>(projection: (state: S) => R): Observable<R> {
+    return this.state.pipe(map(projection), distinctUntilChanged());
+  }
+
+  /**
+   * @returns Observable emitting each optimistic patch rolled back after its Service Request failed
+   */
+  getRollbacks(): Observable<OptimisticUpdateRolledBack> {
+    return this.rollbacks.asObservable();
+  }
+
+  /**
+   * Goes back to initial state discarding every optimistic patch, if it isn't already current state.
+   */
+  reset(): void {
+    this.confirmedState = this.initialState;
+    this.patches = [];
+
+    this.publish();
+  }
+
+  /**
+   * Unregisters Service from SER Protocol, then completes state observers.
+   */
+  ngOnDestroy(): void {
+    super.ngOnDestroy();
+
+    this.unbindings.unsubscribe();
+    this.state.complete();
+    this.rollbacks.complete();
+  }
+
+  /**
+   * Sends a Service Request like `sendRequest()`, applying given patch to state until request is responded. Patch is rolled back if
+   * request fails, times out, is lost with session or is dropped, rollback being notified to `getRollbacks()` observers.
+   *
+   * If server responds OK, patch is folded into state unless a reconciling event is expected. In that case, patch is kept until the first
+   * reduced event it matches, even if that event is received before the response, so the change isn't applied twice.
+   *
+   * @param command Service Request name
+   * @param args Service Request arguments, quoted if necessary
+   * @param patch Pure function returning expected state once request is done, must not modify current state
+   * @param timeout Time in ms to wait for response, service default if unspecified
+   * @param reconciledBy Matches the event server sends for this change, if it sends one
+   *
+   * @returns Observable from `ServiceSubject:request()`
+   *
+   * @throws BadCommandArgument if an argument cannot be formatted, no patch is applied
+   * @throws RequestsQueueFull if request cannot be queued with `QueueOverflowPolicy.REJECT`, no patch is applied
+   * @protected
+   */
+  protected sendOptimistic(command: string,
+                           args: CommandArgument[],
+                           patch: (state: S) => S,
+                           timeout?: number,
+                           reconciledBy?: ReconcilingEventMatcher): Observable<number> {
+    const builder = new CommandBuilder(command);
+    for (const argument of args) {
+      builder.add(argument);
+    }
+
+    const optimisticPatch: OptimisticPatch<S> = { apply: patch, reconciledBy };
+    // Sent before patch is applied, so an ill-formed or rejected request doesn't change state
+    const response: Observable<number> =
+      this.serviceSubject.request(builder.build(), timeout, (requestUid: number) => optimisticPatch.requestUid = requestUid);
+
+    this.patches.push(optimisticPatch);
+    this.publish();
+
+    response.subscribe({
+      error: (err: Error) => this.rollback(optimisticPatch, err),
+      complete: () => this.confirm(optimisticPatch)
+    });
+
+    return response;
+  }
+
+  /**
+   * Reduces current state with declared reducer, other handlers are called as usual.
+   *
+   * @param handler Handler or reducer declared for received Service Event
+   * @param parsedArguments Service Event arguments parsed with handler schemes
+   * @protected
+   */
+  protected handleEvent(handler: ServiceEventHandler, parsedArguments: object): void {
+    if (!handler.reducer) {
+      super.handleEvent(handler, parsedArguments);
+      return;
+    }
+
+    this.confirmedState = eventHandlerMethod(this, handler)(this.confirmedState, parsedArguments) as S;
+    // Event is now part of confirmed state, so the first patch waiting for it is released, whether its request was responded or not
+    const reconciledIndex: number =
+      this.patches.findIndex((patch: OptimisticPatch<S>) => patch.reconciledBy?.(handler.grammar.name, parsedArguments) ?? false);
+    if (reconciledIndex !== -1) {
+      this.patches.splice(reconciledIndex, 1);
+    }
+
+    this.publish();
+  }
+
+  /// Folds given patch into confirmed state if it doesn't wait for an event and wasn't released or discarded in the meantime.
+  private confirm(patch: OptimisticPatch<S>): void {
+    const patchIndex: number = this.patches.indexOf(patch);
+    if (patch.reconciledBy !== undefined || patchIndex === -1) {
+      return;
+    }
+
+    this.patches.splice(patchIndex, 1);
+    this.confirmedState = patch.apply(this.confirmedState);
+
+    this.publish();
+  }
+
+  /// Removes given patch from applied patches and notifies about rollback, if patch wasn't discarded by a reset.
+  private rollback(patch: OptimisticPatch<S>, cause: Error): void {
+    const patchIndex: number = this.patches.indexOf(patch);
+    if (patchIndex === -1) {
+      return;
+    }
+
+    this.patches.splice(patchIndex, 1);
+    this.publish();
+
+    this.rollbacks.next(new OptimisticUpdateRolledBack(patch.requestUid, cause));
+  }
+
+  /// Applies optimistic patches over confirmed state, emitting result if it isn't current state.
+  private publish(): void {
+    const nextState: S = this.patches.reduce((state: S, patch: OptimisticPatch<S>) => patch.apply(state), this.confirmedState);
+
+    if (nextState !== this.state.value) {
+      this.state.next(nextState);
+    }
+  }
+}
@@ -1,24 +1,147 @@
-import { Subject } from 'rxjs';
+import { OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
 import { SerProtocolService } from './ser-protocol.service';
+import { RequestDropped } from './ser-errors';
+import { ServiceSubject } from './service-subject';
+import { CommandArgument, CommandBuilder } from './command-builder';
+import { CommandParser } from './command-parser';
+import { BadCommand, CommandDiagnostic, CommandGrammar, ProtocolGrammar } from './protocol-grammar';
+import { EventHandlerFailure, eventHandlerMethod, ServiceEventHandler, serviceEventHandlers } from './service-event-handler';
+import { QueueingOptions, RequestsQueueConfig } from './service-requests-queue';
+import { StoredRequest } from './requests-queue-storage';
 
 
 /**
  * Should be extended by Angular Services which are an implementation of a SER Service.
+ *
+ * Subclasses might declare handlers for Service Events with `OnServiceEvent` decorator, received events are then parsed and dispatched
+ * to them, unknown or ill-formed events and handler failures being reported by `getEventDiagnostics()`.
+ *
+ * Service is unregistered when Angular destroys it, e.g. when the lazy-loaded module providing it is destroyed, so it can be provided
+ * again later. Children overriding `ngOnDestroy()` must call `super.ngOnDestroy()`.
  */
-export class SerService {
+export class SerService implements OnDestroy {
   /**
-   * Provides subject to send Service Requests and receive Service Events.
+   * Provides subject to send Service Requests, optionally waiting for their response with `request()`, and receive Service Events.
    * @protected
    */
-  protected readonly serviceSubject: Subject<string>;
+  protected readonly serviceSubject: ServiceSubject;
+
+  // Reports unknown or ill-formed Service Events, if there are declared handlers
+  private readonly eventDiagnostics: Subject<CommandDiagnostic>;
 
   /**
    * Should be called inside children constructor to make Service registered inside SER Protocol and provides SER Service subject.
    *
    * @param underlyingProtocol SER Protocol to register Service inside
    * @param serviceName SER Service name which will be used for SR and SE commands
+   * @param requestTimeout Default time in ms to wait for a response to Service Requests, `Infinity` to wait indefinitely
+   * @param queueConfig Limits and storage for Service Requests queued while SER Protocol is unbound
+   */
+  constructor(private readonly underlyingProtocol: SerProtocolService,
+              private readonly serviceName: string,
+              requestTimeout: number = Infinity,
+              queueConfig: Partial<RequestsQueueConfig> = {}) {
+    this.serviceSubject = underlyingProtocol.register(serviceName, requestTimeout, queueConfig);
+    this.eventDiagnostics = new Subject<CommandDiagnostic>();
+
+    const handlers: Map<string, ServiceEventHandler> = serviceEventHandlers(this);
+    if (handlers.size !== 0) { // Raw Service Events are left to subclass if it doesn't declare any handler
+      const grammar = new ProtocolGrammar(serviceName, [...handlers.values()].map((handler: ServiceEventHandler) => handler.grammar));
+
+      this.dispatchEvents(grammar, handlers);
+    }
+  }
+
+  /**
+   * Formats and sends a Service Request from typed arguments, waiting for its response.
+   *
+   * @param command Service Request name
+   * @param args Service Request arguments, quoted if necessary
+   * @param timeout Time in ms to wait for response, service default if unspecified
+   * @param queueing Coalescing key and expiry applied if request is queued
+   *
+   * @returns Observable from `ServiceSubject:request()`
+   *
+   * @throws BadCommandArgument if an argument cannot be formatted
+   * @throws RequestsQueueFull if request cannot be queued with `QueueOverflowPolicy.REJECT`
+   */
+  protected sendRequest(command: string,
+                        args: CommandArgument[] = [],
+                        timeout?: number,
+                        queueing: QueueingOptions = {}): Observable<number> {
+    const builder = new CommandBuilder(command);
+    for (const argument of args) {
+      builder.add(argument);
+    }
+
+    return this.serviceSubject.request(builder.build(), timeout, undefined, queueing);
+  }
+
+  /**
+   * @returns Observable emitting Service Requests queued while SER Protocol is unbound, then every time queue changes
+   */
+  getQueuedRequests(): Observable<StoredRequest[]> {
+    return this.serviceSubject.getQueuedRequests();
+  }
+
+  /**
+   * @returns Observable emitting each Service Request dropped from queue without being sent
    */
-  constructor(underlyingProtocol: SerProtocolService, serviceName: string) {
-    this.serviceSubject = underlyingProtocol.register(serviceName);
+  getDroppedRequests(): Observable<RequestDropped> {
+    return this.serviceSubject.getDroppedRequests();
+  }
+
+  /**
+   * @returns Observable notified for each Service Event without handler or with arguments which don't match handler schemes, and with an
+   * `EventHandlerFailure` for each Service Event which handler has thrown
+   */
+  getEventDiagnostics(): Observable<CommandDiagnostic> {
+    return this.eventDiagnostics.asObservable();
+  }
+
+  /**
+   * Unregisters Service from SER Protocol, disposing its subject.
+   */
+  ngOnDestroy(): void {
+    this.underlyingProtocol.unregister(this.serviceName);
+  }
+
+  /**
+   * Calls declared handler with parsed Service Event arguments.
+   *
+   * @param handler Handler declared for received Service Event
+   * @param parsedArguments Service Event arguments parsed with handler schemes
+   * @protected
+   */
+  protected handleEvent(handler: ServiceEventHandler, parsedArguments: object): void {
+    eventHandlerMethod(this, handler)(parsedArguments);
+  }
+
+  /// Parses each Service Event with given grammar and calls its declared handler.
+  private dispatchEvents(grammar: ProtocolGrammar, handlers: Map<string, ServiceEventHandler>): void {
+    this.serviceSubject.subscribe({
+      next: (event: string) => {
+        let parsed: { grammar: CommandGrammar, parsedCommand: CommandParser<object> };
+        try {
+          parsed = grammar.parse(event);
+        } catch (err) { // Ill-formed events are reported instead of being thrown into SER protocol
+          if (!(err instanceof BadCommand)) {
+            throw err;
+          }
+
+          this.eventDiagnostics.next(err.diagnostic);
+          return;
+        }
+
+        try { // Grammar only knows about declared handlers
+          this.handleEvent(handlers.get(parsed.grammar.name) as ServiceEventHandler, parsed.parsedCommand.parsedData);
+        } catch (err) { // A throwing handler would otherwise stop this subscriber, so no other event would be dispatched
+          this.eventDiagnostics.next(new EventHandlerFailure(event, parsed.grammar.name, err));
+        }
+      },
+      // Subject errors, e.g. for failed requests, are stopping for subscribers, so events are still dispatched with a new subscriber
+      error: () => this.dispatchEvents(grammar, handlers)
+    });
   }
 }
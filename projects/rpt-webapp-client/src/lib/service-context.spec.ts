@@ -1,23 +1,40 @@
-import { ServiceContext } from './service-context';
-import { BadSerCommand } from './ser-protocol.service';
+import { AsyncSubject, VirtualTimeScheduler } from 'rxjs';
+import { PendingRequest, ServiceContext } from './service-context';
+import { BadSerCommand, RequestTimeout, SessionLost } from './ser-errors';
+import { unexpected } from './testing-helpers';
 
 describe('ServiceContext', () => {
+  let scheduler: VirtualTimeScheduler; // Controls time for requests timeouts
   let context: ServiceContext;
 
-  beforeEach(() => context = new ServiceContext()); // Works on a new instance for each unit test
+  /**
+   * Runs every action scheduled until given time (in ms) since unit test beginning.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now()); // Ensures virtual time will reach given time even without any action
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+  beforeEach(() => {
+    scheduler = new VirtualTimeScheduler(); // Virtual time begins at 0 for each unit test
+    context = new ServiceContext(scheduler); // Works on a new instance for each unit test
+  });
 
   it('should construct with 0 as 1st UID and without any waiting SR', () => {
     for (let uid = 0; uid < 20; uid++) { // No UID should be unavailable right after construction
       expect(() => context.done(uid)).toThrowError(BadSerCommand);
     }
 
-    expect(context.generateServiceRequestUid()).toEqual(0);
+    expect(context.generateServiceRequestUid('TestingService')).toEqual(0);
   });
 
   describe('generateServiceRequestUid()', () => {
     it('should increments UIDs by 1 and marks them as waiting', () => {
       for (let expectedUid = 0; expectedUid < 20; expectedUid++) { // Checks for UID incrementation
-        expect(context.generateServiceRequestUid()).toEqual(expectedUid);
+        expect(context.generateServiceRequestUid('TestingService')).toEqual(expectedUid);
       }
 
       // Should be able to marks as responded UID no matter the order
@@ -33,10 +50,108 @@ describe('ServiceContext', () => {
     });
 
     it('should marks as responded SR if it is waiting, and no longer accepts that UID', () => {
-      context.generateServiceRequestUid(); // Sends SR with UID 0
+      context.generateServiceRequestUid('TestingService'); // Sends SR with UID 0
 
       expect(() => context.done(0)).not.toThrow(); // Sent with 0, should mark it as responded
       expect(() => context.done(0)).toThrowError(BadSerCommand); // 0 no longer accepted, already responded
     });
+
+    it('should return service and response subject SR was sent with', () => {
+      const response = new AsyncSubject<number>();
+      context.generateServiceRequestUid('TestingService', response);
+
+      expect(context.done(0)).toEqual({ serviceName: 'TestingService', response });
+    });
+  });
+
+  describe('Timeouts', () => {
+    let response: AsyncSubject<number>;
+    let timeoutError: RequestTimeout | undefined;
+
+    beforeEach(() => {
+      response = new AsyncSubject<number>();
+      timeoutError = undefined;
+      response.subscribe({ next: unexpected, error: (err: RequestTimeout) => timeoutError = err });
+    });
+
+    it('should error response with RequestTimeout if SR is not responded in time', () => {
+      context.generateServiceRequestUid('TestingService', response, 500);
+
+      runUntil(499);
+      expect(timeoutError).toBeUndefined();
+
+      runUntil(500);
+      expect(timeoutError).toEqual(new RequestTimeout('TestingService', 0, 500));
+    });
+
+    it('should not time out SR responded in time', () => {
+      context.generateServiceRequestUid('TestingService', response, 500);
+      context.done(0);
+
+      runUntil(1000);
+      expect(timeoutError).toBeUndefined();
+    });
+
+    it('should accept a late response only once', () => {
+      context.generateServiceRequestUid('TestingService', response, 500);
+      runUntil(500);
+
+      expect(context.done(0).serviceName).toEqual('TestingService'); // Server responded late, not an ill-formed SRR
+      expect(() => context.done(0)).toThrowError(BadSerCommand);
+    });
+
+    it('should never time out SR with infinite timeout', () => {
+      context.generateServiceRequestUid('TestingService', response);
+
+      runUntil(1000000);
+      expect(timeoutError).toBeUndefined();
+    });
+  });
+
+  describe('abort()', () => {
+    it('should fail every request waiting for a response with SessionLost', () => {
+      const failures: SessionLost[] = [];
+      for (const serviceName of ['A', 'B']) {
+        const response = new AsyncSubject<number>();
+        response.subscribe({ next: unexpected, error: (err: SessionLost) => failures.push(err) });
+        context.generateServiceRequestUid(serviceName, response, 500);
+      }
+
+      context.abort();
+      runUntil(500); // Timeouts are cancelled
+
+      expect(failures).toEqual([new SessionLost('A', 0), new SessionLost('B', 1)]);
+      expect(() => context.done(0)).toThrowError(BadSerCommand); // No longer waiting
+    });
+  });
+
+  describe('getPendingRequests()', () => {
+    let pending: PendingRequest[];
+
+    beforeEach(() => context.getPendingRequests().subscribe((requests: PendingRequest[]) => pending = requests));
+
+    it('should list SR waiting for a response with their age', () => {
+      expect(pending).toEqual([]);
+
+      context.generateServiceRequestUid('A');
+      runUntil(100);
+      context.generateServiceRequestUid('B');
+      runUntil(250);
+
+      expect(pending.map((request: PendingRequest) => [request.serviceName, request.requestUid, request.age()]))
+        .toEqual([['A', 0, 250], ['B', 1, 150]]);
+    });
+
+    it('should remove responded and timed out SR', () => {
+      context.generateServiceRequestUid('A');
+      context.generateServiceRequestUid('B', undefined, 500);
+      context.generateServiceRequestUid('C');
+
+      context.done(0);
+      expect(pending.map((request: PendingRequest) => request.requestUid)).toEqual([1, 2]);
+
+      runUntil(500);
+      expect(pending.map((request: PendingRequest) => request.requestUid)).toEqual([2]);
+    });
   });
 });
@@ -1,30 +1,84 @@
 /**
  * Provides UID for each new Service Request into the RPTL session, and keeps UID for SR commands waiting for a response.
  */
-import { BadSerCommand } from './ser-protocol.service';
+import { AsyncSubject, asyncScheduler, BehaviorSubject, Observable, SchedulerLike, Subscription } from 'rxjs';
+import { DuplicateResponse, RequestTimeout, SessionLost, UnknownRequestUid } from './ser-errors';
+
+
+/**
+ * Service Request sent with a given UID: service it was sent to, and subject resolved with the SRR if caller is waiting for it.
+ */
+export type SentRequest = { serviceName: string, response?: AsyncSubject<number> };
+
+
+/**
+ * Service Request still waiting for a response, listed by `ServiceContext:getPendingRequests()`.
+ */
+export class PendingRequest {
+  /**
+   * @param serviceName Service the SR command was sent to
+   * @param requestUid UID of SR command
+   * @param sentAt Scheduler time at which SR command was sent
+   * @param scheduler Scheduler to compute request age with
+   */
+  constructor(readonly serviceName: string,
+              readonly requestUid: number,
+              readonly sentAt: number,
+              private readonly scheduler: SchedulerLike) {}
+
+  /**
+   * @returns Time in ms since SR command was sent
+   */
+  age(): number {
+    return this.scheduler.now() - this.sentAt;
+  }
+}
+
+
+// Sent request waiting for a response, with scheduler time it was sent at and its timeout action, if any
+type AwaitingRequest = SentRequest & { sentAt: number, timeout?: Subscription };
+
 
 export class ServiceContext {
-  // Service Request commands UID which are no longer available. Associated boolean notify if it was responded or if it is waiting for
-  // an appropriate response
-  private readonly awaitingRequests: { [requestUid: number]: boolean };
+  // Service Request commands waiting for a response, removed as soon as they are responded so registry doesn't grow during session
+  private readonly awaitingRequests: Map<number, AwaitingRequest>;
+  // Service Request commands which timed out, kept until server responds late so a late SRR isn't considered as ill-formed
+  private readonly timedOutRequests: Map<number, AwaitingRequest>;
+  // Notifies about every change inside awaiting requests
+  private readonly pendingRequests: BehaviorSubject<PendingRequest[]>;
 
   // Count to provide an UID to each Service Request sent by client, so it can be confirmed by server in the right order
   private uidProvider: number;
 
-  constructor() {
-    this.awaitingRequests = {}; // All UID are available at construction
+  /**
+   * @param scheduler Scheduler used to time out requests
+   */
+  constructor(private readonly scheduler: SchedulerLike = asyncScheduler) {
+    this.awaitingRequests = new Map<number, AwaitingRequest>(); // All UID are available at construction
+    this.timedOutRequests = new Map<number, AwaitingRequest>();
+    this.pendingRequests = new BehaviorSubject<PendingRequest[]>([]);
     this.uidProvider = 0;
   }
 
   /**
    * Gets an UID for the next SR command and marks that UID as awaiting for an appropriate SRR command.
    *
+   * @param serviceName Service the SR command is sent to
+   * @param response Subject to resolve with SRR command, if caller is waiting for it
+   * @param timeout Time in ms to wait for SRR command before `response` is errored with `RequestTimeout`, `Infinity` to wait indefinitely
+   *
    * @returns An available UID for a next Service Request to send
    */
-  generateServiceRequestUid(): number {
+  generateServiceRequestUid(serviceName: string, response?: AsyncSubject<number>, timeout: number = Infinity): number {
     const availableUid: number = this.uidProvider++; // Increments current UIDs count as current value become unavailable
+    const awaitingRequest: AwaitingRequest = { serviceName, response, sentAt: this.scheduler.now() };
 
-    this.awaitingRequests[availableUid] = false; // This UID is now unavailable and waiting for a response
+    if (timeout !== Infinity) { // Only fails request, a late response will still be accepted
+      awaitingRequest.timeout = this.scheduler.schedule(() => this.expire(availableUid, timeout), timeout);
+    }
+
+    this.awaitingRequests.set(availableUid, awaitingRequest); // This UID is now unavailable and waiting for a response
+    this.notifyPendingRequests();
 
     return availableUid;
   }
@@ -32,17 +86,81 @@ export class ServiceContext {
   /**
    * Marks given UID as responded.
    *
-   * @throws BadSerCommand if no SR was sent with that UID, or if it already is responded
+   * @param requestUid UID of responded SR command
+   *
+   * @returns Service Request which was sent with that UID
+   *
+   * @throws UnknownRequestUid if no SR was sent with that UID
+   * @throws DuplicateResponse if SR sent with that UID already is responded
    */
-  done(requestUid: number): void {
-    const currentRequestState: boolean | undefined = this.awaitingRequests[requestUid];
+  done(requestUid: number): SentRequest {
+    const lateRequest: AwaitingRequest | undefined = this.timedOutRequests.get(requestUid);
+    if (lateRequest !== undefined) { // Timed out request is responded late, it is no longer awaiting
+      this.timedOutRequests.delete(requestUid);
+
+      return { serviceName: lateRequest.serviceName, response: lateRequest.response };
+    }
 
-    if (currentRequestState === undefined) { // If there isn't any entry for that UID, it hasn't be used, SRR is ill-formed
-      throw new BadSerCommand(`No SR commands used UID ${requestUid}`);
-    } else if (currentRequestState) { // If there is an entry for that UID set to true, it has been responded, SRR is ill-formed
-      throw new BadSerCommand(`SR command with UID ${requestUid} already received a response`);
+    const awaitingRequest: AwaitingRequest | undefined = this.awaitingRequests.get(requestUid);
+
+    if (awaitingRequest === undefined) {
+      if (requestUid < this.uidProvider) { // UID was provided but has no entry, it has been responded, SRR is ill-formed
+        throw new DuplicateResponse(requestUid);
+      } else { // If UID wasn't provided yet, it hasn't be used, SRR is ill-formed
+        throw new UnknownRequestUid(requestUid);
+      }
     }
 
-    this.awaitingRequests[requestUid] = true; // If a request is waiting for a response with that UID, it has been responded
+    awaitingRequest.timeout?.unsubscribe(); // Responded in time
+    this.awaitingRequests.delete(requestUid); // If a request is waiting for a response with that UID, it has been responded
+    this.notifyPendingRequests();
+
+    return { serviceName: awaitingRequest.serviceName, response: awaitingRequest.response };
+  }
+
+  /**
+   * @returns Observable emitting current Service Requests waiting for a response, in sending order, then every time it changes
+   */
+  getPendingRequests(): Observable<PendingRequest[]> {
+    return this.pendingRequests.asObservable();
+  }
+
+  /**
+   * Fails every request still waiting for a response with `SessionLost`, as session they were sent into is over.
+   */
+  abort(): void {
+    const lostRequests: Map<number, AwaitingRequest> = new Map<number, AwaitingRequest>(this.awaitingRequests);
+
+    this.awaitingRequests.clear();
+    this.timedOutRequests.clear(); // Session is over, a late response will never be received
+    this.notifyPendingRequests();
+
+    lostRequests.forEach((lostRequest: AwaitingRequest, requestUid: number) => {
+      lostRequest.timeout?.unsubscribe();
+      lostRequest.response?.error(new SessionLost(lostRequest.serviceName, requestUid));
+    });
+  }
+
+  /// Fails request with given UID if it is still waiting for a response.
+  private expire(requestUid: number, timeout: number): void {
+    const awaitingRequest: AwaitingRequest | undefined = this.awaitingRequests.get(requestUid);
+    if (awaitingRequest === undefined) { // Responded in the meantime
+      return;
+    }
+
+    this.awaitingRequests.delete(requestUid);
+    this.timedOutRequests.set(requestUid, awaitingRequest);
+    this.notifyPendingRequests();
+
+    awaitingRequest.response?.error(new RequestTimeout(awaitingRequest.serviceName, requestUid, timeout));
+  }
+
+  /// Pushes current awaiting requests to pending requests observers.
+  private notifyPendingRequests(): void {
+    const pending: PendingRequest[] = [];
+    this.awaitingRequests.forEach((request: AwaitingRequest, requestUid: number) =>
+      pending.push(new PendingRequest(request.serviceName, requestUid, request.sentAt, this.scheduler)));
+
+    this.pendingRequests.next(pending);
   }
 }
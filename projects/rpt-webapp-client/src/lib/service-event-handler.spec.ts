@@ -0,0 +1,166 @@
+import { Observable } from 'rxjs';
+import { DuplicateEventHandler, EventHandlerFailure, OnServiceEvent, serviceEventHandlers } from './service-event-handler';
+import { SerService } from './ser-service';
+import { SerProtocolService } from './ser-protocol.service';
+import { ServiceSubject } from './service-subject';
+import { ServiceContext } from './service-context';
+import { MockedSerProtocolSubject, unexpected } from './testing-helpers';
+import { toUid } from './argument-converters';
+import { CommandDiagnostic } from './protocol-grammar';
+
+
+/**
+ * Mocking for `SerProtocolService` registering a single service into a bound mocked SER protocol.
+ */
+class MockedSerProtocol {
+  /**
+   * Mocks SR commands sending.
+   */
+  readonly commands: MockedSerProtocolSubject = new MockedSerProtocolSubject();
+
+  /**
+   * Subject for registered service.
+   */
+  subject?: ServiceSubject;
+
+  register(serviceName: string): ServiceSubject {
+    this.subject = new ServiceSubject(new ServiceContext(), serviceName, this.commands);
+
+    return this.subject;
+  }
+}
+
+
+/**
+ * SER service declaring typed handlers for its events.
+ */
+class ChatService extends SerService {
+  readonly messages: [number, string][] = [];
+  readonly typing: number[] = [];
+
+  constructor(protocol: MockedSerProtocol) {
+    super(protocol as unknown as SerProtocolService, 'Chat');
+  }
+
+  @OnServiceEvent('MESSAGE', [{ name: 'author', type: toUid() }, { name: 'message', rest: true }])
+  onMessage({ author, message }: { author: number, message: string }): void {
+    this.messages.push([author, message]);
+  }
+
+  @OnServiceEvent('TYPING', [{ name: 'actor', type: toUid() }])
+  onTyping({ actor }: { actor: number }): void {
+    this.typing.push(actor);
+  }
+
+  send(message: string): Observable<number> {
+    return this.sendRequest('MESSAGE', [message]);
+  }
+}
+
+
+/**
+ * Overrides a parent handler and declares a new one.
+ */
+class ModeratedChatService extends ChatService {
+  readonly cleared: boolean[] = [];
+
+  @OnServiceEvent('TYPING', [])
+  onTyping(): void {} // Typing notifications are hidden
+
+  @OnServiceEvent('CLEAR', [])
+  onClear(): void {
+    this.cleared.push(true);
+  }
+}
+
+
+describe('OnServiceEvent', () => {
+  let protocol: MockedSerProtocol;
+
+  beforeEach(() => protocol = new MockedSerProtocol());
+
+  it('should throw if an event is handled twice by a class', () => {
+    expect(() => {
+      class BadService {
+        @OnServiceEvent('EVENT', [])
+        first(): void {}
+
+        @OnServiceEvent('EVENT', [])
+        second(): void {}
+      }
+
+      return BadService;
+    }).toThrowError(DuplicateEventHandler);
+  });
+
+  it('should collect handlers from class and its parents', () => {
+    const handlers = serviceEventHandlers(new ModeratedChatService(protocol));
+
+    expect([...handlers.keys()]).toEqual(['TYPING', 'CLEAR', 'MESSAGE']);
+    expect(handlers.get('TYPING')?.grammar.schemes).toEqual([]); // Child handler overrides parent one
+  });
+
+  it('should dispatch parsed events to declared handlers', () => {
+    const service = new ChatService(protocol);
+
+    protocol.subject?.fire('MESSAGE 42 Hello world');
+    protocol.subject?.fire('TYPING 0');
+
+    expect(service.messages).toEqual([[42, 'Hello world']]);
+    expect(service.typing).toEqual([0]);
+  });
+
+  it('should report unknown or ill-formed events instead of throwing', () => {
+    const service = new ChatService(protocol);
+    const diagnostics: CommandDiagnostic[] = [];
+    service.getEventDiagnostics().subscribe((diagnostic: CommandDiagnostic) => diagnostics.push(diagnostic));
+
+    expect(() => protocol.subject?.fire('UNKNOWN')).not.toThrow();
+    expect(() => protocol.subject?.fire('TYPING abc')).not.toThrow();
+
+    expect(diagnostics.map((diagnostic: CommandDiagnostic) => [diagnostic.offset, diagnostic.expectedArgument]))
+      .toEqual([[0, 'command'], [7, 'actor']]);
+    expect(service.typing).toEqual([]);
+  });
+
+  it('should keep dispatching after service subject was errored', () => {
+    const service = new ChatService(protocol);
+
+    protocol.subject?.error(new Error('A random error'));
+    protocol.subject?.fire('TYPING 1');
+
+    expect(service.typing).toEqual([1]);
+  });
+
+  it('should report throwing handlers and keep dispatching', () => {
+    const handlerError = new Error('A random error');
+    const service = new ChatService(protocol);
+    const diagnostics: CommandDiagnostic[] = [];
+    service.getEventDiagnostics().subscribe((diagnostic: CommandDiagnostic) => diagnostics.push(diagnostic));
+    spyOn(service, 'onTyping').and.throwError(handlerError);
+
+    expect(() => protocol.subject?.fire(' TYPING 1')).not.toThrow();
+    protocol.subject?.fire('MESSAGE 1 Hello world');
+
+    expect(diagnostics).toEqual([new EventHandlerFailure(' TYPING 1', 'TYPING', handlerError)]);
+    expect(diagnostics[0].pointer()).toEqual(' TYPING 1\n ^');
+    expect(diagnostics[0].reason).toEqual('Handler failed: A random error');
+    expect(service.messages).toEqual([[1, 'Hello world']]);
+  });
+
+  it('should dispatch with overridden handlers', () => {
+    const service = new ModeratedChatService(protocol);
+
+    protocol.subject?.fire('TYPING 0');
+    protocol.subject?.fire('CLEAR');
+
+    expect(service.typing).toEqual([]);
+    expect(service.cleared).toEqual([true]);
+  });
+
+  it('should format typed requests', () => {
+    new ChatService(protocol).send('Hello world').subscribe({ error: unexpected });
+
+    expect(protocol.commands.nextCommand()).toEqual('SERVICE REQUEST 0 Chat MESSAGE "Hello world"');
+  });
+});
@@ -0,0 +1,130 @@
+import { ArgumentScheme, ParsedArguments } from './command-parser';
+import { CommandDiagnostic, CommandGrammar } from './protocol-grammar';
+import { CommandMode } from './rptl-command-registry';
+
+
+/**
+ * Thrown by `OnServiceEvent` if a class declares two handlers for the same Service Event.
+ */
+export class DuplicateEventHandler extends Error {
+  /**
+   * @param event Service Event name handled twice
+   */
+  constructor(event: string) {
+    super(`Service Event ${event} already has a handler`);
+  }
+}
+
+
+/**
+ * Reported by `SerService:getEventDiagnostics()` when the declared handler of a well-formed Service Event throws, so other events are
+ * still dispatched.
+ */
+export class EventHandlerFailure extends CommandDiagnostic {
+  /**
+   * @param message Whole Service Event
+   * @param command Name of Service Event
+   * @param error What handler has thrown
+   */
+  constructor(message: string, command: string, readonly error: unknown) {
+    super(message, message.search(/[^ ]/), command, `Handler failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+
+/**
+ * Service Event handler declared with `OnServiceEvent` or `ReduceServiceEvent`: grammar to parse event with, name of handling method, and
+ * whether that method is a state reducer.
+ */
+export type ServiceEventHandler = { grammar: CommandGrammar, methodName: string, reducer: boolean };
+
+
+/**
+ * Method decorator returned by `OnServiceEvent`, decorated method must take parsed arguments as its only argument.
+ */
+export type ServiceEventDecorator<S extends ArgumentScheme[]> =
+  (prototype: object, methodName: string, descriptor: { value?: (parsedArguments: ParsedArguments<S>) => void }) => void;
+
+
+// Handlers declared by each SER service class, keyed by class prototype
+const declaredHandlers = new WeakMap<object, Map<string, ServiceEventHandler>>();
+
+
+/**
+ * Declares decorated `SerService` method as handler for given Service Event. Event name is the first word of Service Event, following
+ * words are parsed with given schemes then passed to handler as its only argument.
+ *
+ * @example `@OnServiceEvent('MESSAGE', [{ name: 'author', type: toUid() }, { name: 'message', rest: true }])`
+ *
+ * @param event Name of handled Service Event
+ * @param schemes Arguments schemes, following event name
+ *
+ * @returns Decorator for a method taking parsed arguments
+ *
+ * @throws DuplicateEventHandler if decorated class already declares a handler for that event
+ */
+export function OnServiceEvent<S extends ArgumentScheme<N>[], N extends string>(event: string, schemes: [...S]): ServiceEventDecorator<S> {
+  // Mode is meaningless for Service Events, which are all received into RPTL registered mode
+  const grammar = new CommandGrammar(event, CommandMode.REGISTERED, schemes);
+
+  return (prototype: object, methodName: string) =>
+    declareEventHandler(prototype, { grammar: grammar as CommandGrammar, methodName, reducer: false });
+}
+
+
+/**
+ * Saves handler declaration for given class, so it will be retrieved by `serviceEventHandlers()`.
+ *
+ * @param prototype Prototype of declaring class
+ * @param handler Declared handler
+ *
+ * @throws DuplicateEventHandler if class already declares a handler for that event
+ */
+export function declareEventHandler(prototype: object, handler: ServiceEventHandler): void {
+  const classHandlers: Map<string, ServiceEventHandler> = declaredHandlers.get(prototype) ?? new Map<string, ServiceEventHandler>();
+  if (classHandlers.has(handler.grammar.name)) {
+    throw new DuplicateEventHandler(handler.grammar.name);
+  }
+
+  classHandlers.set(handler.grammar.name, handler);
+  declaredHandlers.set(prototype, classHandlers);
+}
+
+
+/**
+ * @param service SER service instance to retrieve handlers for
+ *
+ * @returns Handlers declared by service class and its parents, keyed by event name, a class handler overriding its parents one
+ */
+export function serviceEventHandlers(service: object): Map<string, ServiceEventHandler> {
+  const handlers = new Map<string, ServiceEventHandler>();
+
+  // Walks from service class to its farthest parent, so handlers already set by a child are kept
+  for (let prototype: object | null = Object.getPrototypeOf(service); prototype !== null; prototype = Object.getPrototypeOf(prototype)) {
+    declaredHandlers.get(prototype)?.forEach((handler: ServiceEventHandler, event: string) => {
+      if (!handlers.has(event)) {
+        handlers.set(event, handler);
+      }
+    });
+  }
+
+  return handlers;
+}
+
+
+/**
+ * @param service SER service instance handling an event
+ * @param handler Handler declared by service class or one of its parents
+ *
+ * @returns Declared method as defined for service, so a child overriding it without decorator is still called, bound to that service
+ *
+ * @throws TypeError if service has no method with declared name
+ */
+export function eventHandlerMethod(service: object, handler: ServiceEventHandler): (...args: unknown[]) => unknown {
+  const method: unknown = Reflect.get(service, handler.methodName);
+  if (typeof method !== 'function') {
+    throw new TypeError(`Service Event ${handler.grammar.name} handler ${handler.methodName} isn't a method`);
+  }
+
+  return (...args: unknown[]) => method.apply(service, args);
+}
@@ -0,0 +1,83 @@
+import { VirtualTimeScheduler } from 'rxjs';
+import {
+  BadEventsBufferConfig,
+  BufferedEvent,
+  DEFAULT_EVENTS_BUFFER_CONFIG,
+  makeEventsBufferConfig,
+  ServiceEventsBuffer
+} from './service-events-buffer';
+
+
+describe('ServiceEventsBuffer', () => {
+  let scheduler: VirtualTimeScheduler; // Controls time for events age
+  let buffer: ServiceEventsBuffer;
+
+  /**
+   * Runs every action scheduled until given time (in ms) since unit test beginning.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now()); // Ensures virtual time will reach given time even without any action
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+  beforeEach(() => {
+    scheduler = new VirtualTimeScheduler(); // Virtual time begins at 0 for each unit test
+    buffer = new ServiceEventsBuffer(makeEventsBufferConfig({ maxEvents: 2, maxAge: 1000 }), scheduler);
+  });
+
+  describe('makeEventsBufferConfig()', () => {
+    it('should use default values for missing fields', () => {
+      expect(makeEventsBufferConfig()).toEqual(DEFAULT_EVENTS_BUFFER_CONFIG);
+      expect(makeEventsBufferConfig({ maxAge: Infinity })).toEqual({ ...DEFAULT_EVENTS_BUFFER_CONFIG, maxAge: Infinity });
+    });
+
+    it('should throw if max events count is not a strictly positive integer', () => {
+      expect(() => makeEventsBufferConfig({ maxEvents: 0 })).toThrowError(BadEventsBufferConfig);
+      expect(() => makeEventsBufferConfig({ maxEvents: 1.5 })).toThrowError(BadEventsBufferConfig);
+    });
+
+    it('should throw if max age is not strictly positive', () => {
+      expect(() => makeEventsBufferConfig({ maxAge: 0 })).toThrowError(BadEventsBufferConfig);
+    });
+  });
+
+  it('should take events for a service in reception order only once', () => {
+    buffer.push('A', 'event 1');
+    buffer.push('B', 'event');
+    buffer.push('A', 'event 2');
+
+    expect(buffer.take('A')).toEqual(['event 1', 'event 2']);
+    expect(buffer.take('A')).toEqual([]);
+    expect(buffer.getBufferedEvents()).toEqual([new BufferedEvent('B', 'event', 0)]);
+  });
+
+  it('should discard oldest events when max events count is reached', () => {
+    buffer.push('A', 'event 1');
+    buffer.push('A', 'event 2');
+    buffer.push('A', 'event 3');
+
+    expect(buffer.take('A')).toEqual(['event 2', 'event 3']);
+  });
+
+  it('should discard events older than max age', () => {
+    buffer.push('A', 'event 1');
+    runUntil(500);
+    buffer.push('A', 'event 2');
+
+    runUntil(1000);
+    expect(buffer.getBufferedEvents()).toEqual([new BufferedEvent('A', 'event 1', 0), new BufferedEvent('A', 'event 2', 500)]);
+
+    runUntil(1001);
+    expect(buffer.take('A')).toEqual(['event 2']);
+  });
+
+  it('should discard every event when cleared', () => {
+    buffer.push('A', 'event');
+    buffer.clear();
+
+    expect(buffer.getBufferedEvents()).toEqual([]);
+  });
+});
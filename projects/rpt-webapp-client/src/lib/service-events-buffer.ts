@@ -0,0 +1,164 @@
+import { SchedulerLike } from 'rxjs';
+
+
+/**
+ * What `SerProtocolService` does when server sends a Service Event for a service which isn't registered:
+ * - `FATAL`: Event is a SER protocol error, session is ended
+ * - `DROP`: Event is ignored with a warning
+ * - `BUFFER`: Event is kept into a `ServiceEventsBuffer`, then replayed to service once it is registered
+ */
+export enum UnknownServicePolicy {
+  FATAL, DROP, BUFFER
+}
+
+
+/**
+ * Configures how many Service Events are buffered for unknown services:
+ * - `maxEvents`: Max count of events kept for each service, oldest events are discarded first
+ * - `maxAge`: Time in ms after which a buffered event is discarded, `Infinity` to keep events until their service is registered
+ */
+export type EventsBufferConfig = {
+  maxEvents: number,
+  maxAge: number
+};
+
+
+/**
+ * Config used for every `EventsBufferConfig` field which isn't provided to `SerProtocolService:setUnknownServicePolicy()`.
+ */
+export const DEFAULT_EVENTS_BUFFER_CONFIG: EventsBufferConfig = {
+  maxEvents: 100,
+  maxAge: 30000
+};
+
+
+/**
+ * Thrown if an events buffer config has unusable values.
+ */
+export class BadEventsBufferConfig extends Error {
+  /**
+   * @param reason Message explaining which config field is invalid
+   */
+  constructor(reason: string) {
+    super(`Bad events buffer config: ${reason}`);
+  }
+}
+
+
+/**
+ * Merges given config fields with default config, checking for each value to be valid.
+ *
+ * @param config Fields overriding default config
+ *
+ * @returns Complete events buffer config
+ *
+ * @throws BadEventsBufferConfig if max events count isn't a strictly positive integer, or if max age isn't strictly positive
+ */
+export function makeEventsBufferConfig(config: Partial<EventsBufferConfig> = {}): EventsBufferConfig {
+  const completeConfig: EventsBufferConfig = { ...DEFAULT_EVENTS_BUFFER_CONFIG, ...config };
+
+  if (!Number.isInteger(completeConfig.maxEvents) || completeConfig.maxEvents <= 0) {
+    throw new BadEventsBufferConfig('Max events count must be a strictly positive integer');
+  }
+
+  if (completeConfig.maxAge <= 0) {
+    throw new BadEventsBufferConfig('Max age must be strictly positive');
+  }
+
+  return completeConfig;
+}
+
+
+/**
+ * Service Event received for a service which wasn't registered yet.
+ */
+export class BufferedEvent {
+  /**
+   * @param serviceName Service targeted by event
+   * @param event Service Event command
+   * @param receivedAt Scheduler time at which event was received
+   */
+  constructor(readonly serviceName: string, readonly event: string, readonly receivedAt: number) {}
+}
+
+
+/**
+ * Keeps Service Events received for unknown services, in reception order, within count and age limits.
+ */
+export class ServiceEventsBuffer {
+  // Buffered events for each unknown service, in reception order
+  private readonly events: Map<string, BufferedEvent[]>;
+
+  /**
+   * @param config Limits for buffered events
+   * @param scheduler Scheduler to take events reception time from
+   */
+  constructor(readonly config: EventsBufferConfig, private readonly scheduler: SchedulerLike) {
+    this.events = new Map<string, BufferedEvent[]>();
+  }
+
+  /**
+   * Buffers given event, discarding oldest event for that service if max events count is reached.
+   *
+   * @param serviceName Service targeted by event
+   * @param event Service Event command
+   */
+  push(serviceName: string, event: string): void {
+    const serviceEvents: BufferedEvent[] = this.eventsFor(serviceName);
+    serviceEvents.push(new BufferedEvent(serviceName, event, this.scheduler.now()));
+
+    if (serviceEvents.length > this.config.maxEvents) { // Only one event pushed at once, only one event to discard
+      serviceEvents.shift();
+    }
+
+    this.events.set(serviceName, serviceEvents);
+  }
+
+  /**
+   * Removes buffered events for given service.
+   *
+   * @param serviceName Service to take events for
+   *
+   * @returns Events which weren't discarded for that service, in reception order
+   */
+  take(serviceName: string): string[] {
+    const serviceEvents: BufferedEvent[] = this.eventsFor(serviceName);
+    this.events.delete(serviceName);
+
+    return serviceEvents.map((buffered: BufferedEvent) => buffered.event);
+  }
+
+  /**
+   * @returns Every event which wasn't discarded, grouped by service in order of their first buffered event
+   */
+  getBufferedEvents(): BufferedEvent[] {
+    const bufferedEvents: BufferedEvent[] = [];
+    for (const serviceName of [...this.events.keys()]) {
+      bufferedEvents.push(...this.eventsFor(serviceName));
+    }
+
+    return bufferedEvents;
+  }
+
+  /**
+   * Discards every buffered event.
+   */
+  clear(): void {
+    this.events.clear();
+  }
+
+  /// Retrieves events for given service which are not too old, forgetting about service if there are no more events.
+  private eventsFor(serviceName: string): BufferedEvent[] {
+    const oldestAllowed: number = this.scheduler.now() - this.config.maxAge;
+    const serviceEvents: BufferedEvent[] =
+      (this.events.get(serviceName) ?? []).filter((buffered: BufferedEvent) => buffered.receivedAt >= oldestAllowed);
+
+    if (serviceEvents.length === 0) {
+      this.events.delete(serviceName);
+    } else {
+      this.events.set(serviceName, serviceEvents);
+    }
+
+    return serviceEvents;
+  }
+}
@@ -1,5 +1,5 @@
 import { ServiceRequestResponse } from './service-request-response';
-import { BadSerCommand } from './ser-protocol.service';
+import { BadSerCommand } from './ser-errors';
 
 describe('ServiceRequestResponse', () => {
   it('should throw if response is not OK or KO', () => {
@@ -1,4 +1,4 @@
-import { BadSerCommand } from './ser-protocol.service';
+import { BadSerCommand } from './ser-errors';
 
 
 /**
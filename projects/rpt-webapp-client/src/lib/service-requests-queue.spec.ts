@@ -0,0 +1,195 @@
+import { VirtualTimeScheduler } from 'rxjs';
+import {
+  BadRequestsQueueConfig,
+  DEFAULT_REQUESTS_QUEUE_CONFIG,
+  makeRequestsQueueConfig,
+  QueuedRequest,
+  QueueOverflowPolicy,
+  RequestsQueueConfig,
+  RequestsQueueFull,
+  ServiceRequestsQueue
+} from './service-requests-queue';
+import { MemoryRequestsQueueStorage, StoredRequest } from './requests-queue-storage';
+import { unexpected } from './testing-helpers';
+
+
+describe('ServiceRequestsQueue', () => {
+  let scheduler: VirtualTimeScheduler; // Controls time for requests expiry
+  let storage: MemoryRequestsQueueStorage;
+  let dropped: [string, string][]; // Each dropped request with its reason
+
+  /**
+   * Runs every action scheduled until given time (in ms) since unit test beginning.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now()); // Ensures virtual time will reach given time even without any action
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+  /**
+   * @param config Queue config fields, using tests storage
+   *
+   * @returns Queue for service A recording dropped requests
+   */
+  function makeQueue(config: Partial<RequestsQueueConfig> = {}): ServiceRequestsQueue {
+    return new ServiceRequestsQueue('A', makeRequestsQueueConfig({ storage, ...config }), scheduler,
+      (droppedRequest: QueuedRequest, reason: string) => dropped.push([droppedRequest.stored.request, reason]));
+  }
+
+  /**
+   * @param request SR command
+   * @param coalescingKey Optional coalescing key
+   * @param expiresAt Time at which request expires
+   *
+   * @returns Request to queue, queued at current time
+   */
+  function queued(request: string, coalescingKey?: string, expiresAt: number = Infinity): QueuedRequest {
+    return { stored: { serviceName: 'A', request, timeout: Infinity, queuedAt: scheduler.now(), expiresAt, coalescingKey } };
+  }
+
+  /**
+   * @param queue Queue to empty
+   *
+   * @returns Taken SR commands
+   */
+  function takeAll(queue: ServiceRequestsQueue): string[] {
+    return queue.takeAll().map((taken: QueuedRequest) => taken.stored.request);
+  }
+
+  beforeEach(() => {
+    scheduler = new VirtualTimeScheduler(); // Virtual time begins at 0 for each unit test
+    storage = new MemoryRequestsQueueStorage();
+    dropped = [];
+  });
+
+  describe('makeRequestsQueueConfig()', () => {
+    it('should use default values and a new memory storage for missing fields', () => {
+      expect(makeRequestsQueueConfig()).toEqual({ ...DEFAULT_REQUESTS_QUEUE_CONFIG, storage: jasmine.any(MemoryRequestsQueueStorage) });
+      expect(makeRequestsQueueConfig().storage).not.toBe(makeRequestsQueueConfig().storage);
+      expect(makeRequestsQueueConfig({ storage }).storage).toBe(storage);
+    });
+
+    it('should throw if max length is not a strictly positive integer or Infinity', () => {
+      expect(() => makeRequestsQueueConfig({ maxLength: 0 })).toThrowError(BadRequestsQueueConfig);
+      expect(() => makeRequestsQueueConfig({ maxLength: 1.5 })).toThrowError(BadRequestsQueueConfig);
+      expect(() => makeRequestsQueueConfig({ maxLength: Infinity })).not.toThrow();
+    });
+  });
+
+  it('should take requests in queuing order only once', () => {
+    const queue: ServiceRequestsQueue = makeQueue();
+    queue.push(queued('request 1'));
+    queue.push(queued('request 2'));
+
+    expect(takeAll(queue)).toEqual(['request 1', 'request 2']);
+    expect(takeAll(queue)).toEqual([]);
+  });
+
+  describe('Overflow', () => {
+    it('should drop oldest request with DROP_OLDEST', () => {
+      const queue: ServiceRequestsQueue = makeQueue({ maxLength: 2, overflowPolicy: QueueOverflowPolicy.DROP_OLDEST });
+      queue.push(queued('request 1'));
+      queue.push(queued('request 2'));
+      queue.push(queued('request 3'));
+
+      expect(dropped).toEqual([['request 1', 'Queue is full']]);
+      expect(takeAll(queue)).toEqual(['request 2', 'request 3']);
+    });
+
+    it('should drop new request with DROP_NEWEST', () => {
+      const queue: ServiceRequestsQueue = makeQueue({ maxLength: 2, overflowPolicy: QueueOverflowPolicy.DROP_NEWEST });
+      queue.push(queued('request 1'));
+      queue.push(queued('request 2'));
+      queue.push(queued('request 3'));
+
+      expect(dropped).toEqual([['request 3', 'Queue is full']]);
+      expect(takeAll(queue)).toEqual(['request 1', 'request 2']);
+    });
+
+    it('should throw without changing queue with REJECT', () => {
+      const queue: ServiceRequestsQueue = makeQueue({ maxLength: 1, overflowPolicy: QueueOverflowPolicy.REJECT });
+      queue.push(queued('request 1', 'x'));
+
+      expect(() => queue.push(queued('request 2'))).toThrowError(RequestsQueueFull);
+      expect(dropped).toEqual([]);
+      expect(takeAll(queue)).toEqual(['request 1']);
+    });
+
+    it('should make room from coalesced requests first', () => {
+      const queue: ServiceRequestsQueue = makeQueue({ maxLength: 1, overflowPolicy: QueueOverflowPolicy.REJECT });
+      queue.push(queued('SET x 1', 'x'));
+      queue.push(queued('SET x 2', 'x'));
+
+      expect(takeAll(queue)).toEqual(['SET x 2']);
+    });
+  });
+
+  it('should replace queued requests with the same coalescing key, keeping only latest one', () => {
+    const queue: ServiceRequestsQueue = makeQueue();
+    queue.push(queued('SET x 1', 'x'));
+    queue.push(queued('SET y 1', 'y'));
+    queue.push(queued('request'));
+    queue.push(queued('SET x 2', 'x'));
+
+    expect(dropped).toEqual([['SET x 1', 'Replaced by a newer request']]);
+    expect(takeAll(queue)).toEqual(['SET y 1', 'request', 'SET x 2']);
+  });
+
+  it('should drop requests once they expire', () => {
+    const queue: ServiceRequestsQueue = makeQueue();
+    queue.push(queued('request 1', undefined, 1000));
+    queue.push(queued('request 2', undefined, 2000));
+
+    runUntil(1500);
+
+    expect(dropped).toEqual([['request 1', 'Expired while queued']]);
+    expect(takeAll(queue)).toEqual(['request 2']);
+  });
+
+  it('should emit contents for each change and save them into storage', () => {
+    const contents: string[][] = [];
+    const queue: ServiceRequestsQueue = makeQueue();
+    queue.getContents().subscribe((stored: StoredRequest[]) => contents.push(stored.map((request: StoredRequest) => request.request)));
+
+    queue.push(queued('request 1'));
+    expect(storage.load('A').length).toEqual(1);
+
+    queue.takeAll();
+    expect(storage.load('A')).toEqual([]);
+
+    expect(contents).toEqual([[], ['request 1'], []]);
+  });
+
+  it('should restore saved requests and drop expired ones at construction', () => {
+    // Previous page scheduler never runs again, so previous queue doesn't expire anything
+    const previousQueue = new ServiceRequestsQueue('A', makeRequestsQueueConfig({ storage }), new VirtualTimeScheduler(), unexpected);
+    previousQueue.push(queued('request 1', undefined, 1000));
+    previousQueue.push(queued('request 2'));
+
+    runUntil(1000);
+    expect(dropped).toEqual([]);
+
+    const restoredQueue: ServiceRequestsQueue = makeQueue();
+
+    expect(dropped).toEqual([['request 1', 'Expired while queued']]);
+    expect(takeAll(restoredQueue)).toEqual(['request 2']);
+  });
+
+  it('should drop queued requests and remove them from storage when closed', () => {
+    let completed = false;
+    const queue: ServiceRequestsQueue = makeQueue();
+    queue.getContents().subscribe({ complete: () => completed = true });
+    queue.push(queued('request 1'));
+    queue.push(queued('request 2', undefined, 1000));
+
+    queue.close('Closed');
+    runUntil(1000); // Expiration was cancelled
+
+    expect(dropped).toEqual([['request 1', 'Closed'], ['request 2', 'Closed']]);
+    expect(storage.load('A')).toEqual([]);
+    expect(completed).toBeTrue();
+  });
+});
@@ -0,0 +1,271 @@
+import { AsyncSubject, BehaviorSubject, Observable, SchedulerLike, Subscription } from 'rxjs';
+import { MemoryRequestsQueueStorage, RequestsQueueStorage, StoredRequest } from './requests-queue-storage';
+
+
+/**
+ * What `ServiceSubject` does when a Service Request is queued while its queue is already at max length:
+ * - `DROP_OLDEST`: Oldest queued request is failed with `RequestDropped` to make room for the new one
+ * - `DROP_NEWEST`: New request is failed with `RequestDropped`, queue is unchanged
+ * - `REJECT`: `RequestsQueueFull` is thrown to caller, queue is unchanged
+ */
+export enum QueueOverflowPolicy {
+  DROP_OLDEST, DROP_NEWEST, REJECT
+}
+
+
+/**
+ * Configures how Service Requests are queued by a service while SER protocol is unbound:
+ * - `maxLength`: Max count of queued requests, `Infinity` for no limit
+ * - `overflowPolicy`: What to do with a new request when max length is reached
+ * - `storage`: Where queued requests are saved, a new `MemoryRequestsQueueStorage` if unspecified
+ */
+export type RequestsQueueConfig = {
+  maxLength: number,
+  overflowPolicy: QueueOverflowPolicy,
+  storage: RequestsQueueStorage
+};
+
+
+/**
+ * Config used for every `RequestsQueueConfig` field which isn't provided to `SerProtocolService:register()`, except storage which is
+ * created for each queue.
+ */
+export const DEFAULT_REQUESTS_QUEUE_CONFIG: Omit<RequestsQueueConfig, 'storage'> = {
+  maxLength: Infinity,
+  overflowPolicy: QueueOverflowPolicy.DROP_OLDEST
+};
+
+
+/**
+ * Thrown if a requests queue config has unusable values.
+ */
+export class BadRequestsQueueConfig extends Error {
+  /**
+   * @param reason Message explaining which config field is invalid
+   */
+  constructor(reason: string) {
+    super(`Bad requests queue config: ${reason}`);
+  }
+}
+
+
+/**
+ * Thrown by `ServiceSubject` when a Service Request is queued while queue is full, with `QueueOverflowPolicy.REJECT`.
+ */
+export class RequestsQueueFull extends Error {
+  /**
+   * @param serviceName Service which queue is full
+   * @param maxLength Max count of queued requests for that service
+   */
+  constructor(readonly serviceName: string, readonly maxLength: number) {
+    super(`Requests queue for ${serviceName} is full with ${maxLength} requests`);
+  }
+}
+
+
+/**
+ * Merges given config fields with default config, checking for each value to be valid.
+ *
+ * @param config Fields overriding default config
+ *
+ * @returns Complete requests queue config
+ *
+ * @throws BadRequestsQueueConfig if max length isn't a strictly positive integer or `Infinity`
+ */
+export function makeRequestsQueueConfig(config: Partial<RequestsQueueConfig> = {}): RequestsQueueConfig {
+  const completeConfig: RequestsQueueConfig = {
+    ...DEFAULT_REQUESTS_QUEUE_CONFIG, storage: config.storage ?? new MemoryRequestsQueueStorage(), ...config
+  };
+
+  if (completeConfig.maxLength !== Infinity && (!Number.isInteger(completeConfig.maxLength) || completeConfig.maxLength <= 0)) {
+    throw new BadRequestsQueueConfig('Max length must be a strictly positive integer or Infinity');
+  }
+
+  return completeConfig;
+}
+
+
+/**
+ * Options for a Service Request which only apply while it is queued:
+ * - `coalescingKey`: Request replaces any queued request of the same service with that key, e.g. repeated requests setting a same value
+ * - `expiresIn`: Time in ms after which request is dropped if it is still queued, never if unspecified
+ */
+export type QueueingOptions = {
+  coalescingKey?: string,
+  expiresIn?: number
+};
+
+
+/**
+ * Service Request waiting for SER protocol to be bound, with subject to resolve with its SRR if caller is waiting for it, and callback
+ * notified with its UID once sent. Only `stored` part is saved, so requests restored from storage have no caller waiting for them.
+ */
+export type QueuedRequest = { stored: StoredRequest, response?: AsyncSubject<number>, onSent?: (requestUid: number) => void };
+
+
+/**
+ * Service Requests queued by a service, in queuing order, within length limit and saved into configured storage after each change.
+ *
+ * Requests saved by a previous queue for the same service, e.g. before page was reloaded, are restored at construction.
+ */
+export class ServiceRequestsQueue {
+  // Notifies about every change inside queued requests
+  private readonly contents: BehaviorSubject<StoredRequest[]>;
+  // Dropping actions for queued requests which expire
+  private readonly expirations: Subscription;
+
+  // Queued requests, in queuing order
+  private queuedRequests: QueuedRequest[];
+
+  /**
+   * @param serviceName Service which requests are queued
+   * @param config Limits and storage for queued requests
+   * @param scheduler Scheduler to take queuing time from and to expire requests with
+   * @param onDropped Called for each request removed from queue without being taken, with a reason
+   */
+  constructor(private readonly serviceName: string,
+              readonly config: RequestsQueueConfig,
+              private readonly scheduler: SchedulerLike,
+              private readonly onDropped: (dropped: QueuedRequest, reason: string) => void) {
+    this.queuedRequests = config.storage.load(serviceName).map((stored: StoredRequest) => ({ stored }));
+    this.contents = new BehaviorSubject<StoredRequest[]>(this.storedRequests());
+    this.expirations = new Subscription();
+
+    for (const restoredRequest of this.queuedRequests) {
+      this.scheduleExpiration(restoredRequest.stored);
+    }
+
+    this.dropExpired(); // Some requests might have expired while nothing was running
+  }
+
+  /**
+   * Queues given request, replacing queued requests with the same coalescing key then applying overflow policy if queue is full.
+   *
+   * @param queuedRequest Request to queue
+   *
+   * @throws RequestsQueueFull if queue is full with `QueueOverflowPolicy.REJECT`, nothing is queued nor dropped
+   */
+  push(queuedRequest: QueuedRequest): void {
+    const droppedRequests: [QueuedRequest, string][] = this.takeExpired().map(
+      (expired: QueuedRequest): [QueuedRequest, string] => [expired, 'Expired while queued']
+    );
+
+    const coalescingKey: string | undefined = queuedRequest.stored.coalescingKey;
+    const keptRequests: QueuedRequest[] = this.queuedRequests.filter(
+      (previousRequest: QueuedRequest) => coalescingKey === undefined || previousRequest.stored.coalescingKey !== coalescingKey
+    );
+    const coalescedRequests: QueuedRequest[] = this.queuedRequests.filter(
+      (previousRequest: QueuedRequest) => !keptRequests.includes(previousRequest)
+    );
+
+    if (keptRequests.length >= this.config.maxLength) {
+      // Expired requests are dropped in any case, queue is changed only if new request is queued
+      if (this.config.overflowPolicy !== QueueOverflowPolicy.DROP_OLDEST && droppedRequests.length !== 0) {
+        this.notifyContents();
+      }
+
+      if (this.config.overflowPolicy === QueueOverflowPolicy.REJECT) {
+        this.notifyDropped(droppedRequests);
+        throw new RequestsQueueFull(this.serviceName, this.config.maxLength);
+      } else if (this.config.overflowPolicy === QueueOverflowPolicy.DROP_NEWEST) { // Coalesced requests are kept as new one is dropped
+        this.notifyDropped([...droppedRequests, [queuedRequest, 'Queue is full']]);
+        return;
+      } else { // Only one request pushed at once, only one request to discard
+        droppedRequests.push([keptRequests.shift() as QueuedRequest, 'Queue is full']);
+      }
+    }
+
+    for (const coalescedRequest of coalescedRequests) {
+      droppedRequests.push([coalescedRequest, 'Replaced by a newer request']);
+    }
+
+    this.queuedRequests = [...keptRequests, queuedRequest];
+    this.scheduleExpiration(queuedRequest.stored);
+    this.notifyContents();
+
+    this.notifyDropped(droppedRequests); // Queue is consistent before any caller is notified
+  }
+
+  /**
+   * Empties queue, dropping expired requests first.
+   *
+   * @returns Requests which were queued, in queuing order
+   */
+  takeAll(): QueuedRequest[] {
+    this.dropExpired();
+
+    const queuedRequests: QueuedRequest[] = this.queuedRequests;
+    this.queuedRequests = [];
+    this.notifyContents();
+
+    return queuedRequests;
+  }
+
+  /**
+   * @returns Observable emitting currently queued requests, then every time it changes
+   */
+  getContents(): Observable<StoredRequest[]> {
+    return this.contents.asObservable();
+  }
+
+  /**
+   * Drops every queued request, so they're removed from storage, then cancels expirations and completes contents observers.
+   *
+   * @param reason Why queued requests are dropped
+   */
+  close(reason: string): void {
+    this.notifyDropped(this.takeAll().map((dropped: QueuedRequest): [QueuedRequest, string] => [dropped, reason]));
+    this.expirations.unsubscribe();
+    this.contents.complete();
+  }
+
+  /// Removes and drops requests which expired.
+  private dropExpired(): void {
+    const expiredRequests: QueuedRequest[] = this.takeExpired();
+    if (expiredRequests.length !== 0) {
+      this.notifyContents();
+      this.notifyDropped(expiredRequests.map((expired: QueuedRequest): [QueuedRequest, string] => [expired, 'Expired while queued']));
+    }
+  }
+
+  /// Removes requests which expired from queue, without notifying about it.
+  private takeExpired(): QueuedRequest[] {
+    const now: number = this.scheduler.now();
+    const expiredRequests: QueuedRequest[] = this.queuedRequests.filter((queued: QueuedRequest) => queued.stored.expiresAt <= now);
+
+    if (expiredRequests.length !== 0) {
+      this.queuedRequests = this.queuedRequests.filter((queued: QueuedRequest) => !expiredRequests.includes(queued));
+    }
+
+    return expiredRequests;
+  }
+
+  /// Drops given request when it expires, if it is still queued by then.
+  private scheduleExpiration(storedRequest: StoredRequest): void {
+    if (storedRequest.expiresAt !== Infinity) {
+      this.expirations.add(
+        this.scheduler.schedule(() => this.dropExpired(), Math.max(storedRequest.expiresAt - this.scheduler.now(), 0))
+      );
+    }
+  }
+
+  /// Saves current requests into storage and pushes them to contents observers.
+  private notifyContents(): void {
+    const storedRequests: StoredRequest[] = this.storedRequests();
+
+    this.config.storage.save(this.serviceName, storedRequests);
+    this.contents.next(storedRequests);
+  }
+
+  /// Calls dropping callback for each given request, with its reason.
+  private notifyDropped(droppedRequests: [QueuedRequest, string][]): void {
+    for (const [droppedRequest, reason] of droppedRequests) {
+      this.onDropped(droppedRequest, reason);
+    }
+  }
+
+  /// Saved part of current requests.
+  private storedRequests(): StoredRequest[] {
+    return this.queuedRequests.map((queued: QueuedRequest) => queued.stored);
+  }
+}
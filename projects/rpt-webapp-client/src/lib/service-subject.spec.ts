@@ -1,8 +1,10 @@
 import { ServiceSubject } from './service-subject';
 import { MockedSerProtocolSubject, unexpected } from './testing-helpers';
 import { ServiceContext } from './service-context';
-import { ObjectUnsubscribedError } from 'rxjs';
-import { BadSerCommand } from './ser-protocol.service';
+import { AsyncSubject, ObjectUnsubscribedError, VirtualTimeScheduler } from 'rxjs';
+import { BadSerCommand, RequestDropped } from './ser-errors';
+import { makeRequestsQueueConfig, QueueOverflowPolicy, RequestsQueueFull } from './service-requests-queue';
+import { InMemoryWebStorage, StoredRequest, WebStorageRequestsQueueStorage } from './requests-queue-storage';
 
 describe('ServiceSubject', () => {
   const serviceName = 'TestingService'; // Service supposed to emits SR and receive SE commands
@@ -99,6 +101,211 @@ describe('ServiceSubject', () => {
     });
   });
 
+  describe('request()', () => {
+    it('should send SR command and wait for a response with its UID', () => {
+      const response = new AsyncSubject<number>();
+      spyOn(context, 'generateServiceRequestUid').and.callThrough();
+
+      subject.request('a random command').subscribe(response);
+
+      expect(mockedSerProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a random command');
+      expect(context.generateServiceRequestUid).toHaveBeenCalledWith(serviceName, jasmine.any(AsyncSubject), Infinity);
+    });
+
+    it('should wait for response during service default timeout, unless another one is given', () => {
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, 1000);
+      spyOn(context, 'generateServiceRequestUid').and.callThrough();
+
+      subject.request('a random command');
+      subject.request('another command', 200);
+      subject.next('a last command');
+
+      expect(context.generateServiceRequestUid).toHaveBeenCalledWith(serviceName, jasmine.any(AsyncSubject), 1000);
+      expect(context.generateServiceRequestUid).toHaveBeenCalledWith(serviceName, jasmine.any(AsyncSubject), 200);
+      expect(context.generateServiceRequestUid).toHaveBeenCalledWith(serviceName, undefined, 1000);
+    });
+
+    it('should notify sent UID once SR command is sent', () => {
+      const sentUids: number[] = [];
+      mockedSerProtocol.complete();
+      subject.request('a random command', undefined, (requestUid: number) => sentUids.push(requestUid));
+
+      expect(sentUids).toEqual([]); // Not sent while queued
+
+      subject.boundWith(new MockedSerProtocolSubject());
+
+      expect(sentUids).toEqual([0]);
+    });
+
+    it('should queue SR command with its response if SER subject is completed', () => {
+      mockedSerProtocol.complete();
+      subject.request('a random command').subscribe({ next: unexpected, error: unexpected, complete: unexpected });
+
+      expect(mockedSerProtocol.nextCommand()).toBeUndefined(); // Queued until bound again
+
+      const newMockedSerProtocol: MockedSerProtocolSubject = new MockedSerProtocolSubject();
+      subject.boundWith(newMockedSerProtocol);
+
+      expect(newMockedSerProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a random command');
+      expect(context.done(0).response).toBeDefined(); // Response is still waited for
+    });
+
+    it('should error returned observable if SER subject next thrown', () => {
+      mockedSerProtocol.next = () => { throw new Error('A random error'); };
+      subject.subscribe({ error: () => {} }); // Subject subscribers are notified too, as next() does
+
+      let error: string | undefined;
+      subject.request('a random command').subscribe({
+        next: unexpected,
+        error: (err: any) => error = err.message,
+        complete: unexpected
+      });
+
+      expect(error).toEqual('A random error');
+      expect(() => context.done(0)).toThrowError(BadSerCommand); // Not waiting for a response
+    });
+  });
+
+  describe('dropQueued()', () => {
+    it('should fail queued requests without sending them', () => {
+      mockedSerProtocol.complete();
+
+      let failure: RequestDropped | undefined;
+      let notified: RequestDropped | undefined;
+      subject.subscribe({ next: unexpected, error: unexpected, complete: unexpected }); // Drops don't stop subject observers
+      subject.getDroppedRequests().subscribe((dropped: RequestDropped) => notified = dropped);
+      subject.request('a random command').subscribe({ next: unexpected, error: (err: RequestDropped) => failure = err });
+
+      subject.dropQueued('A random reason');
+      const newMockedSerProtocol: MockedSerProtocolSubject = new MockedSerProtocolSubject();
+      subject.boundWith(newMockedSerProtocol);
+
+      expect(newMockedSerProtocol.nextCommand()).toBeUndefined();
+      expect(failure).toEqual(new RequestDropped(serviceName, 'a random command', 'A random reason'));
+      expect(notified).toBe(failure);
+    });
+  });
+
+  describe('Requests queue', () => {
+    let scheduler: VirtualTimeScheduler;
+
+    beforeEach(() => {
+      scheduler = new VirtualTimeScheduler();
+      mockedSerProtocol.complete(); // Every request is queued
+    });
+
+    it('should fail request dropped from a full queue', () => {
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, Infinity, makeRequestsQueueConfig({ maxLength: 1 }), scheduler);
+
+      let failure: RequestDropped | undefined;
+      subject.request('a random command').subscribe({ next: unexpected, error: (err: RequestDropped) => failure = err });
+      subject.next('another command');
+
+      expect(failure).toEqual(new RequestDropped(serviceName, 'a random command', 'Queue is full'));
+    });
+
+    it('should notify dropped requests without stopping subject observers', () => {
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, Infinity, makeRequestsQueueConfig({
+        maxLength: 1, overflowPolicy: QueueOverflowPolicy.DROP_NEWEST
+      }), scheduler);
+
+      const dropped: RequestDropped[] = [];
+      subject.getDroppedRequests().subscribe((request: RequestDropped) => dropped.push(request));
+      subject.subscribe({ error: unexpected, complete: unexpected });
+
+      subject.next('a random command');
+      subject.next('another command'); // Dropped as queue is full
+      subject.request('a third command').subscribe({ error: () => {} }); // Dropped too
+      subject.fire('a random event');
+
+      expect(dropped).toEqual([
+        new RequestDropped(serviceName, 'another command', 'Queue is full'),
+        new RequestDropped(serviceName, 'a third command', 'Queue is full')
+      ]);
+      expect(subject.observers.length).toEqual(1); // Subject observer is still listening for Service Events
+    });
+
+    it('should throw if queue is full with REJECT', () => {
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, Infinity, makeRequestsQueueConfig({
+        maxLength: 1, overflowPolicy: QueueOverflowPolicy.REJECT
+      }), scheduler);
+
+      subject.next('a random command');
+
+      expect(() => subject.request('another command')).toThrowError(RequestsQueueFull);
+    });
+
+    it('should coalesce and expire requests with given queueing options', () => {
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, 1000, makeRequestsQueueConfig(), scheduler);
+
+      let queued: StoredRequest[] = [];
+      subject.getQueuedRequests().subscribe((requests: StoredRequest[]) => queued = requests);
+      subject.subscribe({ error: unexpected }); // Dropped requests aren't notified to subject observers
+
+      subject.request('SET x 1', undefined, undefined, { coalescingKey: 'x' });
+      subject.request('SET x 2', undefined, undefined, { coalescingKey: 'x' });
+      subject.request('a random command', undefined, undefined, { expiresIn: 500 });
+
+      expect(queued).toEqual([
+        { serviceName, request: 'SET x 2', timeout: 1000, queuedAt: 0, expiresAt: Infinity, coalescingKey: 'x' },
+        { serviceName, request: 'a random command', timeout: 1000, queuedAt: 0, expiresAt: 500, coalescingKey: undefined }
+      ]);
+
+      scheduler.flush();
+      const newMockedSerProtocol: MockedSerProtocolSubject = new MockedSerProtocolSubject();
+      subject.boundWith(newMockedSerProtocol);
+
+      expect(newMockedSerProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService SET x 2');
+      expect(newMockedSerProtocol.nextCommand()).toBeUndefined();
+    });
+
+    it('should send requests restored from storage once bound', () => {
+      const webStorage = new InMemoryWebStorage();
+      const makeSubject = () => new ServiceSubject(context, serviceName, mockedSerProtocol, Infinity, makeRequestsQueueConfig({
+        storage: new WebStorageRequestsQueueStorage(webStorage)
+      }), scheduler);
+
+      makeSubject().next('a random command');
+      subject = makeSubject(); // Simulates a page reload
+
+      const newMockedSerProtocol: MockedSerProtocolSubject = new MockedSerProtocolSubject();
+      subject.boundWith(newMockedSerProtocol);
+
+      expect(newMockedSerProtocol.nextCommand()).toEqual('SERVICE REQUEST 0 TestingService a random command');
+      expect(new WebStorageRequestsQueueStorage(webStorage).load(serviceName)).toEqual([]);
+    });
+  });
+
+  describe('dispose()', () => {
+    it('should complete observers and no longer be usable', () => {
+      let completed = false;
+      subject.subscribe({ next: unexpected, error: unexpected, complete: () => completed = true });
+
+      subject.dispose();
+      expect(() => subject.dispose()).not.toThrow(); // Already disposed, nothing to do
+
+      expect(completed).toBeTrue();
+      expect(() => subject.next('a random command')).toThrowError(ObjectUnsubscribedError);
+      expect(() => subject.request('a random command')).toThrowError(ObjectUnsubscribedError);
+    });
+
+    it('should drop queued requests and remove them from storage', () => {
+      const webStorage = new InMemoryWebStorage();
+      const storage = new WebStorageRequestsQueueStorage(webStorage);
+      subject = new ServiceSubject(context, serviceName, mockedSerProtocol, Infinity, makeRequestsQueueConfig({ storage }));
+
+      const dropped: RequestDropped[] = [];
+      subject.getDroppedRequests().subscribe((droppedRequest: RequestDropped) => dropped.push(droppedRequest));
+      mockedSerProtocol.complete(); // Request will be queued
+      subject.next('a random command');
+
+      subject.dispose();
+
+      expect(dropped).toEqual([new RequestDropped(serviceName, 'a random command', 'Service was unregistered')]);
+      expect(storage.load(serviceName)).toEqual([]);
+    });
+  });
+
   /*
    * boundWith() already tested inside next() should queue if SER subject stopped unit test
    */
@@ -1,75 +1,161 @@
-import { ObjectUnsubscribedError, Subject } from 'rxjs';
+import { AsyncSubject, asyncScheduler, Observable, ObjectUnsubscribedError, SchedulerLike, Subject } from 'rxjs';
 import { ServiceContext } from './service-context';
+import { CommandBuilder } from './command-builder';
+import { RequestDropped } from './ser-errors';
+import { makeRequestsQueueConfig, QueuedRequest, QueueingOptions, RequestsQueueConfig, ServiceRequestsQueue } from './service-requests-queue';
+import { StoredRequest } from './requests-queue-storage';
+
+
+/**
+ * What to do with Service Requests queued while SER protocol was unbound after a session has been lost:
+ * - `REPLAY`: Requests are sent into next session, in the order they were queued
+ * - `DROP`: Requests are never sent, they are failed with `RequestDropped` when next session begins
+ *
+ * Requests queued before first session are always sent.
+ */
+export enum QueuedRequestsPolicy {
+  REPLAY, DROP
+}
 
 
 /**
  * Wrapper for `SerProtocolSubject`, allowing to send Service Requests and receive Service Events to/from a specific service.
  *
  * If `SerProtocolService` owning a subject isn't into bound state, subject is still available, but it will not receive any SE and sent
- * SR will be queued to be sent as soon as `bind()` is called. Basically, a Service Request cannot complete and isn't stopped when it is
- * errored.
+ * SR will be queued to be sent as soon as `bind()` is called. Queue length, overflow policy and storage are configured with a
+ * `RequestsQueueConfig`. Basically, a Service Request cannot complete and isn't stopped when it is errored.
  */
 export class ServiceSubject extends Subject<string> {
   // Messages to send as soon as underlying SER protocol is no longer a stopped subject
-  private serviceRequestsQueue: string[];
+  private readonly serviceRequestsQueue: ServiceRequestsQueue;
+  // Notifies about every queued SR command dropped without being sent
+  private readonly droppedRequests: Subject<RequestDropped>;
+  // Events received before service was registered, waiting to be fired before any other event
+  private heldEvents: string[];
 
   /**
    * @param context Context for all Services running inside this session, providing UID for Service Requests
    * @param serviceName Service emitting event and modified with sent requests
    * @param commands Subject used to send formatted Service Request commands
+   * @param requestTimeout Default time in ms to wait for a Service Request response once it is sent, `Infinity` to wait indefinitely
+   * @param queueConfig Limits and storage for queued Service Requests, requests saved inside storage for that service are restored
+   * @param scheduler Scheduler to take queuing time from and to expire queued requests with
    */
-  constructor(private context: ServiceContext, private serviceName: string, private commands: Subject<string>) {
+  constructor(private context: ServiceContext,
+              private serviceName: string,
+              private commands: Subject<string>,
+              private readonly requestTimeout: number = Infinity,
+              queueConfig: RequestsQueueConfig = makeRequestsQueueConfig(),
+              private readonly scheduler: SchedulerLike = asyncScheduler) {
     super();
 
-    this.serviceRequestsQueue = []; // No messages to send at construction
+    this.heldEvents = [];
+    this.droppedRequests = new Subject<RequestDropped>();
+    // Restored requests might be dropped right away, which requires dropped requests subject to be initialized
+    this.serviceRequestsQueue = new ServiceRequestsQueue(
+      serviceName, queueConfig, scheduler, (dropped: QueuedRequest, reason: string) => this.drop(dropped, reason)
+    );
   }
 
   /**
    * Flushes current SR commands queue into new subject.
    *
    * @param commands New subject used to send formatted Service Request commands
+   * @param context Context for all Services running inside new session
    */
-  boundWith(commands: Subject<string>): void {
+  boundWith(commands: Subject<string>, context: ServiceContext = this.context): void {
     this.commands = commands; // Set a new subject provided by a new RPTL session
+    this.context = context; // UIDs are provided by new session context
 
-    for (const queuedRequest of this.serviceRequestsQueue) { // In FIFO order, send each queued message
-      this.next(queuedRequest); // next() will queue them back if subject is stopped
+    const queuedRequests: QueuedRequest[] = this.serviceRequestsQueue.takeAll(); // Queue is flushed, expired requests being dropped
+
+    for (const queuedRequest of queuedRequests) { // In FIFO order, send each queued message
+      this.send(queuedRequest); // send() will queue them back if subject is stopped
+    }
+  }
+
+  /**
+   * Fails every queued SR command with `RequestDropped` so it will never be sent, notifying `getDroppedRequests()` observers for each of
+   * them.
+   *
+   * @param reason Why queued SR commands are dropped
+   */
+  dropQueued(reason: string): void {
+    for (const droppedRequest of this.serviceRequestsQueue.takeAll()) { // Queue is flushed without sending anything
+      this.drop(droppedRequest, reason);
     }
+  }
 
-    this.serviceRequestsQueue = []; // Queue is flushed
+  /**
+   * @returns Observable emitting SR commands currently queued for this service, then every time queue changes
+   */
+  getQueuedRequests(): Observable<StoredRequest[]> {
+    return this.serviceRequestsQueue.getContents();
+  }
+
+  /**
+   * @returns Observable emitting each queued SR command dropped without being sent, as subject observers are never errored by drops
+   */
+  getDroppedRequests(): Observable<RequestDropped> {
+    return this.droppedRequests.asObservable();
+  }
+
+  /**
+   * Drops queued SR commands, removing them from storage, then completes observers and unsubscribes this subject so it can no longer be
+   * used. Does nothing if subject is already disposed.
+   */
+  dispose(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.serviceRequestsQueue.close('Service was unregistered');
+    this.droppedRequests.complete();
+    super.complete(); // Service is gone, observers will never receive any SE again
+    super.unsubscribe();
   }
 
   /**
    * @param request SR command to send into subject service, queued if SER protocol isn't bound
    *
-   * @note If SR command sending fails for unexpected reasons, error() subscribers method will be called.
+   * @note If SR command sending fails for unexpected reasons, error() subscribers method will be called. If it is dropped from queue,
+   * `getDroppedRequests()` observers are notified.
    *
    * @throws ObjectUnsubscribedError if subject was unsubscribed
    * @throws Error if command is `undefined`
+   * @throws RequestsQueueFull if SR command cannot be queued with `QueueOverflowPolicy.REJECT`
    */
   next(request?: string): void {
     if (request === undefined) {
       throw new Error('Service Request is undefined');
     }
 
-    if (this.closed) { // Checks for subject to not have been unsubscribed
-      throw new ObjectUnsubscribedError();
-    }
+    this.send({ stored: this.store(request, this.requestTimeout) });
+  }
 
-    if (this.commands.isStopped) { // Queues message if it cannot be sent for now
-      this.serviceRequestsQueue.push(request);
-    } else {
-      // UID used for this Service Request command, provided by context for all running SER services
-      const serviceRequestUid: number = this.context.generateServiceRequestUid();
+  /**
+   * Sends a SR command like `next()` does, but correlates it with the SRR command server will respond with.
+   *
+   * @param request SR command to send into subject service, queued if SER protocol isn't bound
+   * @param timeout Time in ms to wait for SRR once SR is sent, service default if unspecified, `Infinity` to wait indefinitely
+   * @param onSent Called with UID provided by `ServiceContext` right before SR command is sent, if any
+   * @param queueing Coalescing key and expiry applied if SR command is queued
+   *
+   * @returns Observable emitting SR UID then completing when SRR is OK, erroring with `ServiceRequestFailed` when SRR is KO, with
+   * `RequestTimeout` if server didn't respond in time, with `RequestDropped` if it was dropped from queue, or with sending error if SR
+   * command couldn't be sent
+   *
+   * @throws ObjectUnsubscribedError if subject was unsubscribed
+   * @throws RequestsQueueFull if SR command cannot be queued with `QueueOverflowPolicy.REJECT`
+   */
+  request(request: string,
+          timeout: number = this.requestTimeout,
+          onSent?: (requestUid: number) => void,
+          queueing: QueueingOptions = {}): Observable<number> {
+    const response = new AsyncSubject<number>();
+    this.send({ stored: this.store(request, timeout, queueing), response, onSent });
 
-      try {
-        // Cannot be stopped, in any case, formats and sends Service Request
-        this.commands.next(`REQUEST ${serviceRequestUid} ${this.serviceName} ${request}`);
-      } catch (err: any) { // A non-stopping error will emits if request couldn't have been sent
-        this.context.done(serviceRequestUid); // Sending failed, should not wait for a response
-        this.error(err);
-      }
-    }
+    return response.asObservable();
   }
 
   /**
@@ -82,8 +168,8 @@ export class ServiceSubject extends Subject<string> {
       throw new ObjectUnsubscribedError();
     }
 
-    // In any case, call appropriate callbacks without stopping the subject
-    for (const subscriber of this.observers) {
+    // In any case, call appropriate callbacks without stopping the subject, observers might subscribe again from their callback
+    for (const subscriber of this.observers.slice()) {
       subscriber.error(err);
     }
   }
@@ -101,7 +187,76 @@ export class ServiceSubject extends Subject<string> {
    * @param event Formatted SE command
    */
   fire(event: string): void {
-    super.next(event);
+    if (this.heldEvents.length !== 0) { // Previous events must be fired first, so this one waits for a subscription too
+      this.heldEvents.push(event);
+    } else {
+      super.next(event);
+    }
+  }
+
+  /**
+   * Holds given events until `fireHeld()` is called, events fired in the meantime being held after them.
+   *
+   * @param events Formatted SE commands received before service was registered
+   */
+  hold(events: string[]): void {
+    this.heldEvents.push(...events);
+  }
+
+  /**
+   * Fires held events in order, does nothing if subject was disposed in the meantime.
+   */
+  fireHeld(): void {
+    if (this.closed) {
+      return;
+    }
+
+    const heldEvents: string[] = this.heldEvents;
+    this.heldEvents = []; // Fired only once
+    for (const event of heldEvents) {
+      super.next(event);
+    }
+  }
+
+  /// Saved form of given SR command, as it will be queued if SER protocol is unbound.
+  private store(request: string, timeout: number, { coalescingKey, expiresIn = Infinity }: QueueingOptions = {}): StoredRequest {
+    const now: number = this.scheduler.now();
+
+    return { serviceName: this.serviceName, request, timeout, queuedAt: now, expiresAt: now + expiresIn, coalescingKey };
+  }
+
+  /// Fails given request with `RequestDropped`, notifying caller if it is waiting for a response and dropped requests observers.
+  private drop(droppedRequest: QueuedRequest, reason: string): void {
+    const dropped = new RequestDropped(this.serviceName, droppedRequest.stored.request, reason);
+
+    droppedRequest.response?.error(dropped);
+    this.droppedRequests.next(dropped);
   }
-}
 
+  private send(queuedRequest: QueuedRequest): void {
+    if (this.closed) { // Checks for subject to not have been unsubscribed
+      throw new ObjectUnsubscribedError();
+    }
+
+    if (this.commands.isStopped) { // Queues message if it cannot be sent for now
+      this.serviceRequestsQueue.push(queuedRequest);
+    } else {
+      // UID used for this Service Request command, provided by context for all running SER services
+      const serviceRequestUid: number = this.context.generateServiceRequestUid(
+        this.serviceName, queuedRequest.response, queuedRequest.stored.timeout
+      );
+      queuedRequest.onSent?.(serviceRequestUid);
+
+      try {
+        // Cannot be stopped, in any case, formats and sends Service Request
+        this.commands.next(
+          new CommandBuilder('REQUEST').add(serviceRequestUid).add(this.serviceName).addRaw(queuedRequest.stored.request).build()
+        );
+      } catch (err: any) { // A non-stopping error will emits if request couldn't have been sent
+        this.context.done(serviceRequestUid); // Sending failed, should not wait for a response
+        queuedRequest.response?.error(err);
+        this.error(err);
+      }
+    }
+  }
+}
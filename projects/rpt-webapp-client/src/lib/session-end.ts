@@ -0,0 +1,36 @@
+import { RptlState } from './rptl-protocol.service';
+
+
+/**
+ * Why an RPTL session ended:
+ * - `CLIENT_LOGOUT`: Client ended session with `RptlProtocolService:endSession()`
+ * - `SERVER_INTERRUPT`: Server kicked client with `INTERRUPT` command, reason is provided if server gave one
+ * - `PROTOCOL_ERROR`: Client closed connection because server sent an ill-formed or unavailable message, which is provided
+ * - `TRANSPORT_ERROR`: Connection was closed by server without `INTERRUPT` or dropped, close code is provided if known
+ * - `TIMEOUT`: Client closed connection because heartbeat didn't receive anything from server for too long, or because server didn't
+ *   reply to registration in time
+ */
+export enum SessionEndCause {
+  CLIENT_LOGOUT, SERVER_INTERRUPT, PROTOCOL_ERROR, TRANSPORT_ERROR, TIMEOUT
+}
+
+
+/**
+ * Data about an RPTL session which has just ended.
+ */
+export class SessionEnd {
+  /**
+   * @param cause Why session ended
+   * @param duration Time in ms since session began
+   * @param lastState State session was into when it ended, either `UNREGISTERED` or `REGISTERED`
+   * @param reason Message explaining why session ended, if any
+   * @param code WebSocket close code, if known
+   * @param rptlMessage Message which caused a protocol error, if any
+   */
+  constructor(readonly cause: SessionEndCause,
+              readonly duration: number,
+              readonly lastState: RptlState,
+              readonly reason?: string,
+              readonly code?: number,
+              readonly rptlMessage?: string) {}
+}
@@ -0,0 +1,169 @@
+import { Subject, VirtualTimeScheduler } from 'rxjs';
+import {
+  BadRecording,
+  parseRecording,
+  RecordKind,
+  serializeRecording,
+  SessionRecord,
+  SessionRecorder
+} from './session-recorder';
+import { MockedWebsocketSubject, unexpected } from './testing-helpers';
+
+
+describe('SessionRecorder', () => {
+  let scheduler: VirtualTimeScheduler;
+  let recorder: SessionRecorder;
+  let mockedWsConnection: MockedWebsocketSubject;
+
+  /**
+   * Moves virtual time forward to given time.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now());
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+  beforeEach(() => {
+    scheduler = new VirtualTimeScheduler();
+    recorder = new SessionRecorder(scheduler, 5);
+    mockedWsConnection = new MockedWebsocketSubject();
+  });
+
+  it('should be constructed as stopped without any record', () => {
+    expect(recorder.isRecording()).toBeFalse();
+    expect(recorder.getRecords()).toEqual([]);
+  });
+
+  describe('tap()', () => {
+    beforeEach(() => recorder.start());
+
+    it('should record sent and received messages with time relative to first record', () => {
+      runUntil(100); // First record will be at time 0
+
+      const connection = recorder.tap(mockedWsConnection);
+      connection.subscribe({ error: unexpected });
+
+      runUntil(150);
+      connection.next('LOGIN 42 ThisALV');
+      runUntil(200);
+      mockedWsConnection.fromServer('REGISTRATION 42 ThisALV');
+
+      expect(mockedWsConnection.nextMessage()).toEqual('LOGIN 42 ThisALV'); // Messages still go through
+      expect(recorder.getRecords()).toEqual([
+        new SessionRecord(RecordKind.OPENED, 0),
+        new SessionRecord(RecordKind.SENT, 50, 'LOGIN 42 ThisALV'),
+        new SessionRecord(RecordKind.RECEIVED, 100, 'REGISTRATION 42 ThisALV')
+      ]);
+    });
+
+    it('should record closure by client with its reason', () => {
+      const connection = recorder.tap(mockedWsConnection);
+      connection.subscribe({ error: unexpected });
+
+      connection.error({ code: 1011, reason: 'Protocol error' });
+
+      expect(connection.isStopped).toBeTrue();
+      expect(mockedWsConnection.closureReason).toEqual({ code: 1011, reason: 'Protocol error' });
+      expect(recorder.getRecords()).toEqual([ // Closure is recorded once even if wrapped connection stopped too
+        new SessionRecord(RecordKind.OPENED, 0), new SessionRecord(RecordKind.CLOSED_BY_CLIENT, 0, undefined, 1011, 'Protocol error')
+      ]);
+    });
+
+    it('should record closure by server and be stopped before observers are notified', () => {
+      const connection = recorder.tap(mockedWsConnection);
+      let stoppedWhenNotified: boolean | undefined;
+      connection.subscribe({ complete: () => stoppedWhenNotified = connection.isStopped });
+
+      mockedWsConnection.closeFromServer();
+
+      expect(stoppedWhenNotified).toBeTrue();
+      expect(recorder.getRecords()).toEqual([
+        new SessionRecord(RecordKind.OPENED, 0), new SessionRecord(RecordKind.CLOSED_BY_SERVER, 0)
+      ]);
+    });
+
+    it('should record error from server with its reason', () => {
+      const transport: Subject<string> = new Subject<string>(); // Unlike mocked connection, it can be errored from server side
+      const connection = recorder.tap(transport);
+      connection.subscribe({ error: () => {} });
+
+      transport.error({ code: 1006, reason: 'Connection lost' });
+
+      expect(connection.isStopped).toBeTrue();
+      expect(recorder.getRecords()).toEqual([
+        new SessionRecord(RecordKind.OPENED, 0), new SessionRecord(RecordKind.ERRORED_BY_SERVER, 0, undefined, 1006, 'Connection lost')
+      ]);
+    });
+
+    it('should not record anything while stopped', () => {
+      recorder.stop();
+
+      const connection = recorder.tap(mockedWsConnection);
+      connection.subscribe({ error: unexpected });
+      connection.next('CHECKOUT');
+
+      expect(recorder.getRecords()).toEqual([]);
+    });
+
+    it('should only keep last records', () => {
+      const connection = recorder.tap(mockedWsConnection);
+      for (let i = 0; i < 6; i++) {
+        connection.next(`MESSAGE ${i}`);
+      }
+
+      expect(recorder.getDroppedCount()).toEqual(2);
+      expect(recorder.getRecords().map((record: SessionRecord) => record.message)).toEqual([
+        'MESSAGE 1', 'MESSAGE 2', 'MESSAGE 3', 'MESSAGE 4', 'MESSAGE 5'
+      ]);
+    });
+  });
+
+  describe('clear()', () => {
+    it('should forget records and reset time reference', () => {
+      recorder.start();
+      recorder.tap(mockedWsConnection);
+
+      runUntil(100);
+      recorder.clear();
+      recorder.tap(new MockedWebsocketSubject());
+
+      expect(recorder.getRecords()).toEqual([new SessionRecord(RecordKind.OPENED, 0)]);
+    });
+  });
+
+  describe('JSON-lines format', () => {
+    const records: SessionRecord[] = [
+      new SessionRecord(RecordKind.OPENED, 0),
+      new SessionRecord(RecordKind.RECEIVED, 10, 'AVAILABILITY 0 2'),
+      new SessionRecord(RecordKind.CLOSED_BY_CLIENT, 20, undefined, 1000)
+    ];
+
+    it('should serialize one record per line with kind name', () => {
+      expect(serializeRecording(records)).toEqual(
+        '{"kind":"OPENED","time":0}\n{"kind":"RECEIVED","time":10,"message":"AVAILABILITY 0 2"}\n{"kind":"CLOSED_BY_CLIENT","time":20,"code":1000}'
+      );
+    });
+
+    it('should parse serialized records back', () => {
+      expect(parseRecording(`${serializeRecording(records)}\n`)).toEqual(records);
+    });
+
+    it('should throw if a line is not a valid record', () => {
+      expect(() => parseRecording('not JSON')).toThrowError(BadRecording);
+      expect(() => parseRecording('{"kind":"UNKNOWN","time":0}')).toThrowError(BadRecording);
+      expect(() => parseRecording('{"kind":"OPENED"}')).toThrowError(BadRecording);
+      expect(() => parseRecording('{"kind":"0","time":0}')).toThrowError(BadRecording, /Unknown kind 0/);
+      expect(() => parseRecording('[]')).toThrowError(BadRecording);
+      expect(() => parseRecording('null')).toThrowError(BadRecording);
+    });
+
+    it('should throw if message, code or reason has an unexpected type', () => {
+      expect(() => parseRecording('{"kind":"SENT","time":0,"message":42}')).toThrowError(BadRecording);
+      expect(() => parseRecording('{"kind":"CLOSED_BY_SERVER","time":0,"code":"1000"}')).toThrowError(BadRecording);
+      expect(() => parseRecording('{"kind":"CLOSED_BY_SERVER","time":0,"reason":{}}')).toThrowError(BadRecording);
+    });
+  });
+});
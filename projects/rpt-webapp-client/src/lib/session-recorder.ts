@@ -0,0 +1,305 @@
+import { asyncScheduler, SchedulerLike, Subject, Subscriber, Subscription } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+
+/**
+ * Values for `SessionRecord` kind:
+ * - `OPENED`: A new connection began to be recorded
+ * - `SENT`: Message sent by client to server
+ * - `RECEIVED`: Message received by client from server
+ * - `CLOSED_BY_CLIENT`: Connection was closed by client
+ * - `CLOSED_BY_SERVER`: Connection was closed normally by server
+ * - `ERRORED_BY_SERVER`: Connection was closed by server with an error, or transport dropped
+ */
+export enum RecordKind {
+  OPENED, SENT, RECEIVED, CLOSED_BY_CLIENT, CLOSED_BY_SERVER, ERRORED_BY_SERVER
+}
+
+
+/**
+ * Something which happened on a recorded connection.
+ */
+export class SessionRecord {
+  /**
+   * @param kind What happened
+   * @param time Time in ms since recording began
+   * @param message RPTL message for `SENT` and `RECEIVED` records
+   * @param code Close code for closure records, if any
+   * @param reason Close reason for closure records, if any
+   */
+  constructor(readonly kind: RecordKind,
+              readonly time: number,
+              readonly message?: string,
+              readonly code?: number,
+              readonly reason?: string) {}
+}
+
+
+/**
+ * Thrown by `parseRecording()` if a line isn't a valid record.
+ */
+export class BadRecording extends Error {
+  /**
+   * @param line Number of invalid line, beginning at 1
+   * @param reason Message explaining why line is invalid
+   */
+  constructor(line: number, reason: string) {
+    super(`Bad recording at line ${line}: ${reason}`);
+  }
+}
+
+
+/**
+ * Maximum number of records a `SessionRecorder` keeps by default.
+ */
+export const DEFAULT_MAX_RECORDS = 10000;
+
+
+// Record as parsed from a JSON line, kind being a `RecordKind` name
+type ParsedRecord = { kind: string, time: number, message?: string, code?: number, reason?: string };
+
+
+/// Checks for parsed JSON value to be an object with every record field having expected type, optional ones being allowed to miss.
+function isParsedRecord(value: unknown): value is ParsedRecord {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const fields = value as { [field: string]: unknown };
+  const isOptional = (field: string, type: string) => fields[field] === undefined || typeof fields[field] === type;
+
+  return typeof fields.kind === 'string' && typeof fields.time === 'number' &&
+    isOptional('message', 'string') && isOptional('code', 'number') && isOptional('reason', 'string');
+}
+
+
+/**
+ * @param records Records to serialize
+ *
+ * @returns JSON-lines recording, one JSON object per record with kind name
+ */
+export function serializeRecording(records: SessionRecord[]): string {
+  return records.map((record: SessionRecord) => JSON.stringify({ ...record, kind: RecordKind[record.kind] })).join('\n');
+}
+
+
+/**
+ * @param jsonLines Recording serialized by `serializeRecording()`, empty lines are ignored
+ *
+ * @returns Parsed records, in recording order
+ *
+ * @throws BadRecording if a line isn't a JSON object with a valid kind and time, or if message, code or reason has an unexpected type
+ */
+export function parseRecording(jsonLines: string): SessionRecord[] {
+  const records: SessionRecord[] = [];
+
+  jsonLines.split('\n').forEach((line: string, index: number) => {
+    if (line.trim().length === 0) { // Trailing line break is allowed
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (err) {
+      throw new BadRecording(index + 1, err.message);
+    }
+
+    if (!isParsedRecord(parsed)) {
+      throw new BadRecording(index + 1, 'Expected an object with string kind, number time, and optional string message, number code '
+        + 'and string reason');
+    }
+
+    // Enum reverse mapping also accepts indexes, which are not kind names
+    const kind: RecordKind | string | undefined = RecordKind[parsed.kind as keyof typeof RecordKind];
+    if (typeof kind !== 'number') {
+      throw new BadRecording(index + 1, `Unknown kind ${parsed.kind}`);
+    }
+
+    records.push(new SessionRecord(kind, parsed.time, parsed.message, parsed.code, parsed.reason));
+  });
+
+  return records;
+}
+
+
+/**
+ * Connection wrapper passing every message and closure to a recorder, mirroring wrapped connection state.
+ */
+class RecordedConnection extends Subject<string> {
+  // Set when closure has already been recorded, so client closure will not be recorded twice when wrapped connection stops
+  private closureRecorded: boolean;
+
+  /**
+   * @param connection Connection to wrap
+   * @param recorder Recorder to pass messages and closures to
+   */
+  constructor(private readonly connection: Subject<string>, private readonly recorder: SessionRecorder) {
+    super();
+
+    this.closureRecorded = false;
+    this.isStopped = connection.isStopped;
+  }
+
+  private recordClosure(kind: RecordKind, code?: number, reason?: string): void {
+    if (!this.closureRecorded) {
+      this.closureRecorded = true;
+      this.recorder.record(kind, undefined, code, reason);
+    }
+  }
+
+  next(rptlMessage?: string): void {
+    if (!this.isStopped) { // Message would not be sent anyway
+      this.recorder.record(RecordKind.SENT, rptlMessage);
+    }
+
+    this.connection.next(rptlMessage);
+  }
+
+  error(err: any): void {
+    this.recordClosure(RecordKind.CLOSED_BY_CLIENT, err?.code, err?.reason);
+    this.isStopped = true;
+    this.connection.error(err);
+  }
+
+  complete(): void {
+    this.recordClosure(RecordKind.CLOSED_BY_CLIENT, 1000); // Normal closure code
+    this.isStopped = true;
+    this.connection.complete();
+  }
+
+  /** @deprecated This is an internal implementation detail, do not use. */
+  _subscribe(subscriber: Subscriber<string>): Subscription {
+    return this.connection.pipe(tap({
+      next: (rptlMessage: string) => this.recorder.record(RecordKind.RECEIVED, rptlMessage),
+      // Stopped before observers are notified, so they will see connection as closed
+      error: (err: any) => {
+        this.isStopped = true;
+        this.recordClosure(RecordKind.ERRORED_BY_SERVER, err?.code, err?.reason);
+      },
+      complete: () => {
+        this.isStopped = true;
+        this.recordClosure(RecordKind.CLOSED_BY_SERVER);
+      }
+    })).subscribe(subscriber);
+  }
+}
+
+
+/**
+ * Records every RPTL message sent and received on tapped connections, with time relative to recording beginning, so a session can be
+ * reproduced later using `SessionReplayer`.
+ *
+ * Recording is toggled with `start()` and `stop()`, messages going through tapped connections while stopped are not recorded. Only
+ * `maxRecords` last records are kept.
+ */
+export class SessionRecorder {
+  // Records in recording order, oldest ones are removed when max size is reached
+  private records: SessionRecord[];
+  // Scheduler time at which current recording began, undefined if nothing was recorded since last clear
+  private origin?: number;
+  // If new records are currently kept
+  private recording: boolean;
+  // Records removed because max size was reached
+  private dropped: number;
+
+  /**
+   * Constructs recorder as stopped.
+   *
+   * @param scheduler Scheduler to take records time from
+   * @param maxRecords Maximum number of records kept
+   */
+  constructor(private readonly scheduler: SchedulerLike = asyncScheduler, readonly maxRecords: number = DEFAULT_MAX_RECORDS) {
+    this.records = [];
+    this.recording = false;
+    this.dropped = 0;
+  }
+
+  /**
+   * Records what happened right now, if recording.
+   *
+   * @param kind What happened
+   * @param message RPTL message, if any
+   * @param code Close code, if any
+   * @param reason Close reason, if any
+   */
+  record(kind: RecordKind, message?: string, code?: number, reason?: string): void {
+    if (!this.recording) {
+      return;
+    }
+
+    const now: number = this.scheduler.now();
+    if (this.origin === undefined) { // First record is the time reference
+      this.origin = now;
+    }
+
+    this.records.push(new SessionRecord(kind, now - this.origin, message, code, reason));
+
+    if (this.records.length > this.maxRecords) { // Bounded size, oldest record is forgotten
+      this.records.shift();
+      this.dropped++;
+    }
+  }
+
+  /**
+   * @param connection Connection to record messages and closure for
+   *
+   * @returns Connection to use instead of given one, so every message going through it is recorded
+   */
+  tap(connection: Subject<string>): Subject<string> {
+    this.record(RecordKind.OPENED);
+
+    return new RecordedConnection(connection, this);
+  }
+
+  /**
+   * Begins to record, records time being relative to first record since last `clear()`.
+   */
+  start(): void {
+    this.recording = true;
+  }
+
+  /**
+   * Stops recording, records are kept.
+   */
+  stop(): void {
+    this.recording = false;
+  }
+
+  /**
+   * @returns `true` if recorder is currently keeping new records
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Forgets every record, next record will be the new time reference.
+   */
+  clear(): void {
+    this.records = [];
+    this.origin = undefined;
+    this.dropped = 0;
+  }
+
+  /**
+   * @returns Copy of kept records, in recording order
+   */
+  getRecords(): SessionRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * @returns Number of records forgotten since last `clear()` because max size was reached
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * @returns Kept records serialized with `serializeRecording()`
+   */
+  toJsonLines(): string {
+    return serializeRecording(this.records);
+  }
+}
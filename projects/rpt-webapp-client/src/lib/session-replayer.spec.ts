@@ -0,0 +1,166 @@
+import { TestBed } from '@angular/core/testing';
+import { VirtualTimeScheduler } from 'rxjs';
+import { RecordKind, SessionRecord, SessionRecorder } from './session-recorder';
+import { ReplayDivergence, ReplayStopped, SessionReplayer, splitSessions } from './session-replayer';
+import { RptlProtocolService, RptlState } from './rptl-protocol.service';
+import { RPT_SCHEDULER } from './rpt-scheduler';
+import { NoopLogger, RPT_LOGGER } from './rpt-logger';
+import { MockedWebsocketSubject, unexpected } from './testing-helpers';
+import { Actor } from './actor';
+
+
+describe('SessionReplayer', () => {
+  let scheduler: VirtualTimeScheduler;
+
+  /**
+   * Moves virtual time forward to given time.
+   *
+   * @param time Virtual time to reach
+   */
+  function runUntil(time: number): void {
+    scheduler.schedule(() => {}, time - scheduler.now());
+    scheduler.maxFrames = time;
+    scheduler.flush();
+  }
+
+  /**
+   * @returns New RPTL service using virtual time scheduler
+   */
+  function newService(): RptlProtocolService {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: RPT_SCHEDULER, useValue: scheduler },
+        { provide: RPT_LOGGER, useValue: new NoopLogger() } // Replayed traffic would otherwise be logged to console
+      ]
+    });
+
+    return TestBed.inject(RptlProtocolService);
+  }
+
+  beforeEach(() => scheduler = new VirtualTimeScheduler());
+
+  describe('splitSessions()', () => {
+    it('should split records on each opened connection', () => {
+      const records: SessionRecord[] = [
+        new SessionRecord(RecordKind.RECEIVED, 0, 'LOGGED_OUT 0'), // Beginning dropped from bounded recording
+        new SessionRecord(RecordKind.OPENED, 10),
+        new SessionRecord(RecordKind.CLOSED_BY_SERVER, 20),
+        new SessionRecord(RecordKind.OPENED, 30)
+      ];
+
+      expect(splitSessions(records)).toEqual([[records[0]], [records[1], records[2]], [records[3]]]);
+    });
+  });
+
+  it('should push server messages at their recorded time', () => {
+    const replayer: SessionReplayer = new SessionReplayer([
+      new SessionRecord(RecordKind.OPENED, 100),
+      new SessionRecord(RecordKind.RECEIVED, 150, 'AVAILABILITY 0 2'),
+      new SessionRecord(RecordKind.CLOSED_BY_SERVER, 200)
+    ], scheduler);
+
+    const received: string[] = [];
+    let closed = false;
+    replayer.connection.subscribe({ next: (message: string) => received.push(message), complete: () => closed = true });
+
+    replayer.play();
+    runUntil(49);
+    expect(received).toEqual([]);
+
+    runUntil(50);
+    expect(received).toEqual(['AVAILABILITY 0 2']);
+    expect(closed).toBeFalse();
+
+    runUntil(100);
+    expect(closed).toBeTrue();
+  });
+
+  it('should replay error from server with its recorded reason', () => {
+    const replayer: SessionReplayer = new SessionReplayer([
+      new SessionRecord(RecordKind.OPENED, 0), new SessionRecord(RecordKind.ERRORED_BY_SERVER, 100, undefined, 1006, 'Connection lost')
+    ], scheduler);
+
+    let error: any;
+    replayer.connection.subscribe({ error: (err: any) => error = err, complete: unexpected });
+
+    replayer.play();
+    runUntil(100);
+
+    expect(error).toEqual({ code: 1006, reason: 'Connection lost' });
+  });
+
+  it('should throw if played after being stopped', () => {
+    const replayer: SessionReplayer = new SessionReplayer([new SessionRecord(RecordKind.OPENED, 0)], scheduler);
+    replayer.stop();
+
+    expect(() => replayer.play()).toThrowError(ReplayStopped);
+  });
+
+  it('should notify about messages client did not send during recorded session', () => {
+    const replayer: SessionReplayer = new SessionReplayer([
+      new SessionRecord(RecordKind.OPENED, 0), new SessionRecord(RecordKind.SENT, 0, 'LOGIN 42 ThisALV')
+    ], scheduler);
+
+    const divergences: ReplayDivergence[] = [];
+    replayer.getDivergences().subscribe({ next: (divergence: ReplayDivergence) => divergences.push(divergence) });
+
+    replayer.connection.next('LOGIN 42 ThisALV');
+    replayer.connection.next('LOGOUT');
+
+    expect(divergences).toEqual([new ReplayDivergence(undefined, 'LOGOUT')]);
+  });
+
+  it('should reproduce recorded session state transitions and actors', () => {
+    // Records a session
+    const recordedService: RptlProtocolService = newService();
+    const recorder: SessionRecorder = new SessionRecorder(scheduler);
+    recorder.start();
+    recordedService.setRecorder(recorder);
+
+    const mockedWsConnection: MockedWebsocketSubject = new MockedWebsocketSubject();
+    recordedService.beginSession(mockedWsConnection);
+    recordedService.register(42, 'ThisALV');
+    runUntil(100);
+    mockedWsConnection.fromServer('REGISTRATION 42 ThisALV 0 Redox');
+    runUntil(200);
+    mockedWsConnection.fromServer('LOGGED_OUT 0');
+    mockedWsConnection.closeFromServer();
+
+    // Replays it with another service instance
+    const replayedService: RptlProtocolService = newService();
+    const replayer: SessionReplayer = new SessionReplayer(recorder.getRecords(), scheduler);
+    const divergences: ReplayDivergence[] = [];
+    replayer.getDivergences().subscribe({ next: (divergence: ReplayDivergence) => divergences.push(divergence) });
+
+    const states: RptlState[] = [];
+    replayedService.getState().subscribe({ next: (state: RptlState) => states.push(state) });
+
+    replayedService.beginSession(replayer.connection);
+    replayedService.register(42, 'ThisALV');
+    replayer.play();
+
+    runUntil(300);
+    expect(replayedService.hasActor(0)).toBeTrue(); // Redox hasn't left yet
+
+    runUntil(400);
+    expect(replayedService.hasActor(0)).toBeFalse();
+    expect(states).toEqual([RptlState.DISCONNECTED, RptlState.UNREGISTERED, RptlState.REGISTERED, RptlState.DISCONNECTED]);
+    expect(divergences).toEqual([]);
+  });
+
+  it('should push every server record at once', () => {
+    const service: RptlProtocolService = newService();
+    const replayer: SessionReplayer = new SessionReplayer([
+      new SessionRecord(RecordKind.OPENED, 0),
+      new SessionRecord(RecordKind.SENT, 0, 'LOGIN 42 ThisALV'),
+      new SessionRecord(RecordKind.RECEIVED, 1000, 'REGISTRATION 42 ThisALV 0 Redox')
+    ], scheduler);
+
+    service.beginSession(replayer.connection);
+    service.register(42, 'ThisALV');
+    replayer.playAll();
+
+    expect(service.getActorByUid(0)).toEqual(new Actor(0, 'Redox'));
+  });
+});
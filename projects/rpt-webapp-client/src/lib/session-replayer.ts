@@ -0,0 +1,200 @@
+import { asyncScheduler, Observable, SchedulerLike, Subject, Subscription } from 'rxjs';
+import { RecordKind, SessionRecord } from './session-recorder';
+
+
+/**
+ * Message sent by client during replay which isn't the one client sent during recorded session.
+ */
+export class ReplayDivergence {
+  /**
+   * @param expected Message sent by client at that point of recorded session, `undefined` if it didn't send anything more
+   * @param actual Message sent by client during replay
+   */
+  constructor(readonly expected: string | undefined, readonly actual: string) {}
+}
+
+
+/**
+ * Thrown by `SessionReplayer:play()` if replay has already been stopped.
+ */
+export class ReplayStopped extends Error {
+  constructor() {
+    super('Replay was stopped, a new replayer is required to play session again');
+  }
+}
+
+
+/**
+ * @param records Records of one or many successive connections
+ *
+ * @returns Records for each recorded connection, each one beginning with its `OPENED` record
+ */
+export function splitSessions(records: SessionRecord[]): SessionRecord[][] {
+  const sessions: SessionRecord[][] = [];
+
+  for (const record of records) {
+    // Records before first OPENED are kept as a session, as its beginning might have been dropped from a bounded recording
+    if (record.kind === RecordKind.OPENED || sessions.length === 0) {
+      sessions.push([]);
+    }
+
+    sessions[sessions.length - 1].push(record);
+  }
+
+  return sessions;
+}
+
+
+/**
+ * Transport emulating server side of a recorded session, messages sent by client are checked against recorded ones.
+ */
+class ReplayConnection extends Subject<string> {
+  // Messages client is expected to send, in recording order
+  private readonly expectedMessages: string[];
+
+  /**
+   * @param records Records of session to replay
+   * @param divergences Notified for each message sent by client which isn't the expected one
+   */
+  constructor(records: SessionRecord[], private readonly divergences: Subject<ReplayDivergence>) {
+    super();
+
+    this.expectedMessages = records
+      .filter((record: SessionRecord) => record.kind === RecordKind.SENT)
+      .map((record: SessionRecord) => record.message as string); // SENT records always have a message
+  }
+
+  next(rptlMessage?: string): void {
+    if (rptlMessage === undefined || this.isStopped) { // Nothing would be sent
+      return;
+    }
+
+    const expected: string | undefined = this.expectedMessages.shift();
+    if (expected !== rptlMessage) {
+      this.divergences.next(new ReplayDivergence(expected, rptlMessage));
+    }
+  }
+
+  error(err: any): void { // Client closing connection is emulated as a close frame
+    super.complete();
+  }
+
+  /**
+   * Pushes given message to client.
+   *
+   * @param rptlMessage Message recorded as received by client
+   */
+  fromServer(rptlMessage: string): void {
+    super.next(rptlMessage);
+  }
+
+  /**
+   * Closes connection normally as server did during recorded session.
+   */
+  closeFromServer(): void {
+    super.complete();
+  }
+
+  /**
+   * Closes connection with an error as server or transport did during recorded session.
+   *
+   * @param code Recorded close code, if any
+   * @param reason Recorded close reason, if any
+   */
+  errorFromServer(code?: number, reason?: string): void {
+    super.error({ code, reason });
+  }
+}
+
+
+/**
+ * Reproduces a recorded session offline: `connection` is given to `RptlProtocolService:beginSession()`, then `play()` pushes every
+ * recorded message from server at its recorded time, so service will go through the same state transitions and actors list updates,
+ * and SER services will receive the same events.
+ *
+ * Only first recorded connection is replayed, use `splitSessions()` to replay others.
+ */
+export class SessionReplayer {
+  /**
+   * Connection to begin replayed session with.
+   */
+  readonly connection: Subject<string>;
+
+  // Server side of replayed connection
+  private readonly replayConnection: ReplayConnection;
+  // Records to replay, from first recorded connection
+  private readonly records: SessionRecord[];
+  // Notified for each unexpected message sent by client
+  private readonly divergences: Subject<ReplayDivergence>;
+  // Scheduled server messages and closure, if replay is running
+  private readonly scheduledRecords: Subscription;
+
+  /**
+   * @param records Recorded session to replay
+   * @param scheduler Scheduler to push server messages at their recorded time with
+   */
+  constructor(records: SessionRecord[], private readonly scheduler: SchedulerLike = asyncScheduler) {
+    this.records = splitSessions(records)[0] ?? [];
+    this.divergences = new Subject<ReplayDivergence>();
+    this.scheduledRecords = new Subscription();
+
+    this.replayConnection = new ReplayConnection(this.records, this.divergences);
+    this.connection = this.replayConnection;
+  }
+
+  /**
+   * Replays given record if it happened on server side.
+   *
+   * @param record Record to replay
+   * @private
+   */
+  private replay(record: SessionRecord): void {
+    if (record.kind === RecordKind.RECEIVED) {
+      this.replayConnection.fromServer(record.message as string); // RECEIVED records always have a message
+    } else if (record.kind === RecordKind.CLOSED_BY_SERVER) {
+      this.replayConnection.closeFromServer();
+    } else if (record.kind === RecordKind.ERRORED_BY_SERVER) {
+      this.replayConnection.errorFromServer(record.code, record.reason);
+    }
+  }
+
+  /**
+   * Schedules every server message and closure at its time relative to first record.
+   *
+   * @throws ReplayStopped if `stop()` has already been called
+   */
+  play(): void {
+    if (this.scheduledRecords.closed) { // Scheduled records would be cancelled right away
+      throw new ReplayStopped();
+    }
+
+    const origin: number = this.records[0]?.time ?? 0;
+
+    for (const record of this.records) {
+      this.scheduledRecords.add(this.scheduler.schedule(() => this.replay(record), record.time - origin));
+    }
+  }
+
+  /**
+   * Immediately pushes every server message and closure, ignoring recorded time.
+   */
+  playAll(): void {
+    for (const record of this.records) {
+      this.replay(record);
+    }
+  }
+
+  /**
+   * Cancels every server message and closure which hasn't been replayed yet, replay can no longer be played afterwards.
+   */
+  stop(): void {
+    this.scheduledRecords.unsubscribe();
+  }
+
+  /**
+   * @returns Observable notified each time client sends a message different from the recorded one
+   */
+  getDivergences(): Observable<ReplayDivergence> {
+    return this.divergences;
+  }
+}
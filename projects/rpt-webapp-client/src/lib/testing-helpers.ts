@@ -1,5 +1,12 @@
 import {} from 'jasmine'; // Required to use fail() declared by Jasmine
 import { ObjectUnsubscribedError, Observable, Subject } from 'rxjs';
+import {
+  ConnectionEvent,
+  ConnectionEventType,
+  RptlConnection,
+  RptlConnectionFactory,
+  RptlConnectionOptions
+} from './rptl-connection-factory';
 
 
 /**
@@ -129,7 +136,6 @@ export class MockedSerProtocolSubject extends Subject<string> {
     if (!this.isStopped) { // Checks for subject to not have been completed/errored
       const rptlMessage = `SERVICE ${value}`; // Formats RPTL message to send
 
-      console.log(`Send message: ${rptlMessage}`);
       this.commandsQueue.unshift(rptlMessage); // Push back message into FIFO queue
     }
   }
@@ -191,3 +197,62 @@ export function expectToContainExactly(list: any[], ...expected: any[]): void {
     expect(list).toContain(elem);
   }
 }
+
+
+/**
+ * Connection opened by `MockedConnectionFactory`, with arguments it was opened with.
+ */
+export type MockedConnection = {
+  url: string,
+  options?: RptlConnectionOptions,
+  messages: MockedWebsocketSubject,
+  events: Subject<ConnectionEvent>
+};
+
+
+/**
+ * In-memory implementation for `RptlConnectionFactory` opening `MockedWebsocketSubject` connections. When a connection is closed, a
+ * `CLOSED` event is pushed with close code saved into `closureReason`, or with normal closure code if closed from server, then events are
+ * completed.
+ */
+export class MockedConnectionFactory extends RptlConnectionFactory {
+  /**
+   * Every connection opened by this factory, in opening order.
+   */
+  readonly openedConnections: MockedConnection[];
+
+  constructor() {
+    super();
+    this.openedConnections = [];
+  }
+
+  open(url: string, options?: RptlConnectionOptions): RptlConnection {
+    const messages: MockedWebsocketSubject = new MockedWebsocketSubject();
+    const events: Subject<ConnectionEvent> = new Subject<ConnectionEvent>();
+
+    messages.subscribe({ // Close frame code is emulated from mocked connection closure reason
+      complete: () => {
+        const closure: { code: number, reason?: string } = messages.closureReason ?? { code: 1000 };
+        events.next(new ConnectionEvent(ConnectionEventType.CLOSED, url, closure.code, closure.reason ?? '', true));
+        events.complete();
+      }
+    });
+
+    this.openedConnections.push({ url, options, messages, events });
+
+    return new RptlConnection(messages, events);
+  }
+
+  /**
+   * @returns Last connection opened by this factory
+   *
+   * @throws Error if no connections have been opened yet
+   */
+  lastConnection(): MockedConnection {
+    if (this.openedConnections.length === 0) {
+      throw new Error('No connections opened yet');
+    }
+
+    return this.openedConnections[this.openedConnections.length - 1];
+  }
+}
@@ -4,12 +4,33 @@
 
 export * from './lib/rpt-webapp-client.module';
 export * from './lib/actor';
+export * from './lib/actor-event';
+export * from './lib/argument-converters';
 export * from './lib/availability';
+export * from './lib/command-builder';
 export * from './lib/command-parser';
+export * from './lib/heartbeat-config';
+export * from './lib/protocol-grammar';
+export * from './lib/reconnection-policy';
+export * from './lib/requests-queue-storage';
+export * from './lib/rpt-logger';
+export * from './lib/rpt-scheduler';
+export * from './lib/rptl-command-registry';
+export * from './lib/rptl-connection-factory';
+export * from './lib/rptl-grammar';
 export * from './lib/rptl-protocol.service';
+export * from './lib/ser-errors';
+export * from './lib/ser-grammar';
 export * from './lib/ser-protocol.service';
 export * from './lib/ser-protocol-subject';
 export * from './lib/ser-service';
+export * from './lib/ser-service-store';
 export * from './lib/service-context';
+export * from './lib/service-event-handler';
+export * from './lib/service-events-buffer';
 export * from './lib/service-request-response';
+export * from './lib/service-requests-queue';
 export * from './lib/service-subject';
+export * from './lib/session-end';
+export * from './lib/session-recorder';
+export * from './lib/session-replayer';